@@ -3,8 +3,11 @@ import React, { useState, useEffect, useCallback, useRef, useMemo, createContext
 import ReactDOM from 'react-dom/client';
 import * as pdfjsLib from 'pdfjs-dist';
 import * as XLSX from 'xlsx'; // For XLSX and CSV
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Chat, Type } from "@google/genai";
 import { sampleWords } from './src/data/sampleWords'; // Corrected path
+import { STOP_WORDS, IRREGULAR_FORMS, MULTI_WORD_EXPRESSIONS, WORD_TIER_LISTS, COMPARATIVE_ADJECTIVES } from './src/data/extractionWordLists';
+import { encodeQrCode } from './src/qrCode';
+import { getSpeechRecognizer, scorePronunciation, getPronunciationQuality, PRONUNCIATION_PASS_SCORE, SpeechRecognizer, SpeechRecognitionErrorCode, PronunciationScore } from './src/pronunciation';
 
 // pdf.js worker setup
 if (typeof window !== 'undefined') {
@@ -115,20 +118,29 @@ const GlobalSpinner: React.FC<{ isLoading: boolean }> = ({ isLoading }) => {
 // Define types for user settings
 export interface UserSettings {
     grade: string;
-    textbook: string; 
+    textbook: string; // TextbookPack.id of the student's textbook; '' when none is selected
     dailyGoal: number;
     username: string;
     theme: 'dark' | 'light';
     speechRate: number;
     autoPlayAudio: boolean;
+    englishAccent: EnglishAccent;
+    voiceURIs: Record<string, string>; // SpeechSynthesisVoice.voiceURI chosen per language (e.g. 'en-US', 'ko-KR'); automatic when missing
+    readMeaningsAloud: boolean; // Read the Korean meaning and example translation when a learning card is flipped
     xp: number;
     level: number;
 }
 
+const DEFAULT_VOICE_SETTINGS: Pick<UserSettings, 'englishAccent' | 'voiceURIs' | 'readMeaningsAloud'> = {
+    englishAccent: 'en-US',
+    voiceURIs: {},
+    readMeaningsAloud: false,
+};
+
 // Define props for screen components
 interface ScreenProps {
     userSettings: UserSettings;
-    onNavigate: (screen: AppScreen, params?: any) => void;
+    onNavigate: NavigateFunction;
     currentScreen?: AppScreen; 
     setGlobalLoading: (loading: boolean) => void; 
     addToast: (message: string, type: ToastMessage['type']) => void;
@@ -136,7 +148,19 @@ interface ScreenProps {
     addXp: (amount: number) => void; // Added for game mode
 }
 
-type AppScreen = 'loginSetup' | 'dashboard' | 'learnWords' | 'quiz' | 'allWords' | 'wordsByUnit' | 'stats' | 'manageWords' | 'tutorChat' | 'gameSelection' | 'wordMatchGame' | 'typingPracticeGame' | 'speedQuizGame' | 'gameResult';
+type AppScreen = 'loginSetup' | 'profileSelect' | 'dashboard' | 'learnWords' | 'quiz' | 'allWords' | 'wordsByUnit' | 'stats' | 'manageWords' | 'tutorChat' | 'gameSelection' | 'wordMatchGame' | 'typingPracticeGame' | 'speedQuizGame' | 'pronunciationGame' | 'gameResult';
+
+// Parameters a screen is opened with. They are also written to the URL, so they must survive a round trip through it (see Hash Routing).
+interface RouteParamsByScreen {
+    learnWords: { unitId?: string }; // Set when started from a unit card: study that unit's words instead of the daily set
+    quiz: { mode?: QuizMode; unitId?: string; questionTypes?: QuizQuestionType[] };
+    gameResult: GameResultParams;
+}
+
+type RouteParams<S extends AppScreen> = S extends keyof RouteParamsByScreen ? RouteParamsByScreen[S] : undefined;
+
+// `replace` updates the current history entry instead of adding one, e.g. when a screen only refines its own parameters
+type NavigateFunction = <S extends AppScreen>(screen: S, params?: RouteParams<S>, options?: { replace?: boolean }) => void;
 
 export interface Word { 
     id: number | string; 
@@ -148,14 +172,33 @@ export interface Word {
     exampleSentenceMeaning?: string; 
     gradeLevel: string; 
     isCustom?: boolean; 
-    unit?: string | number; // Optional field for unit/lesson
+    unitId?: string; // Unit.id of the unit/lesson the word belongs to
+}
+
+// Where a review came from, kept in each word's review history
+export type ReviewSource = 'learn' | 'quickReview' | 'quiz' | 'wordMatchGame' | 'typingPracticeGame' | 'speedQuizGame' | 'pronunciation' | 'listen';
+
+// Reviews that come from studying a word rather than from a quiz or game round
+type LearningReviewSource = Extract<ReviewSource, 'learn' | 'quickReview' | 'pronunciation' | 'listen'>;
+
+export interface ReviewLogEntry {
+    date: string; // ISO timestamp
+    quality: number; // SM-2 response quality, 0 (blackout) ~ 5 (perfect)
+    source: ReviewSource;
+    interval: number; // Interval in days scheduled after this review
 }
 
-export interface WordStat { 
+export interface WordStat {
     id: number | string;
     isMastered: boolean;
-    lastReviewed: string | null; 
+    lastReviewed: string | null;
     quizIncorrectCount: number;
+    // Spaced-repetition (SM-2) scheduling
+    easeFactor: number;
+    interval: number; // Days until the next review
+    repetitions: number; // Consecutive successful reviews
+    dueDate: string | null; // YYYY-MM-DD, null if never scheduled
+    reviewHistory: ReviewLogEntry[];
 }
 
 // --- Helper Functions ---
@@ -168,6 +211,33 @@ const shuffleArray = <T,>(array: T[]): T[] => {
     return newArray;
 };
 
+// Words are unique by term, ignoring case
+const findWordByTerm = <T extends Pick<Word, 'term'>,>(words: T[], term: string) => {
+    const normalizedTerm = term.trim().toLowerCase();
+    return words.find(word => word.term.toLowerCase() === normalizedTerm);
+};
+
+const getTodayDateString = () => new Date().toISOString().split('T')[0];
+
+const addDaysToDateString = (dateString: string, days: number) => {
+    const date = new Date(`${dateString}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+};
+
+// --- Text-to-Speech ---
+// Every spoken text goes through one queue, so sentences read back to back (a word, then its meaning, then the
+// example) play in order instead of cutting each other off. `speak` starts over; `queueSpeech` appends.
+export type EnglishAccent = 'en-US' | 'en-GB';
+const KOREAN_SPEECH_LANG = 'ko-KR';
+
+// The voice settings the app currently plays with; the App keeps them in sync with the active profile
+let speechVoiceSettings: Pick<UserSettings, 'englishAccent' | 'voiceURIs'> = { englishAccent: 'en-US', voiceURIs: {} };
+
+const applySpeechVoiceSettings = (settings: Pick<UserSettings, 'englishAccent' | 'voiceURIs'>) => {
+    speechVoiceSettings = { englishAccent: settings.englishAccent, voiceURIs: settings.voiceURIs };
+};
+
 let cachedVoices: SpeechSynthesisVoice[] | null = null;
 let preferredVoices: { [lang: string]: SpeechSynthesisVoice | undefined } = {};
 let voicesLoadedPromise: Promise<void> | null = null;
@@ -202,53 +272,287 @@ const loadVoices = () => {
 
 loadVoices();
 
-const speak = async (text: string, lang = 'en-US', rate?: number) => {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
-        speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.lang = lang;
-        if (rate !== undefined) {
-            utterance.rate = Math.max(0.1, Math.min(rate, 10)); // Clamp rate to valid range
-        }
+// Some platforms report 'en_US' instead of 'en-US'
+const getVoiceLang = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-');
 
+// Voices for exactly this language first, then others of the same language family (e.g. en-AU for en-GB)
+const getVoicesForLang = (voices: SpeechSynthesisVoice[], lang: string) => {
+    const family = lang.split('-')[0];
+    return [
+        ...voices.filter(voice => getVoiceLang(voice) === lang),
+        ...voices.filter(voice => getVoiceLang(voice) !== lang && getVoiceLang(voice).split('-')[0] === family),
+    ];
+};
 
-        await loadVoices(); 
+// The voice the student chose for the language, or the best-sounding one available
+const pickVoice = (lang: string, voiceURI?: string) => {
+    if (!cachedVoices) return undefined;
+    const chosenURI = voiceURI ?? speechVoiceSettings.voiceURIs[lang];
+    const chosenVoice = chosenURI ? cachedVoices.find(voice => voice.voiceURI === chosenURI) : undefined;
+    if (chosenVoice) return chosenVoice;
+
+    if (!preferredVoices[lang]) {
+        const targetLangVoices = getVoicesForLang(cachedVoices, lang);
+        preferredVoices[lang] = 
+            targetLangVoices.find(voice => voice.name.includes('Google') && getVoiceLang(voice) === lang) ||
+            targetLangVoices.find(voice => voice.name.includes('Microsoft') && getVoiceLang(voice) === lang) ||
+            targetLangVoices.find(voice => voice.name.includes('Samantha') && getVoiceLang(voice) === lang) || // Common voice name
+            targetLangVoices.find(voice => voice.default && getVoiceLang(voice) === lang) ||
+            targetLangVoices.find(voice => getVoiceLang(voice) === lang) ||
+            targetLangVoices.find(voice => voice.default) || // Fallback to any default system voice
+            targetLangVoices[0]; // Fallback to the first available voice for the language
+    }
+    return preferredVoices[lang] || cachedVoices.find(v => v.default);
+};
 
-        if (cachedVoices && !preferredVoices[lang]) {
-            const targetLangVoices = cachedVoices.filter(voice => voice.lang === lang || voice.lang.startsWith(lang.split('-')[0]));
-            preferredVoices[lang] = 
-                targetLangVoices.find(voice => voice.name.includes('Google') && voice.lang === lang) ||
-                targetLangVoices.find(voice => voice.name.includes('Microsoft') && voice.lang === lang) ||
-                targetLangVoices.find(voice => voice.name.includes('Samantha') && voice.lang === lang) || // Common voice name
-                targetLangVoices.find(voice => voice.default && voice.lang === lang) ||
-                targetLangVoices.find(voice => voice.lang === lang) ||
-                targetLangVoices.find(voice => voice.default) || // Fallback to any default system voice
-                targetLangVoices[0]; // Fallback to the first available voice for the language
-        }
+interface SpeechQueueItem {
+    text: string;
+    lang: string;
+    rate?: number;
+    voiceURI?: string; // Overrides the saved voice, e.g. for a preview in the settings
+    onDone: () => void;
+}
 
-        if (preferredVoices[lang]) {
-            utterance.voice = preferredVoices[lang];
-        } else if (cachedVoices && cachedVoices.length > 0) {
-            const systemDefaultVoice = cachedVoices.find(v => v.default);
-            if (systemDefaultVoice) utterance.voice = systemDefaultVoice;
-        }
-        
-        speechSynthesis.speak(utterance);
-    } else {
+let speechQueue: SpeechQueueItem[] = [];
+let currentSpeechItem: SpeechQueueItem | null = null;
+
+const playNextSpeech = async () => {
+    const item = speechQueue.shift();
+    currentSpeechItem = item || null;
+    if (!item) return;
+
+    await loadVoices();
+    if (currentSpeechItem !== item) return; // Stopped while the voices were loading
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    utterance.lang = item.lang;
+    if (item.rate !== undefined) {
+        utterance.rate = Math.max(0.1, Math.min(item.rate, 10)); // Clamp rate to valid range
+    }
+    const voice = pickVoice(item.lang, item.voiceURI);
+    if (voice) utterance.voice = voice;
+
+    const finish = () => {
+        if (currentSpeechItem !== item) return;
+        item.onDone();
+        playNextSpeech();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    speechSynthesis.speak(utterance);
+};
+
+// Stops what is playing and drops everything queued; their promises resolve right away
+const stopSpeech = () => {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+    const dropped = [...(currentSpeechItem ? [currentSpeechItem] : []), ...speechQueue];
+    speechQueue = [];
+    currentSpeechItem = null;
+    speechSynthesis.cancel();
+    dropped.forEach(item => item.onDone());
+};
+
+// Plays after everything already queued. Resolves when the text has been spoken or the queue was stopped.
+// English without an explicit language uses the student's accent.
+const queueSpeech = (text: string, lang?: string, rate?: number, voiceURI?: string): Promise<void> => {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
         console.warn("Speech synthesis not supported in this browser.");
+        return Promise.resolve();
     }
+    return new Promise(resolve => {
+        speechQueue.push({ text, lang: lang || speechVoiceSettings.englishAccent, rate, voiceURI, onDone: resolve });
+        if (!currentSpeechItem) playNextSpeech();
+    });
 };
 
+const speak = (text: string, lang?: string, rate?: number, voiceURI?: string) => {
+    stopSpeech();
+    return queueSpeech(text, lang, rate, voiceURI);
+};
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
+// Reads a word's Korean meaning and its example with translation, as on the back of a learning card
+const speakWordMeaningAndExample = (word: Pick<Word, 'meaning' | 'exampleSentence' | 'exampleSentenceMeaning'>, rate?: number) => {
+    stopSpeech();
+    queueSpeech(word.meaning, KOREAN_SPEECH_LANG, rate);
+    if (word.exampleSentence) queueSpeech(word.exampleSentence, undefined, rate);
+    if (word.exampleSentenceMeaning) queueSpeech(word.exampleSentenceMeaning, KOREAN_SPEECH_LANG, rate);
+};
+
+// The installed voices, once the browser has loaded them
+const useSpeechVoices = () => {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => cachedVoices || []);
+    useEffect(() => {
+        let isActive = true;
+        loadVoices().then(() => { if (isActive) setVoices(cachedVoices || []); });
+        return () => { isActive = false; };
+    }, []);
+    return voices;
+};
+
+
+// --- Spaced Repetition (SM-2) ---
+const SRS_DEFAULT_EASE = 2.5;
+const SRS_MIN_EASE = 1.3;
+const SRS_MASTERED_INTERVAL_DAYS = 21; // Anki's "mature card" threshold
+const SRS_MAX_HISTORY_ENTRIES = 50;
+// Sources that only expose the student to a word without testing recall
+const SRS_EXPOSURE_ONLY_SOURCES: ReviewSource[] = ['listen'];
 
 const getDefaultWordStat = (wordId: string | number): WordStat => ({
     id: wordId,
     isMastered: false,
     lastReviewed: null,
     quizIncorrectCount: 0,
+    easeFactor: SRS_DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueDate: null,
+    reviewHistory: [],
 });
 
+// Upgrades stats saved before SRS scheduling existed. Previously reviewed words become due immediately,
+// and words that were often missed in quizzes start with a lower ease so they come back sooner.
+const normalizeWordStat = (stat: Partial<WordStat> & { id: string | number }): WordStat => {
+    const defaults = getDefaultWordStat(stat.id);
+    const quizIncorrectCount = stat.quizIncorrectCount ?? 0;
+    return {
+        ...defaults,
+        ...stat,
+        quizIncorrectCount,
+        easeFactor: stat.easeFactor ?? Math.max(SRS_MIN_EASE, SRS_DEFAULT_EASE - Math.min(quizIncorrectCount, 8) * 0.15),
+        dueDate: stat.dueDate !== undefined ? stat.dueDate : (stat.lastReviewed ? stat.lastReviewed.split('T')[0] : null),
+        reviewHistory: Array.isArray(stat.reviewHistory) ? stat.reviewHistory : [],
+    };
+};
+
+const isWordDue = (stat: WordStat, today = getTodayDateString()) => !!stat.dueDate && stat.dueDate <= today;
+
+// Applies one review to a word's schedule using the SM-2 algorithm.
+// A successful review of a word that is not due yet (e.g. the same word again later in the day) is only logged,
+// so answering it several times in a row does not inflate its interval. Failed reviews always reset the schedule.
+// Exposure-only sources (listen mode) are logged without touching the schedule at all.
+const applySrsReview = (stat: WordStat, quality: number, source: ReviewSource, now = new Date()): WordStat => {
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+    if (SRS_EXPOSURE_ONLY_SOURCES.includes(source)) {
+        const exposureEntry: ReviewLogEntry = { date: now.toISOString(), quality: q, source, interval: stat.interval };
+        return {
+            ...stat,
+            lastReviewed: now.toISOString(),
+            reviewHistory: [...stat.reviewHistory, exposureEntry].slice(-SRS_MAX_HISTORY_ENTRIES),
+        };
+    }
+    const today = now.toISOString().split('T')[0];
+    const isAheadOfSchedule = !!stat.dueDate && stat.dueDate > today;
+
+    let { easeFactor, interval, repetitions, dueDate } = stat;
+    if (q < 3) {
+        repetitions = 0;
+        interval = 1;
+        dueDate = addDaysToDateString(today, interval);
+        easeFactor = Math.max(SRS_MIN_EASE, easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+    } else if (!isAheadOfSchedule) {
+        repetitions += 1;
+        interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easeFactor);
+        dueDate = addDaysToDateString(today, interval);
+        easeFactor = Math.max(SRS_MIN_EASE, easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+    }
+
+    const isMastered = stat.isMastered ? q >= 3 : interval >= SRS_MASTERED_INTERVAL_DAYS;
+    const logEntry: ReviewLogEntry = { date: now.toISOString(), quality: q, source, interval };
+
+    return {
+        ...stat,
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        interval,
+        repetitions,
+        dueDate,
+        isMastered,
+        lastReviewed: now.toISOString(),
+        reviewHistory: [...stat.reviewHistory, logEntry].slice(-SRS_MAX_HISTORY_ENTRIES),
+    };
+};
+
+
+// --- Daily Activity Log ---
+// One entry per day the student studied, so the stats screen can chart progress over time.
+// Days are keyed like `getTodayDateString`, and entries are kept sorted by date.
+export interface DailyActivity {
+    date: string; // YYYY-MM-DD
+    wordsLearned: number; // Words that counted toward the daily goal
+    reviews: number; // Answers fed into the SRS schedule: learning cards, quiz questions, game rounds
+    quizzes: number;
+    quizCorrect: number;
+    quizQuestions: number;
+    xpEarned: number;
+}
+
+type DailyActivityCounts = Partial<Omit<DailyActivity, 'date'>>;
+
+const DAILY_ACTIVITY_COUNT_KEYS = ['wordsLearned', 'reviews', 'quizzes', 'quizCorrect', 'quizQuestions', 'xpEarned'] as const;
+
+// Sources that count toward the daily goal (see `onWordLearned`)
+const DAILY_GOAL_REVIEW_SOURCES: ReviewSource[] = ['learn', 'pronunciation', 'listen'];
+
+const createDailyActivity = (date: string): DailyActivity => ({ date, wordsLearned: 0, reviews: 0, quizzes: 0, quizCorrect: 0, quizQuestions: 0, xpEarned: 0 });
+
+const addDailyActivity = (log: DailyActivity[], date: string, counts: DailyActivityCounts): DailyActivity[] => {
+    const existing = log.find(day => day.date === date);
+    const updated = { ...(existing || createDailyActivity(date)) };
+    DAILY_ACTIVITY_COUNT_KEYS.forEach(key => { updated[key] += counts[key] ?? 0; });
+    return existing
+        ? log.map(day => day === existing ? updated : day)
+        : [...log, updated].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Rebuilds what it can for data saved before the log existed: reviews and learned words from each word's
+// (capped) review history, quizzes from the quiz history. XP was never dated, so it stays 0 for those days.
+const buildActivityLogFromHistory = (wordStats: Record<string, WordStat>, quizHistory: QuizHistoryEntry[]): DailyActivity[] => {
+    // Collected by date and sorted once, since there can be thousands of history entries
+    const byDate = new Map<string, DailyActivity>();
+    const getDay = (date: string) => {
+        let day = byDate.get(date);
+        if (!day) {
+            day = createDailyActivity(date);
+            byDate.set(date, day);
+        }
+        return day;
+    };
+    Object.values(wordStats).forEach(stat => {
+        const learnedDates = new Set<string>();
+        stat.reviewHistory.forEach(entry => {
+            const date = entry.date.split('T')[0];
+            const day = getDay(date);
+            if (DAILY_GOAL_REVIEW_SOURCES.includes(entry.source) && !learnedDates.has(date)) {
+                learnedDates.add(date);
+                day.wordsLearned++;
+            }
+            if (!SRS_EXPOSURE_ONLY_SOURCES.includes(entry.source)) day.reviews++;
+        });
+    });
+    quizHistory.forEach(quiz => {
+        const day = getDay(quiz.date);
+        day.quizzes++;
+        day.quizCorrect += quiz.score;
+        day.quizQuestions += quiz.total;
+    });
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const isValidDailyActivity = (value: unknown): value is DailyActivity =>
+    isPlainObject(value) && typeof value.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.date) &&
+    DAILY_ACTIVITY_COUNT_KEYS.every(key => typeof value[key] === 'number');
+
+// The same day can be in both logs (e.g. a backup of this device), so each count keeps the larger value instead of adding up
+const mergeActivityLogs = (current: DailyActivity[], incoming: DailyActivity[]): DailyActivity[] => {
+    const byDate = new Map(current.map(day => [day.date, day]));
+    incoming.forEach(day => {
+        const existing = byDate.get(day.date);
+        byDate.set(day.date, existing
+            ? { ...existing, ...Object.fromEntries(DAILY_ACTIVITY_COUNT_KEYS.map(key => [key, Math.max(existing[key], day[key])])) }
+            : day);
+    });
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
 
 // --- API Client Setup (Gemini) ---
 let ai: GoogleGenAI | null = null;
@@ -327,24 +631,256 @@ const parseGeminiError = (error: any): { detailedErrorMessage: string; statusCod
 };
 
 
-const generateWordDetailsWithGemini = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<Partial<Word> | null> => {
+// --- Network Status ---
+// Learning, quizzes and games only need local data and keep working offline; AI features need the network
+let isCurrentlyOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => { isCurrentlyOffline = false; });
+    window.addEventListener('offline', () => { isCurrentlyOffline = true; });
+}
+
+// Short label shown next to disabled AI buttons, or null when AI can be used
+const getAiUnavailableReason = (): string | null => {
+    if (!process.env.API_KEY) return "API Key 필요";
+    if (isCurrentlyOffline) return "오프라인";
+    if (isCurrentlyGeminiQuotaExhausted) return "Quota 소진";
+    return null;
+};
+
+const isAiAvailable = () => getAiUnavailableReason() === null;
+
+// Re-renders the caller when the connection changes, so AI buttons and the offline banner stay current
+const useOnlineStatus = () => {
+    const [isOnline, setIsOnline] = useState(() => !isCurrentlyOffline);
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+    return isOnline;
+};
+
+// public/sw.js caches the app shell and the CDN dependencies. The first visit loads them before the worker
+// is active, so once it is ready the page tells it which files it loaded.
+const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator) || !window.isSecureContext) return;
+    window.addEventListener('load', async () => {
+        try {
+            await navigator.serviceWorker.register('/sw.js');
+            const registration = await navigator.serviceWorker.ready;
+            const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)]
+                .filter(url => url.startsWith('http'));
+            registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+        } catch (error) {
+            console.warn("Service worker registration failed. The app will not work offline.", error);
+        }
+    });
+};
+
+
+// --- Gemini Request Queue ---
+// Every AI call goes through this queue. It keeps the app under the API's requests-per-minute limit, runs a bounded
+// number of calls at once, retries with exponential backoff, stops during the quota cooldown and can be cancelled.
+const GEMINI_MAX_REQUESTS_PER_MINUTE = 12;
+const GEMINI_MAX_CONCURRENT_REQUESTS = 3;
+const GEMINI_RATE_WINDOW_MS = 60 * 1000;
+
+const geminiRequestStartTimes: number[] = []; // Start times of requests within the last rate window
+const pendingGeminiSlots: Array<() => void> = [];
+let activeGeminiRequestCount = 0;
+let geminiQueueTimeoutId: number | null = null;
+
+const createAbortError = () => new DOMException("The AI request was cancelled.", "AbortError");
+const isAbortError = (error: unknown) => (error as { name?: string } | null)?.name === 'AbortError';
+
+const pumpGeminiQueue = () => {
+    const now = Date.now();
+    while (geminiRequestStartTimes.length > 0 && now - geminiRequestStartTimes[0] >= GEMINI_RATE_WINDOW_MS) {
+        geminiRequestStartTimes.shift();
+    }
+    while (pendingGeminiSlots.length > 0 && activeGeminiRequestCount < GEMINI_MAX_CONCURRENT_REQUESTS && geminiRequestStartTimes.length < GEMINI_MAX_REQUESTS_PER_MINUTE) {
+        activeGeminiRequestCount++;
+        geminiRequestStartTimes.push(now);
+        pendingGeminiSlots.shift()!();
+    }
+    if (pendingGeminiSlots.length > 0 && activeGeminiRequestCount < GEMINI_MAX_CONCURRENT_REQUESTS && geminiQueueTimeoutId === null) {
+        // Held back by the per-minute limit: try again once the oldest request leaves the window
+        geminiQueueTimeoutId = window.setTimeout(() => {
+            geminiQueueTimeoutId = null;
+            pumpGeminiQueue();
+        }, geminiRequestStartTimes[0] + GEMINI_RATE_WINDOW_MS - now);
+    }
+};
+
+// Waits for a free request slot. The returned function must be called once the request has finished.
+const acquireGeminiSlot = (signal?: AbortSignal) => new Promise<() => void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const onAbort = () => {
+        const index = pendingGeminiSlots.indexOf(grant);
+        if (index > -1) pendingGeminiSlots.splice(index, 1);
+        reject(createAbortError());
+    };
+    const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        let isReleased = false;
+        resolve(() => {
+            if (isReleased) return;
+            isReleased = true;
+            activeGeminiRequestCount--;
+            pumpGeminiQueue();
+        });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pendingGeminiSlots.push(grant);
+    pumpGeminiQueue();
+});
+
+const waitForGeminiRetry = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const parseGeminiJson = <T,>(responseText: string | undefined): T => {
+    let jsonStr = (responseText || '').trim();
+    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+    const match = jsonStr.match(fenceRegex);
+    if (match && match[2]) {
+        jsonStr = match[2].trim();
+    }
+    return JSON.parse(jsonStr) as T;
+};
+
+// Options callers can pass through the generate* helpers
+interface GeminiCallOptions {
+    signal?: AbortSignal; // Aborting drops the request from the queue or cancels it in flight; the helper then returns null quietly
+    retries?: number;
+    initialDelay?: number; // Backoff before the first retry, doubled on each further retry
+}
+
+interface GeminiRequest<T> extends GeminiCallOptions {
+    featureDescription: string; // Used in toasts and logs, e.g. "'apple' AI 예문 생성"
+    addToast: (message: string, type: ToastMessage['type']) => void;
+    execute: (client: GoogleGenAI, abortSignal?: AbortSignal) => Promise<T>; // One attempt
+    isComplete?: (data: T) => boolean; // Incomplete responses are retried like errors
+}
+
+const runGeminiRequest = async <T,>({ featureDescription, addToast, execute, isComplete = () => true, signal, retries = 2, initialDelay = 7000 }: GeminiRequest<T>): Promise<T | null> => {
     if (!ai) {
         addToast("AI 기능을 사용하려면 API 키가 필요합니다. 환경 변수를 확인해주세요.", "warning");
         return null;
     }
+    if (isCurrentlyOffline) {
+        addToast(`오프라인 상태라 ${featureDescription}을(를) 할 수 없습니다. 인터넷에 연결되면 다시 시도해주세요.`, "warning");
+        return null;
+    }
     if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${term}'에 대한 정보 가져오기를 건너뜁니다.`, "warning");
+        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. ${featureDescription}을(를) 건너뜁니다.`, "warning");
         return null;
     }
+    const client = ai;
+    let currentDelay = initialDelay;
 
-    setGlobalLoading(true);
+    try {
+        for (let i = 0; i <= retries; i++) {
+            const attemptLabel = `${i + 1}/${retries + 1}`;
+            const release = await acquireGeminiSlot(signal);
+            let data: T | undefined;
+            let failure: { error: unknown; parsed: ReturnType<typeof parseGeminiError> } | null = null;
+            try {
+                // The cooldown may have started while this request was waiting in the queue
+                if (isCurrentlyGeminiQuotaExhausted) {
+                    console.log(`Skipping ${featureDescription}: Gemini API quota cooldown is active.`);
+                    return null;
+                }
+                console.log(`Gemini request for ${featureDescription}, attempt ${attemptLabel}`);
+                data = await execute(client, signal);
+            } catch (error) {
+                if (signal?.aborted || isAbortError(error)) throw error;
+                failure = { error, parsed: parseGeminiError(error) };
+            } finally {
+                release();
+            }
+
+            if (failure) {
+                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = failure.parsed;
+                if (isQuotaExhaustedError) {
+                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${attemptLabel} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
+                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
+                    return null;
+                }
+                console.error(`Error during ${featureDescription} (attempt ${attemptLabel}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, failure.error);
+                if (i === retries) {
+                    if (isRateLimitErrorForRetry) {
+                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
+                    } else {
+                        addToast(`${featureDescription} 요청이 최종 실패했습니다. (오류: ${displayErrorMsg})`, "error");
+                    }
+                    return null;
+                }
+                if (isRateLimitErrorForRetry) {
+                    addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
+                } else {
+                    addToast(`${featureDescription} 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
+                }
+            } else if (isComplete(data as T)) {
+                return data as T;
+            } else {
+                console.warn(`Gemini response incomplete for ${featureDescription} (attempt ${attemptLabel}):`, data);
+                if (i === retries) {
+                    addToast(`AI가 ${featureDescription}에 대한 충분한 정보를 제공하지 못했습니다. 모든 시도 실패.`, "error");
+                    return null;
+                }
+                addToast(`AI가 ${featureDescription} 결과를 일부 누락하여 반환했습니다. 재시도 중...(${attemptLabel})`, "warning");
+            }
+            await waitForGeminiRetry(currentDelay, signal);
+            currentDelay *= 2;
+        }
+    } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+            console.log(`${featureDescription} was cancelled.`);
+            return null;
+        }
+        throw error;
+    }
+    return null;
+};
+
+// Gives a screen an AbortSignal that fires when it unmounts, so its queued and in-flight AI requests are dropped
+const useAbortOnUnmount = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+    useEffect(() => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return () => controller.abort();
+    }, []);
+    return useCallback(() => controllerRef.current?.signal, []);
+};
+
+
+const isCompleteWordDetails = (details: Partial<Word> | null | undefined): details is Partial<Word> =>
+    !!(details && details.partOfSpeech && details.meaning && details.exampleSentence);
+
+const generateWordDetailsWithGemini = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, options: GeminiCallOptions = {}): Promise<Partial<Word> | null> => {
     const modelName = 'gemini-2.5-flash-preview-04-17';
-    const featureDescription = `'${term}' 단어 정보 조회`;
     const promptText = `Provide details for the English word "${term}". Your response MUST be a JSON object with the following fields: "pronunciation" (phonetic, optional), "partOfSpeech" (e.g., noun, verb, adjective, in Korean e.g., 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example), "exampleSentenceMeaning" (Korean translation of example). Ensure exampleSentence is appropriate for language learners. If "${term}" seems like a typo or not a common English word, try to correct it if obvious and return details for the corrected term, including the corrected "term" in the JSON. If correction is not obvious or it's not a word, return null for all fields.
 
 Example JSON:
 {
-  "term": "person", 
+  "term": "person",
   "pronunciation": "/ˈpɜːrsən/",
   "partOfSpeech": "명사",
   "meaning": "사람",
@@ -352,79 +888,133 @@ Example JSON:
   "exampleSentenceMeaning": "이것은 사람입니다."
 }`;
 
-    let currentDelay = initialDelay;
-
+    setGlobalLoading(true);
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
+        return await runGeminiRequest({
+            featureDescription: `'${term}' 단어 정보 조회`,
+            addToast,
+            ...options,
+            execute: async (client, abortSignal) => {
+                const response: GenerateContentResponse = await client.models.generateContent({
                     model: modelName,
                     contents: promptText,
                     config: {
                       responseMimeType: "application/json",
-                      temperature: 0.5, 
+                      temperature: 0.5,
+                      abortSignal,
                     }
                 });
-                
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
+                return parseGeminiJson<Partial<Word>>(response.text);
+            },
+            isComplete: isCompleteWordDetails,
+        });
+    } finally {
+        setGlobalLoading(false);
+    }
+};
 
-                const data = JSON.parse(jsonStr) as Partial<Word>;
-                
-                if (!data.partOfSpeech || !data.meaning || !data.exampleSentence) {
-                    console.warn(`Gemini response missing essential fields for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, data);
-                    if (i < retries) { 
-                        addToast(`AI가 ${featureDescription} 정보를 일부 누락하여 반환했습니다. 재시도 중...(${i+1}/${retries+1})`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue; 
-                    } else { 
-                        addToast(`AI가 ${featureDescription}에 대한 충분한 정보를 제공하지 못했습니다. (누락된 필드: 뜻, 품사, 또는 예문) 모든 시도 실패.`, "error");
-                        return { term }; 
-                    }
-                }
-                return data;
+const WORD_DETAILS_BATCH_SIZE = 20; // Words per request; larger chunks risk truncated responses
+
+const wordDetailsBatchSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            inputTerm: { type: Type.STRING, description: "The word exactly as it was given in the input list." },
+            term: { type: Type.STRING, description: "The word, corrected if the input was an obvious typo." },
+            pronunciation: { type: Type.STRING },
+            partOfSpeech: { type: Type.STRING, description: "In Korean, e.g. 명사, 동사, 형용사." },
+            meaning: { type: Type.STRING, description: "Korean meaning." },
+            exampleSentence: { type: Type.STRING, description: "A simple English example sentence for language learners." },
+            exampleSentenceMeaning: { type: Type.STRING, description: "Korean translation of the example sentence." },
+        },
+        required: ['inputTerm', 'partOfSpeech', 'meaning', 'exampleSentence', 'exampleSentenceMeaning'],
+    },
+};
 
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
+type BatchWordDetailsItem = Partial<Word> & { inputTerm?: string };
+
+// Looks up many words with one request per chunk of WORD_DETAILS_BATCH_SIZE. Words that a chunk's answer leaves out
+// or returns incomplete are retried one by one; a chunk whose request failed altogether is not, since the same error
+// would repeat (and be reported) once per word. `grade` pitches the example sentences at the unit's students.
+// `onResult` runs for each word as soon as its details are known (null when every attempt failed); `source` tells
+// whether they came from the batch or an individual retry.
+const generateWordDetailsBatchWithGemini = async (
+    terms: string[],
+    grade: string,
+    addToast: (message: string, type: ToastMessage['type']) => void,
+    onResult: (term: string, details: Partial<Word> | null, source: 'batch' | 'single') => void | Promise<void>,
+    options: GeminiCallOptions = {}
+): Promise<Map<string, Partial<Word> | null>> => {
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const results = new Map<string, Partial<Word> | null>();
+    const chunks: string[][] = [];
+    for (let i = 0; i < terms.length; i += WORD_DETAILS_BATCH_SIZE) {
+        chunks.push(terms.slice(i, i + WORD_DETAILS_BATCH_SIZE));
+    }
 
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
-                
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
+    const recordResult = async (term: string, details: Partial<Word> | null, source: 'batch' | 'single') => {
+        results.set(term, details);
+        await onResult(term, details, source);
+    };
 
-                if (i < retries) { 
-                    if (isRateLimitErrorForRetry) { 
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription} 가져오기에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`${featureDescription} 가져오기 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                         addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription} 정보를 AI로부터 가져오는 데 최종 실패했습니다. (오류: ${displayErrorMsg})`, "error");
+    await Promise.all(chunks.map(async (chunk, chunkIndex) => {
+        const promptText = `Provide details for each English word in the list below, for a ${grade} Korean student learning English.
+Return one JSON object per word with: "inputTerm" (the word exactly as given), "term" (corrected spelling only if the input is an obvious typo), "pronunciation" (phonetic, optional), "partOfSpeech" (in Korean, e.g. 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example appropriate for a ${grade} student) and "exampleSentenceMeaning" (Korean translation of the example).
+Leave out any entry that is not an English word.
+
+Words:
+${chunk.map(term => `- ${term}`).join('\n')}`;
+
+        const items = await runGeminiRequest<BatchWordDetailsItem[]>({
+            featureDescription: `단어 일괄 정보 조회 (${chunkIndex + 1}/${chunks.length}묶음, ${chunk.length}개)`,
+            addToast,
+            retries: 1,
+            ...options,
+            execute: async (client, abortSignal) => {
+                const response: GenerateContentResponse = await client.models.generateContent({
+                    model: modelName,
+                    contents: promptText,
+                    config: {
+                        responseMimeType: "application/json",
+                        responseSchema: wordDetailsBatchSchema,
+                        temperature: 0.5,
+                        abortSignal,
                     }
-                    return null; 
-                }
+                });
+                return parseGeminiJson<BatchWordDetailsItem[]>(response.text);
+            },
+            isComplete: data => Array.isArray(data) && data.length > 0,
+        });
+
+        const itemsByInputTerm = new Map<string, BatchWordDetailsItem>();
+        (items || []).forEach(item => {
+            if (item && typeof item.inputTerm === 'string') itemsByInputTerm.set(item.inputTerm.trim().toLowerCase(), item);
+        });
+
+        for (const term of chunk) {
+            if (options.signal?.aborted) return;
+            const item = itemsByInputTerm.get(term.toLowerCase());
+            const details: Partial<Word> | null = item ? {
+                term: item.term || term,
+                pronunciation: item.pronunciation,
+                partOfSpeech: item.partOfSpeech,
+                meaning: item.meaning,
+                exampleSentence: item.exampleSentence,
+                exampleSentenceMeaning: item.exampleSentenceMeaning,
+            } : null;
+            if (isCompleteWordDetails(details)) {
+                await recordResult(term, details, 'batch');
+            } else if (!items) {
+                await recordResult(term, null, 'batch'); // The failed request has already been reported once
+            } else if (isCurrentlyGeminiQuotaExhausted || isCurrentlyOffline) {
+                await recordResult(term, null, 'single'); // No point retrying during the cooldown or without a connection
+            } else {
+                await recordResult(term, await generateWordDetailsWithGemini(term, addToast, () => {}, options), 'single');
             }
         }
-    } finally {
-        setGlobalLoading(false);
-    }
-    console.warn(`generateWordDetailsWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription} 정보를 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
+    }));
+    return results;
 };
 
 interface AIExampleSentence {
@@ -432,18 +1022,8 @@ interface AIExampleSentence {
     newExampleSentenceMeaning: string;
 }
 
-const generateDifferentExampleSentenceWithGemini = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<AIExampleSentence | null> => {
-    if (!ai) {
-        addToast("AI 기능을 사용하려면 API 키가 필요합니다.", "warning");
-        return null;
-    }
-     if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${word.term}'의 새 예문 생성을 건너뜁니다.`, "warning");
-        return null;
-    }
-    setGlobalLoading(true);
+const generateDifferentExampleSentenceWithGemini = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, options: GeminiCallOptions = {}): Promise<AIExampleSentence | null> => {
     const modelName = 'gemini-2.5-flash-preview-04-17';
-    const featureDescription = `'${word.term}' AI 예문 생성`;
     const promptText = `You are an English vocabulary tutor for Korean students.
 The user is learning the word: "${word.term}" (Part of speech: ${word.partOfSpeech}, Korean meaning: ${word.meaning}).
 The user's current grade level is: ${grade}.
@@ -461,245 +1041,1617 @@ Example JSON response:
   "newExampleSentenceMeaning": "그녀는 길 잃은 아이를 도왔을 때 대단한 용기를 보여주었다."
 }`;
 
-    let currentDelay = initialDelay;
+    setGlobalLoading(true);
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
+        return await runGeminiRequest({
+            featureDescription: `'${word.term}' AI 예문 생성`,
+            addToast,
+            ...options,
+            execute: async (client, abortSignal) => {
+                const response: GenerateContentResponse = await client.models.generateContent({
                     model: modelName,
                     contents: promptText,
                     config: {
                       responseMimeType: "application/json",
-                      temperature: 0.7, 
+                      temperature: 0.7,
+                      abortSignal,
                     }
                 });
-                
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-                const data = JSON.parse(jsonStr) as AIExampleSentence;
-
-                if (!data.newExampleSentence || !data.newExampleSentenceMeaning) {
-                     console.warn(`Gemini response missing newExampleSentence or newExampleSentenceMeaning for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, data);
-                     if (i < retries) {
-                        addToast(`AI가 ${featureDescription} 정보를 일부 누락하여 반환했습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                     } else {
-                        addToast(`AI가 ${featureDescription}에 대한 정보를 충분히 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                     }
-                }
-                return data;
-
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-                
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
-
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
-
-                if (i < retries) { 
-                    if (isRateLimitErrorForRetry) { 
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2; 
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
-                }
-            }
-        }
+                return parseGeminiJson<AIExampleSentence>(response.text);
+            },
+            isComplete: data => !!(data && data.newExampleSentence && data.newExampleSentenceMeaning),
+        });
     } finally {
         setGlobalLoading(false);
     }
-    console.warn(`generateDifferentExampleSentenceWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
 };
 
-const generateSummaryWithGemini = async (textToSummarize: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 5000): Promise<string | null> => {
-    if (!ai) {
-        addToast("AI 요약 기능을 사용하려면 API 키가 필요합니다.", "warning");
-        return null;
-    }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast("Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 텍스트 요약을 건너뜁니다.", "warning");
-        return null;
-    }
+const UNIT_KEY_VOCABULARY_MAX = 30;
+const UNIT_KEY_VOCABULARY_CANDIDATE_LIMIT = 200; // Highest-ranked extracted words offered to the AI
+
+export interface TextSummary {
+    summary: string;
+    keyVocabulary: string[]; // Chosen from `candidateTerms`, most important first
+}
+
+// Summarizes a passage in Korean and, when candidate words are given, picks the ones that are key vocabulary for it
+const generateSummaryWithGemini = async (textToSummarize: string, candidateTerms: string[], addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, options: GeminiCallOptions = {}): Promise<TextSummary | null> => {
     if (!textToSummarize.trim()) {
         addToast("요약할 텍스트가 없습니다.", "info");
         return null;
     }
-    setGlobalLoading(true);
     const modelName = 'gemini-2.5-flash-preview-04-17';
-    const featureDescription = "텍스트 요약";
-    const promptText = `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes. Text: """${textToSummarize.substring(0, 30000)}"""`; 
+    const offeredTerms = candidateTerms.slice(0, UNIT_KEY_VOCABULARY_CANDIDATE_LIMIT);
+    const keyVocabularyInstruction = offeredTerms.length > 0
+        ? ` Also include a "keyVocabulary" field: an array of at most ${UNIT_KEY_VOCABULARY_MAX} words or expressions, copied exactly from the candidate list below, that a student must know to understand this text, most important first. Candidates: ${JSON.stringify(offeredTerms)}.`
+        : '';
+    const promptText = `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes.${keyVocabularyInstruction} Text: """${textToSummarize.substring(0, 30000)}"""`;
 
-    let currentDelay = initialDelay;
+    setGlobalLoading(true);
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
+        const data = await runGeminiRequest({
+            featureDescription: "텍스트 요약",
+            addToast,
+            initialDelay: 5000,
+            ...options,
+            execute: async (client, abortSignal) => {
+                const response: GenerateContentResponse = await client.models.generateContent({
                     model: modelName,
                     contents: promptText,
                     config: {
                         responseMimeType: "application/json",
                         temperature: 0.6,
+                        abortSignal,
                     }
                 });
+                return parseGeminiJson<{ summary: string; keyVocabulary?: string[] }>(response.text);
+            },
+            isComplete: data => !!(data && data.summary && data.summary.trim()),
+        });
+        if (!data) return null;
+        // Only terms that were actually offered, in the candidates' own spelling
+        const offeredByLowercase = new Map(offeredTerms.map(term => [term.toLowerCase(), term]));
+        const keyVocabulary = Array.from(new Set((Array.isArray(data.keyVocabulary) ? data.keyVocabulary : [])
+            .map(term => offeredByLowercase.get(String(term).trim().toLowerCase()))
+            .filter((term): term is string => !!term)))
+            .slice(0, UNIT_KEY_VOCABULARY_MAX);
+        return { summary: data.summary.trim(), keyVocabulary };
+    } finally {
+        setGlobalLoading(false);
+    }
+};
 
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-                const data = JSON.parse(jsonStr) as { summary: string };
-
-                if (!data.summary || !data.summary.trim()) {
-                    console.warn(`Gemini response missing summary field for ${featureDescription} (attempt ${i + 1}/${retries + 1}).`, data);
-                    if (i < retries) {
-                        addToast(`AI 요약 생성 중 내용이 누락되었습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                    } else {
-                        addToast(`AI가 텍스트 요약을 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                    }
-                }
-                return data.summary;
-
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
+const generateImageForWordWithGemini = async (wordTerm: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, options: GeminiCallOptions = {}): Promise<string | null> => {
+    const modelName = 'imagen-3.0-generate-002';
+    const featureDescription = `'${wordTerm}' AI 이미지 생성`;
+    const prompt = `A clear, simple, educational, dictionary illustration style image representing the English word: "${wordTerm}". Focus on a single, easily recognizable subject related to the word's most common meaning. Vibrant and kid-friendly.`;
+
+    setGlobalLoading(true);
+    try {
+        const imageBytes = await runGeminiRequest({
+            featureDescription,
+            addToast,
+            retries: 1,
+            initialDelay: 8000,
+            ...options,
+            execute: async (client, abortSignal) => {
+                const response = await client.models.generateImages({
+                    model: modelName,
+                    prompt: prompt,
+                    config: { numberOfImages: 1, outputMimeType: 'image/jpeg', abortSignal },
+                });
+                return response.generatedImages?.[0]?.image?.imageBytes;
+            },
+            isComplete: data => !!data,
+        });
+        if (imageBytes) addToast(`${featureDescription}이(가) 완료되었습니다.`, "success");
+        return imageBytes || null;
+    } finally {
+        setGlobalLoading(false);
+    }
+};
+
+// Reads the English text on a photographed or scanned page. Returns '' for pages without text, null on failure.
+const extractTextFromImageWithGemini = async (image: { data: string; mimeType: string }, addToast: (message: string, type: ToastMessage['type']) => void, options: GeminiCallOptions = {}): Promise<string | null> => {
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const promptText = `This image is a page from an English textbook or a vocabulary list, scanned or photographed by a student. Transcribe all English text on it exactly as printed, in reading order, keeping line breaks. Skip Korean text, page numbers and decorations. Your response MUST be a JSON object with a "text" field; use an empty string if the page has no English text.`;
+
+    const data = await runGeminiRequest({
+        featureDescription: "이미지 텍스트 인식",
+        addToast,
+        initialDelay: 5000,
+        ...options,
+        execute: async (client, abortSignal) => {
+            const response: GenerateContentResponse = await client.models.generateContent({
+                model: modelName,
+                contents: { parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: promptText }] },
+                config: {
+                    responseMimeType: "application/json",
+                    temperature: 0,
+                    abortSignal,
                 }
-                
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
+            });
+            return parseGeminiJson<{ text: string }>(response.text);
+        },
+        isComplete: data => typeof data?.text === 'string',
+    });
+    return data ? data.text : null;
+};
 
-                if (i < retries) {
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    } else {
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
+
+// --- Student Profiles ---
+// Each student on a shared device gets a profile with its own settings, words, stats, streak and XP.
+export interface StudentProfile {
+    id: string;
+    name: string;
+    createdAt: string; // ISO timestamp
+}
+
+interface ProfileRegistry {
+    profiles: StudentProfile[];
+    activeProfileId: string | null;
+}
+
+const PROFILE_DATA_KEYS = ['userSettings', 'allWords', 'wordStats', 'learnedWordsTodayCount', 'totalWordsLearnedOverall', 'learningStreak', 'quizHistory', 'quizTakenToday', 'unitImportJobs', 'units', 'activityLog'] as const;
+type ProfileDataKey = typeof PROFILE_DATA_KEYS[number];
+
+// Small per-profile values kept as single records; words and word stats get their own stores
+type ProfileValueKey = Exclude<ProfileDataKey, 'allWords' | 'wordStats'>;
+
+const createProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const calculateXPLevel = (xp: number) => {
+    let level = 1;
+    let xpForNext = 100;
+    let cumulativeXpForLevel = 0;
+    while (xp >= cumulativeXpForLevel + xpForNext) {
+        cumulativeXpForLevel += xpForNext;
+        level++;
+        xpForNext = level * 100;
+    }
+    return { level, currentLevelXp: xp - cumulativeXpForLevel, xpForNextLevel: xpForNext };
+};
+
+
+// --- Units ---
+// Units are a profile's own list of textbook lessons. Words point at them through `Word.unitId`.
+export interface Unit {
+    id: string;
+    title: string; // e.g. "Lesson 3 – My Hobby"
+    textbook: string; // Empty when not given
+    textbookId?: string; // TextbookPack.id when the unit was installed from the textbook catalogue
+    gradeLevel: string;
+    order: number; // Position in the unit list, ascending
+}
+
+// Before units were entities, words carried a loose unit number or name
+type LegacyUnitWord = Word & { unit?: string | number };
+
+const createUnitId = () => `unit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sortUnits = (units: Unit[]) => [...units].sort((a, b) => a.order - b.order);
+
+// Links name a unit by its id, or by its 1-based position in the unit list so that `#/quiz?unit=5` can be typed by hand
+const findUnitByRouteParam = (units: Unit[], unitParam: string | undefined): Unit | undefined => {
+    if (!unitParam) return undefined;
+    return units.find(unit => unit.id === unitParam)
+        || (/^\d+$/.test(unitParam) ? sortUnits(units)[Number(unitParam) - 1] : undefined);
+};
+
+const getUnitLabel = (unit: Unit) => unit.textbook ? `${unit.title} · ${unit.textbook}` : unit.title;
+
+const getNextUnitOrder = (units: Unit[]) => units.reduce((max, unit) => Math.max(max, unit.order), -1) + 1;
+
+// The built-in word list with its units, for a profile that has no saved words yet
+const createStarterWordList = (grade?: string) => migrateLegacyWordUnits([...sampleWords], [], grade);
+
+const isValidUnit = (value: unknown): value is Unit =>
+    isPlainObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.title === 'string' && value.title.trim() !== '' &&
+    typeof value.gradeLevel === 'string' &&
+    typeof value.order === 'number';
+
+// Turns the loose `unit` values of older words into units, reusing a unit with the same title, and links the words
+// to them. Numeric values become "Unit N" in numeric order. Words without a legacy value are returned unchanged, so
+// callers can tell by identity which words were touched. `extraLegacyValues` creates units that have no words yet.
+const migrateLegacyWordUnits = (words: LegacyUnitWord[], units: Unit[], fallbackGrade = 'middle1', extraLegacyValues: (string | number)[] = []) => {
+    const legacyValues = new Set<string>(extraLegacyValues.map(String));
+    words.forEach(word => {
+        if (word.unit !== undefined && word.unit !== null && String(word.unit).trim() !== '') legacyValues.add(String(word.unit).trim());
+    });
+    const unitIdByLegacyValue = new Map<string, string>();
+    if (legacyValues.size === 0) return { words: words as Word[], units, unitIdByLegacyValue };
+
+    const toTitle = (value: string) => /^\d+$/.test(value) ? `Unit ${Number(value)}` : value;
+    const sortedValues = Array.from(legacyValues).sort((a, b) => {
+        const numberA = /^\d+$/.test(a) ? Number(a) : Infinity;
+        const numberB = /^\d+$/.test(b) ? Number(b) : Infinity;
+        return numberA !== numberB ? numberA - numberB : a.localeCompare(b);
+    });
+    const nextUnits = [...units];
+    sortedValues.forEach(value => {
+        const title = toTitle(value);
+        const existing = nextUnits.find(unit => unit.title === title);
+        if (existing) {
+            unitIdByLegacyValue.set(value, existing.id);
+            return;
+        }
+        // A unit belongs to the grade most of its words are in
+        const gradeCounts = new Map<string, number>();
+        words.filter(word => String(word.unit ?? '').trim() === value).forEach(word => gradeCounts.set(word.gradeLevel, (gradeCounts.get(word.gradeLevel) || 0) + 1));
+        const gradeLevel = Array.from(gradeCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || fallbackGrade;
+        const unit: Unit = { id: createUnitId(), title, textbook: '', gradeLevel, order: getNextUnitOrder(nextUnits) };
+        nextUnits.push(unit);
+        unitIdByLegacyValue.set(value, unit.id);
+    });
+
+    return {
+        words: words.map(word => {
+            if (!('unit' in word)) return word as Word;
+            const { unit, ...rest } = word;
+            const legacyValue = String(unit ?? '').trim();
+            return legacyValue && !rest.unitId ? { ...rest, unitId: unitIdByLegacyValue.get(legacyValue) } : rest;
+        }),
+        units: nextUnits,
+        unitIdByLegacyValue,
+    };
+};
+
+
+// --- Persistent Storage (IndexedDB) ---
+// Words and word stats are stored one record per word, keyed by [profileId, wordId], so a change only
+// rewrites the records that actually changed instead of re-serializing the whole collection.
+const STORAGE_DB_NAME = 'ai-vocab-learning-app';
+const STORAGE_DB_VERSION = 2; // IndexedDB object store layout
+const STORE_WORDS = 'words';
+const STORE_WORD_STATS = 'wordStats';
+const STORE_PROFILE_VALUES = 'profileValues';
+const STORE_META = 'meta';
+const STORE_AI_CONTENT = 'aiContent';
+
+const META_SCHEMA_VERSION = 'schemaVersion';
+const META_PROFILE_REGISTRY = 'profileRegistry';
+const META_TEXTBOOK_CATALOGUE = 'textbookCatalogue'; // Shared by every profile on the device
+const META_SPEED_QUIZ_LEADERBOARD = 'speedQuizLeaderboard'; // Shared too: students on one device compete on one board
+
+type StoredWord = Word & { profileId: string; position: number };
+type StoredWordStat = WordStat & { profileId: string };
+
+export interface ProfileSnapshot {
+    userSettings: UserSettings | null;
+    allWords: Word[] | null;
+    wordStats: Record<string, WordStat>;
+    learnedWordsTodayCount: { count: number; date: string } | null;
+    totalWordsLearnedOverall: number | null;
+    learningStreak: LearningStreak | null;
+    quizHistory: QuizHistoryEntry[] | null;
+    quizTakenToday: { taken: boolean; date: string } | null;
+    unitImportJobs: Record<string, UnitImportJob> | null; // Keyed by Unit.id
+    units: Unit[] | null;
+    activityLog: DailyActivity[] | null;
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException("Transaction aborted", "AbortError"));
+});
+
+// Every record of one profile, whatever the type of the second key part
+const profileKeyRange = (profileId: string) => IDBKeyRange.bound([profileId], [profileId, []]);
+
+export const isStorageQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+let storageDbPromise: Promise<IDBDatabase> | null = null;
+
+const openStorageDb = (): Promise<IDBDatabase> => {
+    if (!storageDbPromise) {
+        storageDbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not supported in this browser."));
+                return;
+            }
+            const request = indexedDB.open(STORAGE_DB_NAME, STORAGE_DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_WORDS)) db.createObjectStore(STORE_WORDS, { keyPath: ['profileId', 'id'] });
+                if (!db.objectStoreNames.contains(STORE_WORD_STATS)) db.createObjectStore(STORE_WORD_STATS, { keyPath: ['profileId', 'id'] });
+                if (!db.objectStoreNames.contains(STORE_PROFILE_VALUES)) db.createObjectStore(STORE_PROFILE_VALUES);
+                if (!db.objectStoreNames.contains(STORE_META)) db.createObjectStore(STORE_META);
+                if (!db.objectStoreNames.contains(STORE_AI_CONTENT)) {
+                    db.createObjectStore(STORE_AI_CONTENT, { keyPath: 'id' }).createIndex('wordId', 'wordId');
                 }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => console.warn("Storage upgrade is blocked by another open tab of the app.");
+        });
+        storageDbPromise.catch(() => { storageDbPromise = null; }); // Allow a retry after a failed open
+    }
+    return storageDbPromise;
+};
+
+const readMeta = async <T,>(db: IDBDatabase, key: string): Promise<T | undefined> =>
+    requestToPromise(db.transaction(STORE_META).objectStore(STORE_META).get(key));
+
+const writeMeta = async (db: IDBDatabase, key: string, value: unknown) => {
+    const transaction = db.transaction(STORE_META, 'readwrite');
+    transaction.objectStore(STORE_META).put(value, key);
+    await transactionDone(transaction);
+};
+
+// Queues a full profile's data into an open readwrite transaction
+const putProfileData = (transaction: IDBTransaction, profileId: string, data: Partial<Record<ProfileDataKey, any>>) => {
+    Object.entries(data).forEach(([key, value]) => {
+        if (value === null || value === undefined) return;
+        if (key === 'allWords') {
+            (value as Word[]).forEach((word, position) => transaction.objectStore(STORE_WORDS).put({ ...word, profileId, position }));
+        } else if (key === 'wordStats') {
+            Object.entries(value as Record<string, WordStat>).forEach(([wordId, stat]) =>
+                transaction.objectStore(STORE_WORD_STATS).put({ ...stat, id: stat.id ?? wordId, profileId }));
+        } else {
+            transaction.objectStore(STORE_PROFILE_VALUES).put(value, [profileId, key]);
+        }
+    });
+};
+
+// --- Storage schema migrations ---
+// Each migration upgrades stored data by one schema version and runs once, in order, on first load.
+interface StorageMigration {
+    version: number;
+    description: string;
+    migrate: (db: IDBDatabase) => Promise<void>;
+}
+
+const LEGACY_PROFILE_REGISTRY_KEY = 'profiles';
+const LEGACY_SPEED_QUIZ_LEADERBOARD_KEY = 'speedQuizLeaderboard';
+const getLegacyProfileStorageKey = (profileId: string, key: ProfileDataKey) => `profile:${profileId}:${key}`;
+
+// Reads what earlier versions kept in localStorage: either per-profile prefixed keys, or (before profiles
+// existed) one set of unprefixed keys, which becomes a first profile named after its user.
+const readLegacyLocalStorageData = () => {
+    const parseStored = (storageKey: string) => {
+        const stored = localStorage.getItem(storageKey);
+        if (stored === null) return null;
+        try {
+            return JSON.parse(stored);
+        } catch (error) {
+            console.warn(`Skipping unreadable localStorage value '${storageKey}':`, error);
+            return null;
+        }
+    };
+
+    const storedRegistry = parseStored(LEGACY_PROFILE_REGISTRY_KEY);
+    if (isPlainObject(storedRegistry) && Array.isArray(storedRegistry.profiles)) {
+        const registry: ProfileRegistry = { profiles: storedRegistry.profiles, activeProfileId: storedRegistry.activeProfileId ?? null };
+        return {
+            registry,
+            profileData: registry.profiles.map(profile => ({
+                profileId: profile.id,
+                data: Object.fromEntries(PROFILE_DATA_KEYS.map(key => [key, parseStored(getLegacyProfileStorageKey(profile.id, key))])),
+            })),
+            legacyKeys: [LEGACY_PROFILE_REGISTRY_KEY, ...registry.profiles.flatMap(profile => PROFILE_DATA_KEYS.map(key => getLegacyProfileStorageKey(profile.id, key)))],
+        };
+    }
+
+    const legacySettings = parseStored('userSettings');
+    if (!isPlainObject(legacySettings)) return null;
+    const profile: StudentProfile = { id: createProfileId(), name: legacySettings.username || '학생 1', createdAt: new Date().toISOString() };
+    return {
+        registry: { profiles: [profile], activeProfileId: profile.id },
+        profileData: [{ profileId: profile.id, data: Object.fromEntries(PROFILE_DATA_KEYS.map(key => [key, parseStored(key)])) }],
+        legacyKeys: [...PROFILE_DATA_KEYS],
+    };
+};
+
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+    {
+        version: 1,
+        description: "Import learning data from localStorage",
+        migrate: async (db) => {
+            const legacy = readLegacyLocalStorageData();
+            if (!legacy) return;
+            const transaction = db.transaction([STORE_WORDS, STORE_WORD_STATS, STORE_PROFILE_VALUES, STORE_META], 'readwrite');
+            legacy.profileData.forEach(({ profileId, data }) => putProfileData(transaction, profileId, data));
+            transaction.objectStore(STORE_META).put(legacy.registry, META_PROFILE_REGISTRY);
+            await transactionDone(transaction);
+            // Only drop the old copy once everything is safely in IndexedDB
+            legacy.legacyKeys.forEach(key => localStorage.removeItem(key));
+        },
+    },
+    {
+        version: 2,
+        description: "Fill in XP/level on settings and spaced-repetition fields on word stats",
+        migrate: async (db) => {
+            const registry = await readMeta<ProfileRegistry>(db, META_PROFILE_REGISTRY);
+            if (!registry) return;
+            const transaction = db.transaction([STORE_WORD_STATS, STORE_PROFILE_VALUES], 'readwrite');
+            const profileValues = transaction.objectStore(STORE_PROFILE_VALUES);
+            const wordStatsStore = transaction.objectStore(STORE_WORD_STATS);
+            registry.profiles.forEach(profile => {
+                const settingsRequest = profileValues.get([profile.id, 'userSettings']);
+                settingsRequest.onsuccess = () => {
+                    const settings = settingsRequest.result as UserSettings | undefined;
+                    if (!settings) return;
+                    const xp = settings.xp ?? 0;
+                    profileValues.put({ ...settings, xp, level: settings.level ?? calculateXPLevel(xp).level }, [profile.id, 'userSettings']);
+                };
+                const statsRequest = wordStatsStore.getAll(profileKeyRange(profile.id));
+                statsRequest.onsuccess = () => {
+                    (statsRequest.result as StoredWordStat[]).forEach(stat => wordStatsStore.put({ ...normalizeWordStat(stat), profileId: profile.id }));
+                };
+            });
+            await transactionDone(transaction);
+        },
+    },
+    {
+        version: 3,
+        description: "Turn numeric word units into unit entities and key unit import jobs by unit id",
+        migrate: async (db) => {
+            const registry = await readMeta<ProfileRegistry>(db, META_PROFILE_REGISTRY);
+            if (!registry) return;
+            for (const profile of registry.profiles) {
+                const readTransaction = db.transaction([STORE_WORDS, STORE_PROFILE_VALUES]);
+                const profileValues = readTransaction.objectStore(STORE_PROFILE_VALUES);
+                const [storedWords, settings, legacyJobs] = await Promise.all([
+                    requestToPromise(readTransaction.objectStore(STORE_WORDS).getAll(profileKeyRange(profile.id))) as Promise<(StoredWord & { unit?: string | number })[]>,
+                    requestToPromise(profileValues.get([profile.id, 'userSettings'])) as Promise<UserSettings | undefined>,
+                    requestToPromise(profileValues.get([profile.id, 'unitImportJobs'])) as Promise<Record<string, UnitImportJob> | undefined>,
+                ]);
+                // Only import jobs with something in them are worth a unit of their own
+                const usedJobKeys = Object.entries(legacyJobs || {})
+                    .filter(([, job]) => job && (job.extractedWords?.length || job.history?.length || job.log?.length))
+                    .map(([key]) => key);
+                const migrated = migrateLegacyWordUnits(storedWords, [], settings?.grade, usedJobKeys);
+
+                const writeTransaction = db.transaction([STORE_WORDS, STORE_PROFILE_VALUES], 'readwrite');
+                migrated.words.forEach((word, index) => {
+                    if (word !== storedWords[index]) writeTransaction.objectStore(STORE_WORDS).put(word);
+                });
+                const jobs = Object.fromEntries(usedJobKeys
+                    .filter(key => migrated.unitIdByLegacyValue.has(key))
+                    .map(key => [migrated.unitIdByLegacyValue.get(key)!, legacyJobs![key]]));
+                writeTransaction.objectStore(STORE_PROFILE_VALUES).put(migrated.units, [profile.id, 'units']);
+                writeTransaction.objectStore(STORE_PROFILE_VALUES).put(jobs, [profile.id, 'unitImportJobs']);
+                await transactionDone(writeTransaction);
+            }
+        },
+    },
+    {
+        version: 4,
+        description: "Fill in text-to-speech voice settings",
+        migrate: async (db) => {
+            const registry = await readMeta<ProfileRegistry>(db, META_PROFILE_REGISTRY);
+            if (!registry) return;
+            const transaction = db.transaction(STORE_PROFILE_VALUES, 'readwrite');
+            const profileValues = transaction.objectStore(STORE_PROFILE_VALUES);
+            registry.profiles.forEach(profile => {
+                const settingsRequest = profileValues.get([profile.id, 'userSettings']);
+                settingsRequest.onsuccess = () => {
+                    const settings = settingsRequest.result as UserSettings | undefined;
+                    if (settings) profileValues.put({ ...DEFAULT_VOICE_SETTINGS, ...settings }, [profile.id, 'userSettings']);
+                };
+            });
+            await transactionDone(transaction);
+        },
+    },
+    {
+        version: 5,
+        description: "Build the daily activity log from review and quiz history",
+        migrate: async (db) => {
+            const registry = await readMeta<ProfileRegistry>(db, META_PROFILE_REGISTRY);
+            if (!registry) return;
+            for (const profile of registry.profiles) {
+                const readTransaction = db.transaction([STORE_WORD_STATS, STORE_PROFILE_VALUES]);
+                const [storedStats, quizHistory] = await Promise.all([
+                    requestToPromise(readTransaction.objectStore(STORE_WORD_STATS).getAll(profileKeyRange(profile.id))) as Promise<StoredWordStat[]>,
+                    requestToPromise(readTransaction.objectStore(STORE_PROFILE_VALUES).get([profile.id, 'quizHistory'])) as Promise<QuizHistoryEntry[] | undefined>,
+                ]);
+                const wordStats = Object.fromEntries(storedStats.map(stat => [String(stat.id), stat]));
+                const writeTransaction = db.transaction(STORE_PROFILE_VALUES, 'readwrite');
+                writeTransaction.objectStore(STORE_PROFILE_VALUES).put(buildActivityLogFromHistory(wordStats, quizHistory || []), [profile.id, 'activityLog']);
+                await transactionDone(writeTransaction);
+            }
+        },
+    },
+    {
+        version: 6,
+        description: "Move the speed quiz leaderboard from localStorage",
+        migrate: async (db) => {
+            const stored = localStorage.getItem(LEGACY_SPEED_QUIZ_LEADERBOARD_KEY);
+            if (stored === null) return;
+            try {
+                const parsed = JSON.parse(stored);
+                if (isPlainObject(parsed)) await writeMeta(db, META_SPEED_QUIZ_LEADERBOARD, sanitizeSpeedQuizLeaderboard(parsed));
+            } catch (error) {
+                console.warn("Skipping unreadable speed quiz leaderboard:", error);
+            }
+            localStorage.removeItem(LEGACY_SPEED_QUIZ_LEADERBOARD_KEY);
+        },
+    },
+];
+
+const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+let storageInitPromise: Promise<void> | null = null;
+
+// Opens the database and brings stored data up to the current schema version
+const initializeStorage = (): Promise<void> => {
+    if (!storageInitPromise) {
+        storageInitPromise = (async () => {
+            const db = await openStorageDb();
+            const storedVersion = (await readMeta<number>(db, META_SCHEMA_VERSION)) ?? 0;
+            if (storedVersion > STORAGE_SCHEMA_VERSION) {
+                console.warn(`Stored data uses schema version ${storedVersion}, newer than this app (${STORAGE_SCHEMA_VERSION}).`);
             }
+            for (const migration of STORAGE_MIGRATIONS) {
+                if (migration.version <= storedVersion) continue;
+                console.info(`Migrating storage to schema version ${migration.version}: ${migration.description}`);
+                await migration.migrate(db);
+                await writeMeta(db, META_SCHEMA_VERSION, migration.version);
+            }
+            // Ask the browser not to evict learning data under storage pressure (best effort)
+            navigator.storage?.persist?.().catch(() => undefined);
+        })();
+        storageInitPromise.catch(() => { storageInitPromise = null; });
+    }
+    return storageInitPromise;
+};
+
+const loadProfileRegistry = async (): Promise<ProfileRegistry> => {
+    const db = await openStorageDb();
+    return (await readMeta<ProfileRegistry>(db, META_PROFILE_REGISTRY)) || { profiles: [], activeProfileId: null };
+};
+
+const saveProfileRegistry = async (registry: ProfileRegistry) => {
+    const db = await openStorageDb();
+    await writeMeta(db, META_PROFILE_REGISTRY, registry);
+};
+
+const loadTextbookCatalogue = async (): Promise<TextbookPack[]> => {
+    const db = await openStorageDb();
+    return (await readMeta<TextbookPack[]>(db, META_TEXTBOOK_CATALOGUE)) || [];
+};
+
+const saveTextbookCatalogue = async (catalogue: TextbookPack[]) => {
+    const db = await openStorageDb();
+    await writeMeta(db, META_TEXTBOOK_CATALOGUE, catalogue);
+};
+
+const loadProfileValue = async <K extends ProfileValueKey,>(profileId: string, key: K): Promise<ProfileSnapshot[K]> => {
+    const db = await openStorageDb();
+    const value = await requestToPromise(db.transaction(STORE_PROFILE_VALUES).objectStore(STORE_PROFILE_VALUES).get([profileId, key]));
+    return value ?? null;
+};
+
+const loadProfileSnapshot = async (profileId: string): Promise<ProfileSnapshot> => {
+    const db = await openStorageDb();
+    const transaction = db.transaction([STORE_WORDS, STORE_WORD_STATS, STORE_PROFILE_VALUES]);
+    const profileValues = transaction.objectStore(STORE_PROFILE_VALUES);
+    const [storedWords, storedStats, ...values] = await Promise.all([
+        requestToPromise(transaction.objectStore(STORE_WORDS).getAll(profileKeyRange(profileId))) as Promise<StoredWord[]>,
+        requestToPromise(transaction.objectStore(STORE_WORD_STATS).getAll(profileKeyRange(profileId))) as Promise<StoredWordStat[]>,
+        ...PROFILE_DATA_KEYS.filter((key): key is ProfileValueKey => key !== 'allWords' && key !== 'wordStats')
+            .map(key => requestToPromise(profileValues.get([profileId, key])).then(value => [key, value ?? null] as const)),
+    ]);
+    const profileValueMap = Object.fromEntries(values as (readonly [ProfileValueKey, any])[]);
+
+    return {
+        ...(profileValueMap as Pick<ProfileSnapshot, ProfileValueKey>),
+        // No stored words means the profile was never set up; the caller falls back to the built-in list
+        allWords: storedWords.length > 0
+            ? storedWords.sort((a, b) => a.position - b.position).map(({ profileId: _profileId, position: _position, ...word }) => word)
+            : null,
+        wordStats: Object.fromEntries(storedStats.map(({ profileId: _profileId, ...stat }) => [String(stat.id), stat])),
+    };
+};
+
+const saveProfileValue = async <K extends ProfileValueKey,>(profileId: string, key: K, value: NonNullable<ProfileSnapshot[K]>) => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_PROFILE_VALUES, 'readwrite');
+    transaction.objectStore(STORE_PROFILE_VALUES).put(value, [profileId, key]);
+    await transactionDone(transaction);
+};
+
+// Writes only the words whose object changed since `previous` and deletes the ones that disappeared
+const saveWordChanges = async (profileId: string, previous: Word[], next: Word[]) => {
+    const previousById = new Map(previous.map((word, position) => [word.id, { word, position }]));
+    const nextIds = new Set(next.map(word => word.id));
+    const changed = next.map((word, position) => ({ word, position })).filter(({ word, position }) => {
+        const before = previousById.get(word.id);
+        return !before || before.word !== word || before.position !== position;
+    });
+    const removedIds = previous.filter(word => !nextIds.has(word.id)).map(word => word.id);
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_WORDS, 'readwrite');
+    const store = transaction.objectStore(STORE_WORDS);
+    changed.forEach(({ word, position }) => store.put({ ...word, profileId, position }));
+    removedIds.forEach(wordId => store.delete([profileId, wordId]));
+    await transactionDone(transaction);
+};
+
+const saveWordStatChanges = async (profileId: string, previous: Record<string, WordStat>, next: Record<string, WordStat>) => {
+    const changed = Object.entries(next).filter(([key, stat]) => previous[key] !== stat);
+    const removed = Object.entries(previous).filter(([key]) => !(key in next));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_WORD_STATS, 'readwrite');
+    const store = transaction.objectStore(STORE_WORD_STATS);
+    changed.forEach(([key, stat]) => store.put({ ...stat, id: stat.id ?? key, profileId }));
+    removed.forEach(([key, stat]) => store.delete([profileId, stat.id ?? key]));
+    await transactionDone(transaction);
+};
+
+const deleteProfileStorage = async (profileId: string) => {
+    const db = await openStorageDb();
+    const transaction = db.transaction([STORE_WORDS, STORE_WORD_STATS, STORE_PROFILE_VALUES], 'readwrite');
+    [STORE_WORDS, STORE_WORD_STATS, STORE_PROFILE_VALUES].forEach(storeName => transaction.objectStore(storeName).delete(profileKeyRange(profileId)));
+    await transactionDone(transaction);
+};
+
+
+// --- AI Content Cache ---
+// Images and extra example sentences generated for a word are kept against `Word.id`, so revisiting a word
+// does not cost another Imagen/Gemini call. The cache is shared by every profile on the device.
+export interface AiContentEntry {
+    id: string;
+    wordId: string | number;
+    kind: 'image' | 'example';
+    createdAt: string; // ISO timestamp
+    lastUsedAt: string; // ISO timestamp, drives least-recently-used eviction
+    isPinned: boolean; // Pinned entries are the word's favourite and are never evicted
+    size: number; // Approximate bytes
+    image?: Blob;
+    example?: AIExampleSentence;
+}
+
+export interface AiContentUsage {
+    imageCount: number;
+    exampleCount: number;
+    pinnedCount: number;
+    totalBytes: number;
+}
+
+const AI_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+const AI_CACHE_MAX_UNPINNED_PER_WORD = 3; // Per kind; older generations are dropped first
+const AI_IMAGE_MAX_DIMENSION = 512;
+const AI_IMAGE_QUALITY = 0.8;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, AI_IMAGE_QUALITY));
+
+// Downscales a generated image and re-encodes it (WebP where supported, JPEG otherwise)
+const compressBase64Image = (base64Data: string, sourceMimeType = 'image/jpeg'): Promise<Blob> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = async () => {
+        const scale = Math.min(1, AI_IMAGE_MAX_DIMENSION / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error("Canvas 2D context is not available."));
+            return;
         }
-    } finally {
-        setGlobalLoading(false);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        let blob = await canvasToBlob(canvas, 'image/webp');
+        if (!blob || blob.type !== 'image/webp') blob = await canvasToBlob(canvas, 'image/jpeg'); // Browsers without WebP encoding fall back to PNG
+        if (blob) {
+            resolve(blob);
+        } else {
+            reject(new Error("Image compression failed."));
+        }
+    };
+    image.onerror = () => reject(new Error("Could not decode the generated image."));
+    image.src = `data:${sourceMimeType};base64,${base64Data}`;
+});
+
+const getAiContentEntrySize = (entry: Pick<AiContentEntry, 'image' | 'example'>) =>
+    entry.image ? entry.image.size : new Blob([JSON.stringify(entry.example || {})]).size;
+
+const sortAiContentEntries = (entries: AiContentEntry[]) =>
+    [...entries].sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || b.createdAt.localeCompare(a.createdAt));
+
+// Loads a word's cached content (favourites first, then newest) and marks it as recently used
+const loadAiContentForWord = async (wordId: string | number): Promise<AiContentEntry[]> => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const entries = await requestToPromise(store.index('wordId').getAll(wordId)) as AiContentEntry[];
+    const now = new Date().toISOString();
+    entries.forEach(entry => store.put({ ...entry, lastUsedAt: now }));
+    await transactionDone(transaction);
+    return sortAiContentEntries(entries);
+};
+
+const getAiContentUsage = async (): Promise<AiContentUsage> => {
+    const db = await openStorageDb();
+    const entries = await requestToPromise(db.transaction(STORE_AI_CONTENT).objectStore(STORE_AI_CONTENT).getAll()) as AiContentEntry[];
+    return {
+        imageCount: entries.filter(e => e.kind === 'image').length,
+        exampleCount: entries.filter(e => e.kind === 'example').length,
+        pinnedCount: entries.filter(e => e.isPinned).length,
+        totalBytes: entries.reduce((sum, e) => sum + e.size, 0),
+    };
+};
+
+// Evicts least recently used unpinned entries until the cache fits in `maxBytes`. Returns how many were removed.
+const pruneAiContentCache = async (maxBytes = AI_CACHE_MAX_BYTES): Promise<number> => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const entries = await requestToPromise(store.getAll()) as AiContentEntry[];
+    let totalBytes = entries.reduce((sum, e) => sum + e.size, 0);
+    let removedCount = 0;
+    entries
+        .filter(e => !e.isPinned)
+        .sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt))
+        .forEach(entry => {
+            if (totalBytes <= maxBytes) return;
+            store.delete(entry.id);
+            totalBytes -= entry.size;
+            removedCount++;
+        });
+    await transactionDone(transaction);
+    return removedCount;
+};
+
+const saveAiContent = async (wordId: string | number, content: Pick<AiContentEntry, 'kind' | 'image' | 'example'>): Promise<AiContentEntry> => {
+    const now = new Date().toISOString();
+    const entry: AiContentEntry = {
+        id: `ai-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        wordId,
+        createdAt: now,
+        lastUsedAt: now,
+        isPinned: false,
+        size: getAiContentEntrySize(content),
+        ...content,
+    };
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const existing = await requestToPromise(store.index('wordId').getAll(wordId)) as AiContentEntry[];
+    store.put(entry);
+    // Keep only the newest few unpinned generations of this kind for the word
+    existing
+        .filter(e => e.kind === entry.kind && !e.isPinned)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(AI_CACHE_MAX_UNPINNED_PER_WORD - 1)
+        .forEach(e => store.delete(e.id));
+    await transactionDone(transaction);
+    await pruneAiContentCache();
+    return entry;
+};
+
+// Pinning makes the entry the word's only favourite of its kind
+const setAiContentPinned = async (entryId: string, isPinned: boolean) => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const entry = await requestToPromise(store.get(entryId)) as AiContentEntry | undefined;
+    if (entry) {
+        if (isPinned) {
+            const siblings = await requestToPromise(store.index('wordId').getAll(entry.wordId)) as AiContentEntry[];
+            siblings.filter(e => e.kind === entry.kind && e.isPinned && e.id !== entry.id).forEach(e => store.put({ ...e, isPinned: false }));
+        }
+        store.put({ ...entry, isPinned });
     }
-     console.warn(`generateSummaryWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
+    await transactionDone(transaction);
 };
 
-const generateImageForWordWithGemini = async (wordTerm: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 1, initialDelay = 8000): Promise<string | null> => {
-    if (!ai) {
-        addToast("AI 이미지 생성 기능을 사용하려면 API 키가 필요합니다.", "warning");
-        return null;
+const deleteAiContent = async (entryId: string) => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    transaction.objectStore(STORE_AI_CONTENT).delete(entryId);
+    await transactionDone(transaction);
+};
+
+const deleteAiContentForWord = async (wordId: string | number) => {
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const keys = await requestToPromise(store.index('wordId').getAllKeys(wordId));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+};
+
+const clearAiContentCache = async (includePinned: boolean) => {
+    if (!includePinned) return pruneAiContentCache(0);
+    const db = await openStorageDb();
+    const transaction = db.transaction(STORE_AI_CONTENT, 'readwrite');
+    const store = transaction.objectStore(STORE_AI_CONTENT);
+    const count = await requestToPromise(store.count());
+    store.clear();
+    await transactionDone(transaction);
+    return count;
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+
+// Loads a word's cached AI content, keeps object URLs for its images alive while mounted, and saves new generations
+const useWordAiContent = (wordId: string | number | undefined, addToast: (message: string, type: ToastMessage['type']) => void) => {
+    const [entries, setEntries] = useState<AiContentEntry[]>([]);
+    const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+    const currentWordIdRef = useRef(wordId);
+    currentWordIdRef.current = wordId;
+
+    const reload = useCallback(async (targetWordId: string | number) => {
+        try {
+            const loaded = await loadAiContentForWord(targetWordId);
+            if (currentWordIdRef.current === targetWordId) setEntries(loaded);
+        } catch (error) {
+            console.warn(`Could not load cached AI content for word ${targetWordId}:`, error);
+        }
+    }, []);
+
+    useEffect(() => {
+        setEntries([]);
+        if (wordId !== undefined) reload(wordId);
+    }, [wordId, reload]);
+
+    useEffect(() => {
+        const urls: Record<string, string> = {};
+        entries.forEach(entry => {
+            if (entry.image) urls[entry.id] = URL.createObjectURL(entry.image);
+        });
+        setImageUrls(urls);
+        return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    }, [entries]);
+
+    // Generations are saved against the word they were requested for, even if the student has moved on since
+    const addEntry = useCallback(async (targetWordId: string | number, content: Pick<AiContentEntry, 'kind' | 'image' | 'example'>) => {
+        try {
+            await saveAiContent(targetWordId, content);
+            await reload(targetWordId);
+        } catch (error) {
+            console.error("Failed to cache AI content:", error);
+            addToast(isStorageQuotaError(error)
+                ? "저장 공간이 부족하여 AI 콘텐츠를 보관하지 못했습니다. 통계 화면에서 AI 콘텐츠 저장 공간을 정리해주세요."
+                : "AI 콘텐츠를 보관하지 못했습니다. 이번에만 표시됩니다.", "warning");
+            // Still show the result for this visit
+            const now = new Date().toISOString();
+            const transientEntry: AiContentEntry = { id: `transient-${Date.now()}`, wordId: targetWordId, createdAt: now, lastUsedAt: now, isPinned: false, size: 0, ...content };
+            if (currentWordIdRef.current === targetWordId) setEntries(prev => sortAiContentEntries([transientEntry, ...prev]));
+        }
+    }, [reload, addToast]);
+
+    const addImage = useCallback(async (targetWordId: string | number, base64Data: string) => {
+        let image: Blob;
+        try {
+            image = await compressBase64Image(base64Data);
+        } catch (error) {
+            console.warn("Image compression failed, keeping the original image:", error);
+            image = await (await fetch(`data:image/jpeg;base64,${base64Data}`)).blob();
+        }
+        await addEntry(targetWordId, { kind: 'image', image });
+    }, [addEntry]);
+
+    const addExample = useCallback((targetWordId: string | number, example: AIExampleSentence) => addEntry(targetWordId, { kind: 'example', example }), [addEntry]);
+
+    const togglePin = useCallback(async (entry: AiContentEntry) => {
+        try {
+            await setAiContentPinned(entry.id, !entry.isPinned);
+            await reload(entry.wordId);
+        } catch (error) {
+            console.error("Failed to update pinned AI content:", error);
+            addToast("즐겨찾기를 변경하지 못했습니다.", "error");
+        }
+    }, [reload, addToast]);
+
+    const remove = useCallback(async (entry: AiContentEntry) => {
+        try {
+            await deleteAiContent(entry.id);
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+        } catch (error) {
+            console.error("Failed to delete AI content:", error);
+            addToast("AI 콘텐츠를 삭제하지 못했습니다.", "error");
+        }
+    }, [addToast]);
+
+    return {
+        images: entries.filter(e => e.kind === 'image'),
+        examples: entries.filter(e => e.kind === 'example'),
+        imageUrls,
+        addImage,
+        addExample,
+        togglePin,
+        remove,
+    };
+};
+
+type WordAiContent = ReturnType<typeof useWordAiContent>;
+
+
+// --- Learning Data Backup (Export / Import) ---
+const BACKUP_APP_ID = 'ai-vocab-learning-app';
+const BACKUP_FORMAT_VERSION = 2; // 2: words reference `units` by id instead of a loose unit number
+
+type LearningStreak = { currentStreak: number; bestStreak: number; lastLearnedDate: string };
+type QuizHistoryEntry = { score: number; total: number; date: string; byType?: Partial<Record<QuizQuestionType, QuizTypeResult>> };
+
+// Everything the app keeps for a profile, captured in one versioned file
+export interface LearningDataBackup {
+    app: typeof BACKUP_APP_ID;
+    version: number;
+    exportedAt: string;
+    data: {
+        userSettings: UserSettings | null;
+        allWords: Word[];
+        units: Unit[];
+        wordStats: Record<string, WordStat>;
+        learnedWordsTodayCount: { count: number; date: string };
+        totalWordsLearnedOverall: number;
+        learningStreak: LearningStreak;
+        quizHistory: QuizHistoryEntry[];
+        quizTakenToday: { taken: boolean; date: string };
+        speedQuizLeaderboard: SpeedQuizLeaderboard;
+        activityLog: DailyActivity[];
+    };
+}
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidWord = (value: unknown): value is Word =>
+    isPlainObject(value) &&
+    (typeof value.id === 'string' || typeof value.id === 'number') &&
+    typeof value.term === 'string' && value.term.trim() !== '' &&
+    typeof value.meaning === 'string' &&
+    typeof value.partOfSpeech === 'string' &&
+    typeof value.exampleSentence === 'string' &&
+    typeof value.gradeLevel === 'string';
+
+// Validates an uploaded backup file. Throws an Error with a user-facing (Korean) message if the file is unusable.
+const parseLearningDataBackup = (jsonText: string): LearningDataBackup => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(jsonText);
+    } catch {
+        throw new Error("JSON 형식이 올바르지 않은 파일입니다.");
     }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${wordTerm}'의 이미지 생성을 건너뜁니다.`, "warning");
-        return null;
+    if (!isPlainObject(raw) || raw.app !== BACKUP_APP_ID || !isPlainObject(raw.data)) {
+        throw new Error("이 앱에서 내보낸 백업 파일이 아닙니다.");
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_FORMAT_VERSION) {
+        throw new Error(`지원하지 않는 백업 버전입니다. (파일 버전: ${raw.version}, 지원 버전: ${BACKUP_FORMAT_VERSION} 이하)`);
     }
-    setGlobalLoading(true);
-    const modelName = 'imagen-3.0-generate-002';
-    const featureDescription = `'${wordTerm}' AI 이미지 생성`;
-    const prompt = `A clear, simple, educational, dictionary illustration style image representing the English word: "${wordTerm}". Focus on a single, easily recognizable subject related to the word's most common meaning. Vibrant and kid-friendly.`;
 
-    let currentDelay = initialDelay;
+    const data = raw.data;
+    if (data.userSettings !== null && (!isPlainObject(data.userSettings) || typeof data.userSettings.username !== 'string' || typeof data.userSettings.grade !== 'string')) {
+        throw new Error("백업의 사용자 설정 정보가 손상되었습니다.");
+    }
+    if (!Array.isArray(data.allWords) || !data.allWords.every(isValidWord)) {
+        throw new Error("백업의 단어 목록이 손상되었습니다.");
+    }
+    if (!isPlainObject(data.wordStats)) {
+        throw new Error("백업의 단어 학습 기록이 손상되었습니다.");
+    }
+    const quizHistory = Array.isArray(data.quizHistory)
+        ? data.quizHistory.filter((q: any) => isPlainObject(q) && typeof q.score === 'number' && typeof q.total === 'number' && typeof q.date === 'string')
+        : [];
+    const wordStats: Record<string, WordStat> = {};
+    Object.entries(data.wordStats).forEach(([wordId, stat]) => {
+        if (isPlainObject(stat)) wordStats[wordId] = normalizeWordStat({ ...stat, id: stat.id ?? wordId });
+    });
+    // Version 1 backups have numeric `unit` fields on words instead of a unit list
+    const { words: allWords, units } = migrateLegacyWordUnits(data.allWords, Array.isArray(data.units) ? data.units.filter(isValidUnit) : [], data.userSettings?.grade);
+
+    return {
+        app: BACKUP_APP_ID,
+        version: raw.version,
+        exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+        data: {
+            userSettings: data.userSettings ? { xp: 0, level: 1, ...DEFAULT_VOICE_SETTINGS, ...data.userSettings } as UserSettings : null,
+            allWords,
+            units,
+            wordStats,
+            learnedWordsTodayCount: isPlainObject(data.learnedWordsTodayCount) ? { count: Number(data.learnedWordsTodayCount.count) || 0, date: String(data.learnedWordsTodayCount.date || '') } : { count: 0, date: '' },
+            totalWordsLearnedOverall: Number(data.totalWordsLearnedOverall) || 0,
+            learningStreak: isPlainObject(data.learningStreak)
+                ? { currentStreak: Number(data.learningStreak.currentStreak) || 0, bestStreak: Number(data.learningStreak.bestStreak) || 0, lastLearnedDate: String(data.learningStreak.lastLearnedDate || '') }
+                : { currentStreak: 0, bestStreak: 0, lastLearnedDate: '' },
+            quizHistory,
+            quizTakenToday: isPlainObject(data.quizTakenToday) ? { taken: !!data.quizTakenToday.taken, date: String(data.quizTakenToday.date || '') } : { taken: false, date: '' },
+            speedQuizLeaderboard: isPlainObject(data.speedQuizLeaderboard) ? sanitizeSpeedQuizLeaderboard(data.speedQuizLeaderboard) : {},
+            // Backups made before the activity log existed get one rebuilt from their history
+            activityLog: Array.isArray(data.activityLog)
+                ? data.activityLog.filter(isValidDailyActivity).sort((a: DailyActivity, b: DailyActivity) => a.date.localeCompare(b.date))
+                : buildActivityLogFromHistory(wordStats, quizHistory),
+        },
+    };
+};
+
+// Combines a backup into the current data without losing anything on either side.
+// Custom words are matched by term (case-insensitive, like onSaveCustomWord), and for each word the more recently reviewed stat wins.
+const mergeLearningData = (current: LearningDataBackup['data'], incoming: LearningDataBackup['data']): LearningDataBackup['data'] => {
+    // Units are matched by id, then by title and textbook; unmatched ones are appended to the list
+    const units = [...current.units];
+    const incomingUnitIdToCurrentId = new Map<string, string>();
+    sortUnits(incoming.units).forEach(unit => {
+        const match = units.find(u => u.id === unit.id || (u.title === unit.title && u.textbook === unit.textbook));
+        if (match) {
+            incomingUnitIdToCurrentId.set(unit.id, match.id);
+        } else {
+            units.push({ ...unit, order: getNextUnitOrder(units) });
+            incomingUnitIdToCurrentId.set(unit.id, unit.id);
+        }
+    });
+
+    const termToId = new Map(current.allWords.map(w => [w.term.toLowerCase(), w.id] as const));
+    const incomingIdToCurrentId = new Map<string, string | number>();
+    const addedWords: Word[] = [];
+
+    incoming.allWords.forEach(word => {
+        const existingId = termToId.get(word.term.toLowerCase());
+        if (existingId !== undefined) {
+            incomingIdToCurrentId.set(String(word.id), existingId);
+        } else if (word.isCustom) {
+            addedWords.push({ ...word, unitId: word.unitId && incomingUnitIdToCurrentId.get(word.unitId) });
+            termToId.set(word.term.toLowerCase(), word.id);
+            incomingIdToCurrentId.set(String(word.id), word.id);
+        }
+    });
+
+    const wordStats = { ...current.wordStats };
+    Object.entries(incoming.wordStats).forEach(([incomingId, stat]) => {
+        const targetId = incomingIdToCurrentId.get(incomingId);
+        if (targetId === undefined) return;
+        const existing = wordStats[targetId];
+        if (!existing || (stat.lastReviewed || '') > (existing.lastReviewed || '')) {
+            wordStats[targetId] = { ...stat, id: targetId };
+        }
+    });
+
+    const seenQuizEntries = new Set(current.quizHistory.map(q => JSON.stringify(q)));
+    const quizHistory = [...current.quizHistory, ...incoming.quizHistory.filter(q => !seenQuizEntries.has(JSON.stringify(q)))]
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const latestStreak = incoming.learningStreak.lastLearnedDate > current.learningStreak.lastLearnedDate ? incoming.learningStreak : current.learningStreak;
+    const userSettings = current.userSettings && incoming.userSettings && incoming.userSettings.xp > current.userSettings.xp
+        ? { ...current.userSettings, xp: incoming.userSettings.xp, level: incoming.userSettings.level }
+        : current.userSettings || incoming.userSettings;
+    const sameDay = current.learnedWordsTodayCount.date === incoming.learnedWordsTodayCount.date;
+
+    return {
+        userSettings,
+        allWords: [...current.allWords, ...addedWords],
+        units,
+        wordStats,
+        learnedWordsTodayCount: sameDay
+            ? { ...current.learnedWordsTodayCount, count: Math.max(current.learnedWordsTodayCount.count, incoming.learnedWordsTodayCount.count) }
+            : current.learnedWordsTodayCount,
+        totalWordsLearnedOverall: Math.max(current.totalWordsLearnedOverall, incoming.totalWordsLearnedOverall),
+        learningStreak: { ...latestStreak, bestStreak: Math.max(current.learningStreak.bestStreak, incoming.learningStreak.bestStreak) },
+        quizHistory,
+        quizTakenToday: current.quizTakenToday.date === incoming.quizTakenToday.date
+            ? { ...current.quizTakenToday, taken: current.quizTakenToday.taken || incoming.quizTakenToday.taken }
+            : current.quizTakenToday,
+        speedQuizLeaderboard: mergeSpeedQuizLeaderboards(current.speedQuizLeaderboard, incoming.speedQuizLeaderboard),
+        activityLog: mergeActivityLogs(current.activityLog, incoming.activityLog),
+    };
+};
+
+const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Column headers double as field names, so an exported sheet can be imported again as-is.
+// The unit is written as its title, since unit ids mean nothing outside this profile.
+const WORD_SHEET_COLUMNS: (keyof Word)[] = ['term', 'meaning', 'partOfSpeech', 'pronunciation', 'exampleSentence', 'exampleSentenceMeaning', 'gradeLevel'];
+const WORD_SHEET_UNIT_COLUMN = 'unit';
+
+const exportWordsAsSheet = (words: Word[], units: Unit[], format: 'csv' | 'xlsx', fileNameBase: string) => {
+    const unitTitles = new Map(units.map(unit => [unit.id, unit.title]));
+    const rows = words.map(word => ({
+        ...Object.fromEntries(WORD_SHEET_COLUMNS.map(column => [column, word[column] ?? ''])),
+        [WORD_SHEET_UNIT_COLUMN]: (word.unitId && unitTitles.get(word.unitId)) || '',
+    }));
+    const worksheet = XLSX.utils.json_to_sheet(rows, { header: [...WORD_SHEET_COLUMNS, WORD_SHEET_UNIT_COLUMN] as string[] });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Words');
+    XLSX.writeFile(workbook, `${fileNameBase}.${format}`, { bookType: format });
+};
+
+// --- Textbook Catalogue ---
+// A textbook pack describes one school textbook (publisher, grade and its unit list, optionally with each unit's
+// words) as a JSON file. Packs are installed into a device-wide catalogue, so a teacher can hand the same file to
+// a whole class. A profile follows one textbook through `UserSettings.textbook`, which holds the pack id.
+const TEXTBOOK_PACK_FORMAT = 'ai-vocab-textbook-pack';
+const TEXTBOOK_PACK_VERSION = 1;
+
+export interface TextbookPackUnit {
+    id: string; // Stable within the pack
+    title: string;
+    words: Partial<Word>[]; // Need at least `term` and `meaning`
+}
+
+export interface TextbookPack {
+    id: string; // Stable across devices, e.g. "chunjae-lee-m1"
+    publisher: string;
+    title: string;
+    gradeLevel: string;
+    units: TextbookPackUnit[];
+}
+
+interface TextbookPackFile {
+    format: typeof TEXTBOOK_PACK_FORMAT;
+    version: number;
+    textbook: TextbookPack;
+}
+
+const getTextbookLabel = (pack: Pick<TextbookPack, 'publisher' | 'title'>) => [pack.publisher, pack.title].filter(Boolean).join(' ');
+
+// Pack units keep the same id on every device that installs the pack
+const getTextbookUnitId = (packId: string, packUnitId: string) => `${packId}/${packUnitId}`;
+
+// Validates an uploaded pack file. Throws an Error with a user-facing (Korean) message if the file is unusable.
+const parseTextbookPack = (jsonText: string): TextbookPack => {
+    let raw: unknown;
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response = await ai.models.generateImages({
-                    model: modelName,
-                    prompt: prompt,
-                    config: { numberOfImages: 1, outputMimeType: 'image/jpeg' }, 
-                });
+        raw = JSON.parse(jsonText);
+    } catch {
+        throw new Error("JSON 형식이 올바르지 않은 파일입니다.");
+    }
+    if (!isPlainObject(raw) || raw.format !== TEXTBOOK_PACK_FORMAT || !isPlainObject(raw.textbook)) {
+        throw new Error("교과서 팩 파일이 아닙니다.");
+    }
+    if (typeof raw.version !== 'number' || raw.version > TEXTBOOK_PACK_VERSION) {
+        throw new Error(`지원하지 않는 교과서 팩 버전입니다. (파일 버전: ${raw.version}, 지원 버전: ${TEXTBOOK_PACK_VERSION} 이하)`);
+    }
 
-                if (response.generatedImages && response.generatedImages.length > 0 && response.generatedImages[0].image?.imageBytes) {
-                    addToast(`${featureDescription}이(가) 완료되었습니다.`, "success");
-                    return response.generatedImages[0].image.imageBytes;
-                } else {
-                    console.warn(`Gemini image response missing imageBytes for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, response);
-                    if (i < retries) {
-                        addToast(`AI가 '${wordTerm}' 이미지를 반환했지만 데이터가 누락되었습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                    } else {
-                        addToast(`AI가 '${wordTerm}'에 대한 이미지를 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                    }
-                }
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
+    const textbook = raw.textbook;
+    if (typeof textbook.id !== 'string' || !textbook.id.trim() || typeof textbook.title !== 'string' || !textbook.title.trim()) {
+        throw new Error("교과서 팩에 교과서 이름이나 ID가 없습니다.");
+    }
+    if (!['middle1', 'middle2', 'middle3'].includes(textbook.gradeLevel)) {
+        throw new Error("교과서 팩의 학년 정보가 올바르지 않습니다.");
+    }
+    if (!Array.isArray(textbook.units) || textbook.units.length === 0) {
+        throw new Error("교과서 팩에 단원 목록이 없습니다.");
+    }
+    const units: TextbookPackUnit[] = textbook.units.map((unit: unknown, index: number) => {
+        if (!isPlainObject(unit) || typeof unit.title !== 'string' || !unit.title.trim()) {
+            throw new Error(`교과서 팩의 ${index + 1}번째 단원 정보가 손상되었습니다.`);
+        }
+        const words = Array.isArray(unit.words) ? unit.words : [];
+        return {
+            id: typeof unit.id === 'string' && unit.id.trim() ? unit.id.trim() : String(index + 1),
+            title: unit.title.trim(),
+            words: words.filter((word: unknown): word is Partial<Word> =>
+                isPlainObject(word) && typeof word.term === 'string' && word.term.trim() !== '' && typeof word.meaning === 'string' && word.meaning.trim() !== ''),
+        };
+    });
+    if (new Set(units.map(unit => unit.id)).size !== units.length) {
+        throw new Error("교과서 팩에 ID가 같은 단원이 있습니다.");
+    }
 
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
+    return {
+        id: textbook.id.trim(),
+        publisher: typeof textbook.publisher === 'string' ? textbook.publisher.trim() : '',
+        title: textbook.title.trim(),
+        gradeLevel: textbook.gradeLevel,
+        units,
+    };
+};
 
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
-                
-                if (i < retries) {
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    } else {
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
-                }
+// Builds a pack from a profile's units that share a textbook name, so a teacher can share their word lists
+const createTextbookPackFile = (textbookName: string, units: Unit[], words: Word[]): TextbookPackFile => {
+    const packUnits = sortUnits(units).filter(unit => unit.textbook === textbookName);
+    // Units that came from an installed pack keep its id, so students who installed it get updates in place
+    const packId = packUnits.find(unit => unit.textbookId)?.textbookId
+        ?? `${textbookName.toLowerCase().replace(/[^a-z0-9가-힣]+/g, '-').replace(/^-|-$/g, '') || 'textbook'}-${Date.now().toString(36)}`;
+    const gradeCounts = new Map<string, number>();
+    packUnits.forEach(unit => gradeCounts.set(unit.gradeLevel, (gradeCounts.get(unit.gradeLevel) || 0) + 1));
+    return {
+        format: TEXTBOOK_PACK_FORMAT,
+        version: TEXTBOOK_PACK_VERSION,
+        textbook: {
+            id: packId,
+            publisher: '',
+            title: textbookName,
+            gradeLevel: Array.from(gradeCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 'middle1',
+            units: packUnits.map(unit => ({
+                id: unit.textbookId && unit.id.startsWith(`${unit.textbookId}/`) ? unit.id.slice(unit.textbookId.length + 1) : unit.id,
+                title: unit.title,
+                words: words.filter(word => word.unitId === unit.id).map(({ term, meaning, partOfSpeech, pronunciation, exampleSentence, exampleSentenceMeaning }) =>
+                    ({ term, meaning, partOfSpeech, pronunciation, exampleSentence, exampleSentenceMeaning })),
+            })),
+        },
+    };
+};
+
+// Adds a pack's units and words to a profile. Units already installed from the pack are kept as the student left
+// them. A pack word the profile already has is linked to the pack unit if it has no unit yet, and otherwise skipped.
+const applyTextbookPack = (pack: TextbookPack, words: Word[], units: Unit[]) => {
+    const nextUnits = [...units];
+    const nextWords = [...words];
+    const wordIndexByTerm = new Map(nextWords.map((word, index) => [word.term.toLowerCase(), index]));
+    let addedWordCount = 0;
+
+    pack.units.forEach(packUnit => {
+        const unitId = getTextbookUnitId(pack.id, packUnit.id);
+        if (!nextUnits.some(unit => unit.id === unitId)) {
+            nextUnits.push({ id: unitId, title: packUnit.title, textbook: getTextbookLabel(pack), textbookId: pack.id, gradeLevel: pack.gradeLevel, order: getNextUnitOrder(nextUnits) });
+        }
+        packUnit.words.forEach(packWord => {
+            const term = packWord.term!.trim();
+            const existingIndex = wordIndexByTerm.get(term.toLowerCase());
+            if (existingIndex !== undefined) {
+                if (!nextWords[existingIndex].unitId) nextWords[existingIndex] = { ...nextWords[existingIndex], unitId };
+                return;
+            }
+            nextWords.push({
+                id: `${unitId}/${term.toLowerCase()}`,
+                term,
+                meaning: packWord.meaning!.trim(),
+                partOfSpeech: packWord.partOfSpeech?.trim() || '',
+                pronunciation: packWord.pronunciation?.trim() || undefined,
+                exampleSentence: packWord.exampleSentence?.trim() || '',
+                exampleSentenceMeaning: packWord.exampleSentenceMeaning?.trim() || undefined,
+                gradeLevel: pack.gradeLevel,
+                isCustom: true,
+                unitId,
+            });
+            wordIndexByTerm.set(term.toLowerCase(), nextWords.length - 1);
+            addedWordCount++;
+        });
+    });
+
+    return { words: nextWords, units: nextUnits, addedWordCount };
+};
+
+// The units of the profile's selected textbook. Null when no textbook is selected or none of its units has words
+// yet, in which case screens fall back to the student's grade.
+const getTextbookScope = (units: Unit[], words: Word[], textbookId: string) => {
+    if (!textbookId) return null;
+    const textbookUnits = units.filter(unit => unit.textbookId === textbookId);
+    const unitIds = new Set(textbookUnits.map(unit => unit.id));
+    if (!words.some(word => word.unitId && unitIds.has(word.unitId))) return null;
+    return { label: textbookUnits[0].textbook, unitIds };
+};
+
+
+// --- Word Packs ---
+// A word pack carries a set of words from one device to another, typically from a teacher to a class:
+//
+//   {
+//     "format": "ai-vocab-word-pack", "version": 1,
+//     "metadata": { "title", "author", "description", "createdAt" (ISO timestamp) },
+//     "units": [{ "ref", "title", "textbook", "gradeLevel" }],
+//     "words": [{ "term", "meaning", "partOfSpeech", "pronunciation"?, "exampleSentence",
+//                 "exampleSentenceMeaning"?, "gradeLevel", "unitRef"?, "image"? (data URL) }]
+//   }
+//
+// `unitRef` points at `units[].ref`; units are matched to the student's units by title and textbook on import.
+// Small packs can also travel without a file, deflate-compressed in the URL fragment (`#wordpack=...`) or as a
+// QR code of that link. Images are left out of links.
+const WORD_PACK_FORMAT = 'ai-vocab-word-pack';
+const WORD_PACK_VERSION = 1;
+const WORD_PACK_URL_PARAM = 'wordpack';
+const WORD_PACK_SHARE_URL_MAX_LENGTH = 2000; // Longer links break in messengers and give QR codes too dense to scan
+
+export interface WordPackMetadata {
+    title: string;
+    author: string;
+    description: string;
+    createdAt: string; // ISO timestamp
+}
+
+export interface WordPackUnit {
+    ref: string;
+    title: string;
+    textbook: string;
+    gradeLevel: string;
+}
+
+export interface WordPackWord {
+    term: string;
+    meaning: string;
+    partOfSpeech: string;
+    pronunciation?: string;
+    exampleSentence: string;
+    exampleSentenceMeaning?: string;
+    gradeLevel: string;
+    unitRef?: string;
+    image?: string; // Data URL of the word's favourite cached AI image
+}
+
+export interface WordPack {
+    format: typeof WORD_PACK_FORMAT;
+    version: number;
+    metadata: WordPackMetadata;
+    units: WordPackUnit[];
+    words: WordPackWord[];
+}
+
+// What to do with pack words whose term the student already has. Built-in words are never overwritten.
+export type WordPackDuplicateMode = 'skip' | 'overwrite';
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+// Each word's favourite (or newest) cached image, keyed by word id
+const loadWordPackImages = async (words: Word[]) => {
+    const images = new Map<string | number, string>();
+    for (const word of words) {
+        const image = (await loadAiContentForWord(word.id)).find(entry => entry.kind === 'image' && entry.image)?.image;
+        if (image) images.set(word.id, await blobToDataUrl(image));
+    }
+    return images;
+};
+
+const createWordPack = (words: Word[], units: Unit[], metadata: WordPackMetadata, images = new Map<string | number, string>()): WordPack => {
+    const unitIds = new Set(words.map(word => word.unitId).filter(Boolean));
+    return {
+        format: WORD_PACK_FORMAT,
+        version: WORD_PACK_VERSION,
+        metadata,
+        units: sortUnits(units).filter(unit => unitIds.has(unit.id)).map(unit => ({ ref: unit.id, title: unit.title, textbook: unit.textbook, gradeLevel: unit.gradeLevel })),
+        words: words.map(word => ({
+            term: word.term,
+            meaning: word.meaning,
+            partOfSpeech: word.partOfSpeech,
+            ...(word.pronunciation ? { pronunciation: word.pronunciation } : {}),
+            exampleSentence: word.exampleSentence,
+            ...(word.exampleSentenceMeaning ? { exampleSentenceMeaning: word.exampleSentenceMeaning } : {}),
+            gradeLevel: word.gradeLevel,
+            ...(word.unitId && unitIds.has(word.unitId) ? { unitRef: word.unitId } : {}),
+            ...(images.has(word.id) ? { image: images.get(word.id) } : {}),
+        })),
+    };
+};
+
+// Validates a pack from a file or link. Throws an Error with a user-facing (Korean) message if it is unusable.
+const parseWordPack = (jsonText: string): WordPack => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(jsonText);
+    } catch {
+        throw new Error("JSON 형식이 올바르지 않은 파일입니다.");
+    }
+    if (!isPlainObject(raw) || raw.format !== WORD_PACK_FORMAT || !Array.isArray(raw.words)) {
+        throw new Error("단어 팩 파일이 아닙니다.");
+    }
+    if (typeof raw.version !== 'number' || raw.version > WORD_PACK_VERSION) {
+        throw new Error(`지원하지 않는 단어 팩 버전입니다. (파일 버전: ${raw.version}, 지원 버전: ${WORD_PACK_VERSION} 이하)`);
+    }
+    const metadata = isPlainObject(raw.metadata) ? raw.metadata : {};
+    const units: WordPackUnit[] = (Array.isArray(raw.units) ? raw.units : [])
+        .filter((unit: unknown) => isPlainObject(unit) && typeof unit.ref === 'string' && typeof unit.title === 'string' && unit.title.trim() !== '')
+        .map((unit: Record<string, any>) => ({
+            ref: unit.ref,
+            title: unit.title.trim(),
+            textbook: typeof unit.textbook === 'string' ? unit.textbook.trim() : '',
+            gradeLevel: typeof unit.gradeLevel === 'string' ? unit.gradeLevel : 'middle1',
+        }));
+    const words: WordPackWord[] = raw.words
+        .filter((word: unknown) => isPlainObject(word) && typeof word.term === 'string' && word.term.trim() !== '' && typeof word.meaning === 'string' && word.meaning.trim() !== '')
+        .map((word: Record<string, any>) => ({
+            term: word.term.trim(),
+            meaning: word.meaning.trim(),
+            partOfSpeech: typeof word.partOfSpeech === 'string' ? word.partOfSpeech : '',
+            ...(typeof word.pronunciation === 'string' && word.pronunciation ? { pronunciation: word.pronunciation } : {}),
+            exampleSentence: typeof word.exampleSentence === 'string' ? word.exampleSentence : '',
+            ...(typeof word.exampleSentenceMeaning === 'string' && word.exampleSentenceMeaning ? { exampleSentenceMeaning: word.exampleSentenceMeaning } : {}),
+            gradeLevel: typeof word.gradeLevel === 'string' ? word.gradeLevel : 'middle1',
+            ...(typeof word.unitRef === 'string' && units.some(unit => unit.ref === word.unitRef) ? { unitRef: word.unitRef } : {}),
+            ...(typeof word.image === 'string' && word.image.startsWith('data:image/') ? { image: word.image } : {}),
+        }));
+    if (words.length === 0) throw new Error("단어 팩에 가져올 수 있는 단어가 없습니다.");
+
+    return {
+        format: WORD_PACK_FORMAT,
+        version: WORD_PACK_VERSION,
+        metadata: {
+            title: typeof metadata.title === 'string' && metadata.title.trim() ? metadata.title.trim() : '이름 없는 단어 팩',
+            author: typeof metadata.author === 'string' ? metadata.author.trim() : '',
+            description: typeof metadata.description === 'string' ? metadata.description.trim() : '',
+            createdAt: typeof metadata.createdAt === 'string' ? metadata.createdAt : '',
+        },
+        units,
+        words,
+    };
+};
+
+// Works out how a pack lands in the student's word list, using the same case-insensitive term check as adding a word
+// by hand. Pack units are matched by title and textbook, and created when missing.
+const planWordPackImport = (pack: WordPack, words: Word[], units: Unit[], duplicateMode: WordPackDuplicateMode) => {
+    const nextUnits = [...units];
+    const unitIdByRef = new Map<string, string>();
+    pack.units.forEach(packUnit => {
+        const match = nextUnits.find(unit => unit.title === packUnit.title && unit.textbook === packUnit.textbook);
+        if (match) {
+            unitIdByRef.set(packUnit.ref, match.id);
+            return;
+        }
+        const unit: Unit = { id: createUnitId(), title: packUnit.title, textbook: packUnit.textbook, gradeLevel: packUnit.gradeLevel, order: getNextUnitOrder(nextUnits) };
+        nextUnits.push(unit);
+        unitIdByRef.set(packUnit.ref, unit.id);
+    });
+
+    const nextWords = [...words];
+    const addedWords: Word[] = [];
+    const updatedWords: Word[] = [];
+    const skippedTerms: string[] = [];
+    const images: { wordId: string | number; image: string }[] = [];
+    pack.words.forEach((packWord, index) => {
+        const { unitRef, image, ...fields } = packWord;
+        const unitId = unitRef ? unitIdByRef.get(unitRef) : undefined;
+        const existing = findWordByTerm(nextWords, packWord.term);
+        let savedWord: Word;
+        if (existing) {
+            if (duplicateMode === 'skip' || !existing.isCustom || addedWords.includes(existing)) {
+                skippedTerms.push(packWord.term);
+                return;
             }
+            savedWord = { ...existing, ...fields, unitId: unitId ?? existing.unitId };
+            nextWords[nextWords.indexOf(existing)] = savedWord;
+            updatedWords.push(savedWord);
+        } else {
+            savedWord = { ...fields, id: `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 6)}`, isCustom: true, ...(unitId ? { unitId } : {}) };
+            nextWords.push(savedWord);
+            addedWords.push(savedWord);
         }
-    } finally {
-        setGlobalLoading(false);
+        if (image) images.push({ wordId: savedWord.id, image });
+    });
+
+    // Units that ended up with no words (every word skipped) are not created
+    const usedUnitIds = new Set([...addedWords, ...updatedWords].map(word => word.unitId));
+    return {
+        words: nextWords,
+        units: nextUnits.filter(unit => units.includes(unit) || usedUnitIds.has(unit.id)),
+        addedWords,
+        updatedWords,
+        skippedTerms,
+        images,
+    };
+};
+
+const compressText = async (text: string) => {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompressText = async (bytes: Uint8Array) =>
+    new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+
+const bytesToBase64Url = (bytes: Uint8Array) =>
+    btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlToBytes = (text: string) => Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+// A link that opens this app with the pack ready to import. Returns null when the pack is too big to share as a link.
+const createWordPackShareUrl = async (pack: WordPack) => {
+    const packWithoutImages: WordPack = { ...pack, words: pack.words.map(({ image, ...word }) => word) };
+    const encoded = bytesToBase64Url(await compressText(JSON.stringify(packWithoutImages)));
+    const url = `${window.location.origin}${window.location.pathname}#${WORD_PACK_URL_PARAM}=${encoded}`;
+    return url.length <= WORD_PACK_SHARE_URL_MAX_LENGTH ? url : null;
+};
+
+// Reads a pack from a `#wordpack=...` fragment. Returns null when the fragment holds no pack.
+const readWordPackFromUrlFragment = async (hash: string): Promise<WordPack | null> => {
+    const match = hash.match(new RegExp(`^#${WORD_PACK_URL_PARAM}=([A-Za-z0-9_-]+)$`));
+    if (!match) return null;
+    let jsonText: string;
+    try {
+        jsonText = await decompressText(base64UrlToBytes(match[1]));
+    } catch {
+        throw new Error("단어 팩 링크가 손상되었습니다. 링크 전체가 복사되었는지 확인해주세요.");
     }
-    console.warn(`generateImageForWordWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
+    return parseWordPack(jsonText);
+};
+
+
+// --- Spreadsheet Word Import ---
+// Teachers' word lists usually already have columns for the word, meaning, part of speech and example.
+// Each column can be mapped to a `Word` field; AI is only asked for the fields a row leaves empty.
+type SpreadsheetWordField = 'term' | 'meaning' | 'partOfSpeech' | 'pronunciation' | 'exampleSentence' | 'exampleSentenceMeaning';
+
+const SPREADSHEET_WORD_FIELDS: { field: SpreadsheetWordField; label: string; headerAliases: string[] }[] = [
+    { field: 'term', label: '단어', headerAliases: ['term', 'word', 'english', 'vocabulary', 'voca', '단어', '영어', '영단어'] },
+    { field: 'meaning', label: '뜻', headerAliases: ['meaning', 'korean', 'definition', '뜻', '의미', '한글', '우리말'] },
+    { field: 'partOfSpeech', label: '품사', headerAliases: ['partofspeech', 'pos', 'part', '품사'] },
+    { field: 'pronunciation', label: '발음', headerAliases: ['pronunciation', 'phonetic', 'ipa', '발음', '발음기호'] },
+    { field: 'exampleSentence', label: '예문', headerAliases: ['examplesentence', 'example', 'sentence', '예문', '예시'] },
+    { field: 'exampleSentenceMeaning', label: '예문 해석', headerAliases: ['examplesentencemeaning', 'translation', 'examplemeaning', '해석', '예문해석', '예문뜻'] },
+];
+
+// Fields `onSaveCustomWord` needs; rows missing any of them are completed by AI
+const SPREADSHEET_REQUIRED_FIELDS: SpreadsheetWordField[] = ['term', 'meaning', 'partOfSpeech', 'exampleSentence'];
+
+type SpreadsheetColumnMapping = Partial<Record<SpreadsheetWordField, number>>;
+
+interface SpreadsheetSheet {
+    name: string;
+    rows: string[][];
+}
+
+export interface SpreadsheetRowValidation {
+    rowNumber: number; // 1-based, as shown in the spreadsheet
+    word: Partial<Word>;
+    status: 'ready' | 'needsAi' | 'duplicate' | 'invalid';
+    missingFields: SpreadsheetWordField[];
+    message?: string;
+}
+
+const isSpreadsheetFileName = (fileName: string) => /\.(xlsx|xls|csv)$/i.test(fileName);
+
+const readSpreadsheetSheets = async (file: File): Promise<SpreadsheetSheet[]> => {
+    // CSV is read as text so UTF-8 Korean survives; binary workbooks are read as-is
+    const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? XLSX.read(await file.text(), { type: 'string' })
+        : XLSX.read(await file.arrayBuffer());
+    return workbook.SheetNames.map(name => ({
+        name,
+        rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '', raw: false })
+            .map(row => row.map(cell => String(cell ?? '').trim()))
+            .filter(row => row.some(cell => cell !== '')),
+    }));
+};
+
+const normalizeSpreadsheetHeader = (header: string) => header.toLowerCase().replace(/[\s_\-()./]/g, '');
+
+// Matches header cells against known names; returns an empty mapping when the sheet has no recognizable header
+const guessSpreadsheetColumnMapping = (headerRow: string[]): SpreadsheetColumnMapping => {
+    const mapping: SpreadsheetColumnMapping = {};
+    const normalizedHeaders = headerRow.map(normalizeSpreadsheetHeader);
+    SPREADSHEET_WORD_FIELDS.forEach(({ field, headerAliases }) => {
+        const columnIndex = normalizedHeaders.findIndex((header, index) =>
+            headerAliases.includes(header) && !Object.values(mapping).includes(index));
+        if (columnIndex > -1) mapping[field] = columnIndex;
+    });
+    return mapping;
+};
+
+const validateSpreadsheetRows = (rows: string[][], mapping: SpreadsheetColumnMapping, hasHeaderRow: boolean, existingTerms: Set<string>): SpreadsheetRowValidation[] => {
+    const seenTerms = new Set<string>();
+    return rows.slice(hasHeaderRow ? 1 : 0).map((row, index) => {
+        const rowNumber = index + (hasHeaderRow ? 2 : 1);
+        const word: Partial<Word> = {};
+        SPREADSHEET_WORD_FIELDS.forEach(({ field }) => {
+            const columnIndex = mapping[field];
+            const value = columnIndex !== undefined ? row[columnIndex] : '';
+            if (value) word[field] = value;
+        });
+        const missingFields = SPREADSHEET_REQUIRED_FIELDS.filter(field => !word[field]);
+        const termKey = word.term?.toLowerCase();
+
+        if (!word.term) return { rowNumber, word, status: 'invalid', missingFields, message: '단어가 비어 있습니다.' };
+        if (!/^[A-Za-z][A-Za-z' .-]*$/.test(word.term)) return { rowNumber, word, status: 'invalid', missingFields, message: '영어 단어가 아닙니다.' };
+        if (existingTerms.has(termKey!)) return { rowNumber, word, status: 'duplicate', missingFields, message: '이미 단어 목록에 있습니다.' };
+        if (seenTerms.has(termKey!)) return { rowNumber, word, status: 'duplicate', missingFields, message: '표 안에서 중복됩니다.' };
+        seenTerms.add(termKey!);
+        return { rowNumber, word, status: missingFields.length > 0 ? 'needsAi' : 'ready', missingFields };
+    });
 };
 
 
@@ -738,6 +2690,78 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = React.memo(({ isOpen
 });
 
 
+// Textbook Picker (setup and settings)
+interface TextbookPickerProps {
+    id: string;
+    grade: string;
+    value: string;
+    onChange: (textbookId: string) => void;
+    catalogue: TextbookPack[];
+    onImportPack: (file: File) => Promise<TextbookPack | null>;
+    selectClassName: string;
+}
+
+const TextbookPicker: React.FC<TextbookPickerProps> = ({ id, grade, value, onChange, catalogue, onImportPack, selectClassName }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const gradePacks = catalogue.filter(pack => pack.gradeLevel === grade);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        const pack = await onImportPack(file);
+        if (pack && pack.gradeLevel === grade) onChange(pack.id);
+    };
+
+    return (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">교과서 (선택)</label>
+            <select id={id} value={gradePacks.some(pack => pack.id === value) ? value : ''} onChange={(e) => onChange(e.target.value)} className={selectClassName}>
+                <option value="">선택 안 함 (학년 전체 단어)</option>
+                {gradePacks.map(pack => <option key={pack.id} value={pack.id}>{getTextbookLabel(pack)} ({pack.units.length}개 단원)</option>)}
+            </select>
+            <div className="flex items-center justify-between mt-1">
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {gradePacks.length === 0 ? '이 학년의 교과서 팩이 없습니다. 선생님께 받은 팩 파일을 가져오세요.' : '교과서를 고르면 학습과 퀴즈가 그 교과서 단원으로 맞춰집니다.'}
+                </p>
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="shrink-0 ml-2 text-xs text-cyan-600 dark:text-cyan-400 hover:underline">📥 팩 가져오기</button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+            </div>
+        </div>
+    );
+};
+
+// Voice Picker (settings)
+interface VoicePickerProps {
+    id: string;
+    label: string;
+    lang: string;
+    voices: SpeechSynthesisVoice[];
+    value: string; // voiceURI, '' for automatic
+    onChange: (voiceURI: string) => void;
+    previewText: string;
+    speechRate: number;
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ id, label, lang, voices, value, onChange, previewText, speechRate }) => {
+    const langVoices = getVoicesForLang(voices, lang);
+    return (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{label}</label>
+            <div className="flex space-x-2">
+                <select id={id} value={langVoices.some(voice => voice.voiceURI === value) ? value : ''} onChange={(e) => onChange(e.target.value)} className="flex-grow min-w-0 p-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm">
+                    <option value="">자동 선택</option>
+                    {langVoices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({getVoiceLang(voice)})</option>)}
+                </select>
+                <button type="button" onClick={() => speak(previewText, lang, speechRate, value || undefined)} className="shrink-0 px-3 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded-md text-sm text-slate-700 dark:text-white" aria-label={`${label} 미리 듣기`}>
+                    ▶ 미리 듣기
+                </button>
+            </div>
+            {voices.length > 0 && langVoices.length === 0 && <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">이 기기에는 이 언어의 음성이 설치되어 있지 않습니다.</p>}
+        </div>
+    );
+};
+
 // Edit Settings Modal
 interface EditSettingsModalProps {
     isOpen: boolean;
@@ -746,23 +2770,34 @@ interface EditSettingsModalProps {
     onCancel: () => void;
     onResetData: () => void;
     addToast: (message: string, type: ToastMessage['type']) => void;
+    textbookCatalogue: TextbookPack[];
+    onImportTextbookPack: (file: File) => Promise<TextbookPack | null>;
 }
-const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen, currentSettings, onSave, onCancel, onResetData, addToast }) => {
+const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen, currentSettings, onSave, onCancel, onResetData, addToast, textbookCatalogue, onImportTextbookPack }) => {
     const [username, setUsername] = useState(currentSettings.username);
     const [grade, setGrade] = useState(currentSettings.grade);
+    const [textbook, setTextbook] = useState(currentSettings.textbook);
     const [dailyGoal, setDailyGoal] = useState(currentSettings.dailyGoal);
     const [theme, setTheme] = useState(currentSettings.theme);
     const [speechRate, setSpeechRate] = useState(currentSettings.speechRate);
     const [autoPlayAudio, setAutoPlayAudio] = useState(currentSettings.autoPlayAudio);
+    const [englishAccent, setEnglishAccent] = useState(currentSettings.englishAccent);
+    const [voiceURIs, setVoiceURIs] = useState(currentSettings.voiceURIs);
+    const [readMeaningsAloud, setReadMeaningsAloud] = useState(currentSettings.readMeaningsAloud);
     const [showResetConfirmModal, setShowResetConfirmModal] = useState(false);
+    const voices = useSpeechVoices();
 
     useEffect(() => {
         setUsername(currentSettings.username);
         setGrade(currentSettings.grade);
+        setTextbook(currentSettings.textbook);
         setDailyGoal(currentSettings.dailyGoal);
         setTheme(currentSettings.theme);
         setSpeechRate(currentSettings.speechRate);
         setAutoPlayAudio(currentSettings.autoPlayAudio);
+        setEnglishAccent(currentSettings.englishAccent);
+        setVoiceURIs(currentSettings.voiceURIs);
+        setReadMeaningsAloud(currentSettings.readMeaningsAloud);
     }, [currentSettings, isOpen]); 
 
     if (!isOpen) return null;
@@ -773,7 +2808,9 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
             addToast("사용자 이름은 비워둘 수 없습니다.", "warning");
             return;
         }
-        onSave({ ...currentSettings, username: username.trim(), grade, dailyGoal, theme, speechRate, autoPlayAudio });
+        // A textbook only applies to its own grade
+        const gradeTextbook = textbookCatalogue.some(pack => pack.id === textbook && pack.gradeLevel === grade) ? textbook : '';
+        onSave({ ...currentSettings, username: username.trim(), grade, textbook: gradeTextbook, dailyGoal, theme, speechRate, autoPlayAudio, englishAccent, voiceURIs, readMeaningsAloud });
     };
 
     const handleResetClick = () => {
@@ -805,6 +2842,15 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
                             <option value="middle3">중학교 3학년</option>
                         </select>
                     </div>
+                    <TextbookPicker
+                        id="edit-textbook"
+                        grade={grade}
+                        value={textbook}
+                        onChange={setTextbook}
+                        catalogue={textbookCatalogue}
+                        onImportPack={onImportTextbookPack}
+                        selectClassName="w-full p-3 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    />
                     <div>
                         <label htmlFor="edit-dailyGoal" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
                         <input type="number" id="edit-dailyGoal" value={dailyGoal} onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))} min="1" className="w-full p-3 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
@@ -840,6 +2886,48 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
                         </div>
                     </div>
 
+                    {/* Voices */}
+                    <div className="space-y-3">
+                        <div>
+                            <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">영어 발음</span>
+                            <div className="flex space-x-4">
+                                {([['en-US', '미국식'], ['en-GB', '영국식']] as const).map(([accent, accentLabel]) => (
+                                    <label key={accent} className="flex items-center space-x-2 cursor-pointer">
+                                        <input type="radio" name="englishAccent" value={accent} checked={englishAccent === accent} onChange={() => setEnglishAccent(accent)} className="form-radio text-cyan-500 focus:ring-cyan-500"/>
+                                        <span className="text-slate-700 dark:text-slate-300">{accentLabel}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <VoicePicker
+                            id="edit-englishVoice"
+                            label="영어 목소리"
+                            lang={englishAccent}
+                            voices={voices}
+                            value={voiceURIs[englishAccent] || ''}
+                            onChange={voiceURI => setVoiceURIs(prev => ({ ...prev, [englishAccent]: voiceURI }))}
+                            previewText="Hello! This is how English words will sound."
+                            speechRate={speechRate}
+                        />
+                        <VoicePicker
+                            id="edit-koreanVoice"
+                            label="한국어 목소리"
+                            lang={KOREAN_SPEECH_LANG}
+                            voices={voices}
+                            value={voiceURIs[KOREAN_SPEECH_LANG] || ''}
+                            onChange={voiceURI => setVoiceURIs(prev => ({ ...prev, [KOREAN_SPEECH_LANG]: voiceURI }))}
+                            previewText="안녕하세요. 뜻과 예문 해석은 이렇게 읽어드려요."
+                            speechRate={speechRate}
+                        />
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-slate-700 dark:text-slate-300">카드를 뒤집으면 뜻과 예문 해석 읽어주기</span>
+                            <div className="relative inline-block w-10 mr-2 align-middle select-none transition duration-200 ease-in">
+                                <input type="checkbox" name="readMeaningsAloud" id="readMeaningsAloud-toggle" checked={readMeaningsAloud} onChange={() => setReadMeaningsAloud(!readMeaningsAloud)} className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer border-slate-300 dark:border-slate-500"/>
+                                <label htmlFor="readMeaningsAloud-toggle" className="toggle-label block overflow-hidden h-6 rounded-full bg-slate-300 dark:bg-slate-500 cursor-pointer"></label>
+                            </div>
+                        </div>
+                    </div>
+
                     <div className="border-t border-slate-200 dark:border-slate-700 pt-5 space-y-3">
                          <button 
                             type="button" 
@@ -859,7 +2947,7 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
         <ConfirmationModal
                 isOpen={showResetConfirmModal}
                 title="데이터 초기화 확인"
-                message="정말로 모든 학습 데이터와 설정을 초기화하시겠습니까? 이 작업은 되돌릴 수 없습니다."
+                message="정말로 현재 프로필의 모든 학습 데이터와 설정을 초기화하시겠습니까? 다른 프로필의 데이터는 유지됩니다. 이 작업은 되돌릴 수 없습니다."
                 onConfirm={confirmResetData}
                 onCancel={() => setShowResetConfirmModal(false)}
                 confirmText="초기화"
@@ -874,11 +2962,12 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
 interface NavBarProps {
     currentScreen: AppScreen;
     onNavigate: (screen: AppScreen) => void;
-    userSettings: UserSettings | null; 
+    userSettings: UserSettings | null;
     onOpenSettings: () => void;
+    onSwitchProfile: () => void;
 }
 
-const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onNavigate, userSettings, onOpenSettings }) => {
+const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onNavigate, userSettings, onOpenSettings, onSwitchProfile }) => {
     const navItems: { screen: AppScreen; label: string; icon: string }[] = [
         { screen: 'dashboard', label: '대시보드', icon: '🏠' },
         { screen: 'learnWords', label: '단어 학습', icon: '📖' },
@@ -924,6 +3013,17 @@ const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onNavigate, u
                         <span className="sm:hidden">설정</span>
                     </button>
                 </li>
+                <li>
+                    <button
+                        onClick={onSwitchProfile}
+                        title="프로필 전환"
+                        aria-label="프로필 전환"
+                        className="flex flex-col sm:flex-row items-center justify-center p-1.5 sm:px-2.5 sm:py-1.5 rounded-md text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 hover:text-slate-800 dark:hover:text-white transition-colors"
+                    >
+                        <span className="text-base sm:text-lg sm:mr-1.5 mb-0.5 sm:mb-0">👥</span>
+                        <span className="max-w-[6rem] truncate">{userSettings.username}</span>
+                    </button>
+                </li>
             </ul>
         </nav>
     );
@@ -933,12 +3033,16 @@ const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onNavigate, u
 // Login/Setup Screen Component
 interface LoginSetupScreenProps extends Omit<ScreenProps, 'userSettings' | 'setGlobalLoading' | 'addToast' | 'openSettingsModal' | 'currentScreen' | 'addXp'> {
     onSetupComplete: (settings: UserSettings) => void;
-    addToast: (message: string, type: ToastMessage['type']) => void; 
+    addToast: (message: string, type: ToastMessage['type']) => void;
+    onCancel?: () => void; // Back to the profile picker when other profiles exist
+    textbookCatalogue: TextbookPack[];
+    onImportTextbookPack: (file: File) => Promise<TextbookPack | null>;
 }
 
-const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetupComplete, addToast }) => {
+const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetupComplete, addToast, onCancel, textbookCatalogue, onImportTextbookPack }) => {
     const [username, setUsername] = useState('');
     const [grade, setGrade] = useState('middle1');
+    const [textbook, setTextbook] = useState('');
     const [dailyGoal, setDailyGoal] = useState(10);
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -950,11 +3054,12 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetup
         onSetupComplete({ 
             username: username.trim(), 
             grade, 
-            textbook: '', 
+            textbook: textbookCatalogue.some(pack => pack.id === textbook && pack.gradeLevel === grade) ? textbook : '',
             dailyGoal,
             theme: document.documentElement.classList.contains('dark') ? 'dark' : 'light', 
             speechRate: 1.0, 
             autoPlayAudio: true,
+            ...DEFAULT_VOICE_SETTINGS,
             xp: 0,
             level: 1,
         });
@@ -991,6 +3096,15 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetup
                             <option value="middle3">중학교 3학년</option>
                         </select>
                     </div>
+                    <TextbookPicker
+                        id="textbook"
+                        grade={grade}
+                        value={textbook}
+                        onChange={setTextbook}
+                        catalogue={textbookCatalogue}
+                        onImportPack={onImportTextbookPack}
+                        selectClassName="w-full p-3 bg-slate-100 dark:bg-slate-600 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    />
                     <div>
                         <label htmlFor="dailyGoal" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
                         <input
@@ -1010,7 +3124,101 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetup
                         학습 시작
                     </button>
                 </form>
+                {onCancel && (
+                    <button onClick={onCancel} className="mt-4 w-full text-sm text-cyan-600 dark:text-cyan-400 hover:underline">
+                        프로필 선택으로 돌아가기
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+
+// Profile Select Screen Component
+interface ProfileSelectScreenProps {
+    profiles: StudentProfile[];
+    activeProfileId: string | null;
+    onSelectProfile: (profileId: string) => void;
+    onAddProfile: () => void;
+    onDeleteProfile: (profileId: string) => void;
+}
+
+const PROFILE_AVATAR_COLORS = ['bg-cyan-500', 'bg-orange-500', 'bg-purple-500', 'bg-green-500', 'bg-pink-500', 'bg-blue-500'];
+
+const ProfileSelectScreen: React.FC<ProfileSelectScreenProps> = ({ profiles, activeProfileId, onSelectProfile, onAddProfile, onDeleteProfile }) => {
+    const [profileToDelete, setProfileToDelete] = useState<StudentProfile | null>(null);
+
+    const [profileSettings, setProfileSettings] = useState<Record<string, UserSettings | null>>({});
+
+    useEffect(() => {
+        let isCancelled = false;
+        Promise.all(profiles.map(profile =>
+            loadProfileValue(profile.id, 'userSettings')
+                .catch(error => {
+                    console.warn(`Could not read settings for profile ${profile.id}:`, error);
+                    return null;
+                })
+                .then(settings => [profile.id, settings] as const)
+        )).then(entries => {
+            if (!isCancelled) setProfileSettings(Object.fromEntries(entries));
+        });
+        return () => { isCancelled = true; };
+    }, [profiles]);
+
+    const profileSummaries = profiles.map(profile => ({ profile, settings: profileSettings[profile.id] ?? null }));
+
+    return (
+        <div className="p-6 sm:p-8 bg-slate-100 dark:bg-slate-800 min-h-screen flex flex-col justify-center items-center">
+            <div className="w-full max-w-lg bg-white dark:bg-slate-700 p-8 rounded-xl shadow-2xl">
+                <h1 className="text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2 text-center">누가 공부하나요?</h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 text-center">프로필마다 설정, 학습 기록, 나만의 단어가 따로 저장됩니다.</p>
+                <ul className="space-y-3 mb-6">
+                    {profileSummaries.map(({ profile, settings }, index) => (
+                        <li key={profile.id} className="flex items-center">
+                            <button
+                                onClick={() => onSelectProfile(profile.id)}
+                                className={`flex-grow flex items-center p-3 rounded-lg text-left transition-colors bg-slate-100 dark:bg-slate-600 hover:bg-cyan-100 dark:hover:bg-slate-500 ${profile.id === activeProfileId ? 'ring-2 ring-cyan-400' : ''}`}
+                            >
+                                <span className={`w-10 h-10 mr-3 flex-shrink-0 rounded-full flex items-center justify-center text-white text-lg font-bold ${PROFILE_AVATAR_COLORS[index % PROFILE_AVATAR_COLORS.length]}`}>
+                                    {profile.name.charAt(0).toUpperCase()}
+                                </span>
+                                <span>
+                                    <span className="block font-semibold text-slate-800 dark:text-white">{profile.name}</span>
+                                    <span className="block text-xs text-slate-500 dark:text-slate-300">
+                                        {settings ? `${settings.grade.replace('middle', '중')} · Lv. ${settings.level || 1}` : '설정 미완료'}
+                                    </span>
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => setProfileToDelete(profile)}
+                                className="ml-2 p-2 text-slate-400 hover:text-red-500 dark:hover:text-red-400"
+                                aria-label={`${profile.name} 프로필 삭제`}
+                                title="프로필 삭제"
+                            >
+                                🗑️
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <button
+                    onClick={onAddProfile}
+                    className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md transition-colors"
+                >
+                    ➕ 새 프로필 추가
+                </button>
             </div>
+            <ConfirmationModal
+                isOpen={!!profileToDelete}
+                title="프로필 삭제"
+                message={`'${profileToDelete?.name}' 프로필의 설정과 모든 학습 기록이 삭제됩니다. 이 작업은 되돌릴 수 없습니다.`}
+                onConfirm={() => {
+                    if (profileToDelete) onDeleteProfile(profileToDelete.id);
+                    setProfileToDelete(null);
+                }}
+                onCancel={() => setProfileToDelete(null)}
+                confirmText="삭제"
+            />
         </div>
     );
 };
@@ -1026,6 +3234,7 @@ interface DashboardScreenProps extends ScreenProps {
     averageQuizScore: number;
     quizTakenToday: boolean;
     hasIncorrectWordsToReview: boolean;
+    dueWordsCount: number;
 }
 const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({ 
     userSettings, 
@@ -1036,6 +3245,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
     averageQuizScore,
     quizTakenToday,
     hasIncorrectWordsToReview,
+    dueWordsCount,
     addToast
 }) => {
     const dailyGoalAchieved = learnedWordsToday >= userSettings.dailyGoal;
@@ -1123,6 +3333,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
                     <h3 className="text-md sm:text-lg font-semibold text-cyan-700 dark:text-cyan-300 mb-1">📊 학습 요약</h3>
                     <p className="text-sm text-slate-600 dark:text-slate-300">오늘 학습: <span className="font-semibold">{learnedWordsToday}</span> 단어</p>
                     <p className="text-sm text-slate-600 dark:text-slate-300">평균 퀴즈 정답률: <span className="font-semibold">{averageQuizScore.toFixed(1)}%</span></p>
+                    <p className="text-sm text-slate-600 dark:text-slate-300">오늘 복습 예정: <span className="font-semibold">{dueWordsCount}</span> 단어</p>
                 </div>
             </div>
             
@@ -1151,7 +3362,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
                         "오답 단어 복습하기",
                         false, 
                         10,
-                        hasIncorrectWordsToReview ? { label: "복습 하러가기", onClick: () => onNavigate('quiz') } : { label: "오답 없음", onClick: () => addToast("복습할 오답 단어가 없습니다!", "info") }
+                        hasIncorrectWordsToReview ? { label: "복습 하러가기", onClick: () => onNavigate('quiz', { mode: 'review' }) } : { label: "오답 없음", onClick: () => addToast("복습할 오답 단어가 없습니다!", "info") }
                     )}
                 </ul>
             </div>
@@ -1184,27 +3395,472 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
                 </button>
             </div>
 
-            <footer className="mt-8 pt-4 border-t border-slate-200 dark:border-slate-600 text-center text-xs text-slate-500 dark:text-slate-400">
-                <a href="#" onClick={(e)=>{e.preventDefault(); addToast("도움말 기능은 준비 중입니다.", "info")}} className="hover:underline">도움말</a>
-                <span className="mx-2">|</span>
-                <a href="#" onClick={(e)=>{e.preventDefault(); addToast("앱 설치 안내는 준비 중입니다. 브라우저의 '홈 화면에 추가' 기능을 사용해보세요.", "info")}} className="hover:underline">앱 설치 안내</a>
-            </footer>
+            <footer className="mt-8 pt-4 border-t border-slate-200 dark:border-slate-600 text-center text-xs text-slate-500 dark:text-slate-400">
+                <a href="#" onClick={(e)=>{e.preventDefault(); addToast("도움말 기능은 준비 중입니다.", "info")}} className="hover:underline">도움말</a>
+                <span className="mx-2">|</span>
+                <a href="#" onClick={(e)=>{e.preventDefault(); addToast("앱 설치 안내는 준비 중입니다. 브라우저의 '홈 화면에 추가' 기능을 사용해보세요.", "info")}} className="hover:underline">앱 설치 안내</a>
+            </footer>
+        </div>
+    );
+});
+
+
+// Cached AI examples and images for a word, with favourite (pin) and delete controls
+interface WordAiContentPanelProps {
+    content: WordAiContent;
+    term: string;
+    speechRate: number;
+}
+
+const WordAiContentPanel: React.FC<WordAiContentPanelProps> = ({ content, term, speechRate }) => {
+    const { examples, images, imageUrls, togglePin, remove } = content;
+    if (examples.length === 0 && images.length === 0) return null;
+
+    const renderEntryActions = (entry: AiContentEntry) => (
+        <span className="flex-shrink-0 ml-1">
+            <button
+                onClick={(e) => { e.stopPropagation(); togglePin(entry); }}
+                className={`px-1 text-base ${entry.isPinned ? 'text-yellow-500' : 'text-slate-400 hover:text-yellow-500'}`}
+                aria-label={entry.isPinned ? "즐겨찾기 해제" : "즐겨찾기로 고정"}
+                title={entry.isPinned ? "즐겨찾기 해제" : "즐겨찾기로 고정"}
+            >
+                {entry.isPinned ? '★' : '☆'}
+            </button>
+            <button
+                onClick={(e) => { e.stopPropagation(); remove(entry); }}
+                className="px-1 text-sm text-slate-400 hover:text-red-500"
+                aria-label="삭제"
+                title="삭제"
+            >
+                🗑️
+            </button>
+        </span>
+    );
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-300 dark:border-slate-500 animate-fadeIn space-y-3">
+            {examples.length > 0 && (
+                <div>
+                    <p className="text-teal-600 dark:text-teal-300 font-semibold mb-1">✨ AI 추가 예문:</p>
+                    <ul className="space-y-2">
+                        {examples.map(entry => entry.example && (
+                            <li key={entry.id} className="flex items-start justify-between">
+                                <span>
+                                    <button onClick={(e) => { e.stopPropagation(); speak(entry.example!.newExampleSentence, undefined, speechRate); }} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-lg mr-1" aria-label="AI 예문 발음 듣기">🔊</button>
+                                    <span className="text-slate-700 dark:text-slate-200">{entry.example.newExampleSentence}</span>
+                                    <span className="block text-sm text-slate-500 dark:text-slate-400 mt-0.5"><span className="font-semibold">해석:</span> {entry.example.newExampleSentenceMeaning}</span>
+                                </span>
+                                {renderEntryActions(entry)}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {images.length > 0 && (
+                <div>
+                    <p className="text-purple-600 dark:text-purple-300 font-semibold mb-1">🎨 AI 생성 이미지:</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {images.map((entry, index) => imageUrls[entry.id] && (
+                            <div key={entry.id} className={`relative ${index === 0 ? 'col-span-2' : ''}`}>
+                                <img src={imageUrls[entry.id]} alt={`AI generated image for ${term}`} className={`w-full mx-auto rounded-md shadow-lg ${index === 0 ? 'max-w-xs' : ''}`} />
+                                <div className="absolute top-1 right-1 bg-white/80 dark:bg-slate-800/80 rounded-md">
+                                    {renderEntryActions(entry)}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+// Pronunciation Practice Panel
+// One word's pronunciation round: the student says the word (or its example sentence), sees a score and which
+// words were missed, and retries until they pass or run out of attempts. Used by LearnWords and the pronunciation game.
+type PronunciationTarget = 'term' | 'sentence';
+
+export interface PronunciationRoundResult {
+    wordId: string | number;
+    target: PronunciationTarget;
+    bestScore: number;
+    attempts: number;
+    passed: boolean;
+    quality: number; // SM-2 response quality for the review
+}
+
+const PRONUNCIATION_MAX_ATTEMPTS = 3;
+
+const SPEECH_RECOGNITION_ERROR_MESSAGES: Record<SpeechRecognitionErrorCode, string> = {
+    'not-supported': "이 브라우저는 음성 인식을 지원하지 않습니다. Chrome이나 Edge를 사용해주세요.",
+    'not-allowed': "마이크 사용이 허용되지 않았습니다. 브라우저 설정에서 마이크 권한을 허용해주세요.",
+    'no-speech': "목소리가 들리지 않았어요. 마이크 가까이에서 다시 말해보세요.",
+    'audio-capture': "마이크를 찾을 수 없습니다. 마이크 연결을 확인해주세요.",
+    'network': "음성 인식에는 인터넷 연결이 필요합니다.",
+    'aborted': "음성 인식이 중단되었습니다.",
+    'unknown': "음성 인식 중 문제가 발생했습니다. 다시 시도해주세요.",
+};
+
+interface PronunciationPracticePanelProps {
+    word: Word;
+    target: PronunciationTarget;
+    speechRate: number;
+    onRoundComplete: (result: PronunciationRoundResult) => void; // Called once per word and target
+    recognizer?: SpeechRecognizer;
+}
+
+const PronunciationPracticePanel: React.FC<PronunciationPracticePanelProps> = ({ word, target, speechRate, onRoundComplete, recognizer = getSpeechRecognizer() }) => {
+    const [isListening, setIsListening] = useState(false);
+    const [attempts, setAttempts] = useState(0);
+    const [bestScore, setBestScore] = useState(0);
+    const [lastResult, setLastResult] = useState<PronunciationScore | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [roundResult, setRoundResult] = useState<PronunciationRoundResult | null>(null);
+    const listenControllerRef = useRef<AbortController | null>(null);
+    const text = target === 'term' ? word.term : word.exampleSentence;
+
+    useEffect(() => {
+        setIsListening(false);
+        setAttempts(0);
+        setBestScore(0);
+        setLastResult(null);
+        setErrorMessage(null);
+        setRoundResult(null);
+        return () => {
+            listenControllerRef.current?.abort();
+            listenControllerRef.current = null;
+        };
+    }, [word.id, target]);
+
+    const completeRound = (score: number, attemptCount: number) => {
+        if (roundResult) return;
+        const result: PronunciationRoundResult = {
+            wordId: word.id,
+            target,
+            bestScore: score,
+            attempts: attemptCount,
+            passed: score >= PRONUNCIATION_PASS_SCORE,
+            quality: getPronunciationQuality(score, attemptCount),
+        };
+        setRoundResult(result);
+        onRoundComplete(result);
+    };
+
+    const handleListen = async () => {
+        if (isListening) {
+            listenControllerRef.current?.abort();
+            return;
+        }
+        if ('speechSynthesis' in window) speechSynthesis.cancel(); // Don't let the app's own voice be recognized
+        const controller = new AbortController();
+        listenControllerRef.current = controller;
+        setIsListening(true);
+        setErrorMessage(null);
+        const outcome = await recognizer.recognize({ lang: 'en-US', signal: controller.signal });
+        if (listenControllerRef.current !== controller) return; // The word changed or the panel closed meanwhile
+        setIsListening(false);
+        if (outcome.error !== undefined) {
+            if (outcome.error !== 'aborted') setErrorMessage(SPEECH_RECOGNITION_ERROR_MESSAGES[outcome.error]);
+            return;
+        }
+
+        const result = scorePronunciation(text, outcome.transcripts);
+        const attemptCount = attempts + 1;
+        const newBestScore = Math.max(bestScore, result.score);
+        setLastResult(result);
+        setAttempts(attemptCount);
+        setBestScore(newBestScore);
+        if (result.score >= PRONUNCIATION_PASS_SCORE || attemptCount >= PRONUNCIATION_MAX_ATTEMPTS) {
+            completeRound(newBestScore, attemptCount);
+        }
+    };
+
+    if (!recognizer.isSupported()) {
+        return <p className="text-sm text-yellow-600 dark:text-yellow-400 text-center">{SPEECH_RECOGNITION_ERROR_MESSAGES['not-supported']}</p>;
+    }
+
+    const isPassed = !!lastResult && lastResult.score >= PRONUNCIATION_PASS_SCORE;
+
+    return (
+        <div className="p-4 bg-slate-100 dark:bg-slate-700 rounded-xl shadow text-center">
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">{target === 'term' ? '단어를 소리 내어 말해보세요' : '예문을 소리 내어 읽어보세요'}</p>
+            <div className="flex items-center justify-center gap-2 mb-3">
+                <p className={`${target === 'term' ? 'text-2xl' : 'text-base'} font-semibold text-slate-800 dark:text-white`}>
+                    {lastResult
+                        ? lastResult.words.map((w, i) => (
+                            <span key={i} className={w.matched ? 'text-green-600 dark:text-green-400' : 'text-red-500 underline'}>{w.text}{i < lastResult.words.length - 1 ? ' ' : ''}</span>
+                        ))
+                        : text}
+                </p>
+                <button onClick={() => speak(text, undefined, speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-xl" aria-label="먼저 들어보기">🔊</button>
+            </div>
+
+            <button
+                onClick={handleListen}
+                className={`py-2 px-6 rounded-full text-white font-semibold shadow-md ${isListening ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-cyan-500 hover:bg-cyan-600'}`}
+                aria-label={isListening ? '녹음 중지' : '말하기 시작'}
+            >
+                {isListening ? '🎙️ 듣는 중... (눌러서 중지)' : attempts > 0 ? '🎤 다시 말하기' : '🎤 말하기'}
+            </button>
+
+            {errorMessage && <p className="text-sm text-yellow-600 dark:text-yellow-400 mt-2">{errorMessage}</p>}
+            {lastResult && (
+                <div className="mt-3 text-sm">
+                    <p className={`text-2xl font-bold ${isPassed ? 'text-green-500' : 'text-orange-500'}`}>{lastResult.score}점</p>
+                    <p className="text-slate-500 dark:text-slate-400">들린 말: "{lastResult.transcript || '(인식 안 됨)'}"</p>
+                    <p className="text-slate-600 dark:text-slate-300 mt-1">
+                        {isPassed
+                            ? '잘했어요! 🎉'
+                            : attempts < PRONUNCIATION_MAX_ATTEMPTS
+                                ? `빨간 단어에 주의해서 다시 말해보세요. (${attempts}/${PRONUNCIATION_MAX_ATTEMPTS}회)`
+                                : `최고 점수 ${bestScore}점. 🔊로 다시 들어보고 연습해보세요.`}
+                    </p>
+                </div>
+            )}
+            {!roundResult && attempts > 0 && !isListening && (
+                <button onClick={() => completeRound(bestScore, attempts)} className="mt-2 text-xs text-slate-500 dark:text-slate-400 hover:underline">
+                    이 단어 넘어가기
+                </button>
+            )}
+        </div>
+    );
+};
+
+
+// Listen Mode Player
+// Hands-free review: reads each word of the session aloud (term, pause, Korean meaning, example) and moves on by
+// itself. Lock-screen and headset buttons control it through the Media Session API.
+interface ListenModeOptions {
+    termRepeats: number; // How many times the term is read
+    gapSeconds: number; // Pause between the parts of a word and between words
+    readExample: boolean;
+}
+
+const LISTEN_MODE_REPEAT_OPTIONS = [1, 2, 3];
+const LISTEN_MODE_GAP_OPTIONS = [1, 2, 3, 5];
+// Logged with each word heard; listening does not test recall, so `applySrsReview` leaves the schedule as it is
+const LISTEN_MODE_REVIEW_QUALITY = 3;
+
+const waitUnlessAborted = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const timeoutId = window.setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        resolve();
+    });
+});
+
+// Browsers only show media controls while an audio element plays, and speech synthesis is not one.
+// A looping second of silence keeps the session active.
+let silentAudioUrl: string | null = null;
+const getSilentAudioUrl = () => {
+    if (!silentAudioUrl) {
+        const sampleRate = 8000;
+        const buffer = new ArrayBuffer(44 + sampleRate);
+        const view = new DataView(buffer);
+        const writeString = (offset: number, value: string) => value.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+        writeString(0, 'RIFF');
+        view.setUint32(4, 36 + sampleRate, true);
+        writeString(8, 'WAVE');
+        writeString(12, 'fmt ');
+        view.setUint32(16, 16, true); // PCM header size
+        view.setUint16(20, 1, true); // PCM
+        view.setUint16(22, 1, true); // Mono
+        view.setUint32(24, sampleRate, true);
+        view.setUint32(28, sampleRate, true); // Byte rate
+        view.setUint16(32, 1, true); // Block align
+        view.setUint16(34, 8, true); // Bits per sample
+        writeString(36, 'data');
+        view.setUint32(40, sampleRate, true);
+        new Uint8Array(buffer, 44).fill(128); // Silence in unsigned 8-bit PCM
+        silentAudioUrl = URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+    }
+    return silentAudioUrl;
+};
+
+interface ListenModePlayerProps {
+    words: Word[];
+    currentIndex: number;
+    speechRate: number;
+    onWordListened: () => void; // The current word was read to the end
+    onSkip: (toIndex: number) => void; // Never past the last word: only hearing it to the end finishes the session
+    onExit: () => void;
+}
+
+const ListenModePlayer: React.FC<ListenModePlayerProps> = ({ words, currentIndex, speechRate, onWordListened, onSkip, onExit }) => {
+    const [isPlaying, setIsPlaying] = useState(true);
+    const [options, setOptions] = useState<ListenModeOptions>({ termRepeats: 2, gapSeconds: 2, readExample: true });
+    const [activePart, setActivePart] = useState<'term' | 'meaning' | 'example' | null>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const word = words[currentIndex];
+    const isLastWord = currentIndex >= words.length - 1;
+
+    // Kept in a ref so a word that finishes playing always reports to the latest callback
+    const onWordListenedRef = useRef(onWordListened);
+    onWordListenedRef.current = onWordListened;
+
+    // Plays the current word from the start; pausing, skipping or changing options starts the word over
+    useEffect(() => {
+        if (!isPlaying || !word) return;
+        const controller = new AbortController();
+        const { signal } = controller;
+        const gapMs = options.gapSeconds * 1000;
+        (async () => {
+            setActivePart('term');
+            for (let i = 0; i < options.termRepeats && !signal.aborted; i++) {
+                await speak(word.term, undefined, speechRate);
+                await waitUnlessAborted(gapMs, signal);
+            }
+            if (signal.aborted) return;
+            setActivePart('meaning');
+            await speak(word.meaning, KOREAN_SPEECH_LANG, speechRate);
+            if (options.readExample && word.exampleSentence && !signal.aborted) {
+                await waitUnlessAborted(gapMs, signal);
+                if (signal.aborted) return;
+                setActivePart('example');
+                await speak(word.exampleSentence, undefined, speechRate);
+            }
+            await waitUnlessAborted(gapMs, signal);
+            if (signal.aborted) return;
+            setActivePart(null);
+            onWordListenedRef.current();
+        })();
+        return () => {
+            controller.abort();
+            stopSpeech();
+        };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [word?.id, isPlaying, options, speechRate]);
+
+    useEffect(() => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (isPlaying) audio.play().catch(error => console.warn("Silent audio for media controls could not play:", error));
+        else audio.pause();
+    }, [isPlaying]);
+
+    useEffect(() => {
+        if (!('mediaSession' in navigator) || !word) return;
+        navigator.mediaSession.metadata = new MediaMetadata({
+            title: word.term,
+            artist: word.meaning,
+            album: `듣기 모드 (${currentIndex + 1} / ${words.length})`,
+            artwork: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml' }],
+        });
+        navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+    }, [word, currentIndex, words.length, isPlaying]);
+
+    useEffect(() => {
+        if (!('mediaSession' in navigator)) return;
+        const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+            ['play', () => setIsPlaying(true)],
+            ['pause', () => setIsPlaying(false)],
+            ['nexttrack', () => { if (!isLastWord) onSkip(currentIndex + 1); }],
+            ['previoustrack', () => onSkip(Math.max(0, currentIndex - 1))],
+            ['stop', onExit],
+        ];
+        handlers.forEach(([action, handler]) => {
+            try {
+                navigator.mediaSession.setActionHandler(action, handler);
+            } catch (error) {
+                console.warn(`Media Session action '${action}' is not supported.`, error);
+            }
+        });
+        return () => handlers.forEach(([action]) => {
+            try { navigator.mediaSession.setActionHandler(action, null); } catch { /* Not supported */ }
+        });
+    }, [currentIndex, isLastWord, onSkip, onExit]);
+
+    useEffect(() => () => {
+        if ('mediaSession' in navigator) {
+            navigator.mediaSession.metadata = null;
+            navigator.mediaSession.playbackState = 'none';
+        }
+    }, []);
+
+    if (!word) return null;
+
+    const partClassName = (part: typeof activePart) => activePart === part ? 'ring-2 ring-cyan-500 rounded-md' : '';
+    const selectClassName = "p-1 bg-white dark:bg-slate-600 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-500 text-sm";
+
+    return (
+        <div className="w-full max-w-lg">
+            <audio ref={audioRef} src={getSilentAudioUrl()} loop />
+            <div className="bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8 text-center space-y-3">
+                <p className="text-xs text-slate-500 dark:text-slate-400">🎧 듣기 모드 · {currentIndex + 1} / {words.length}</p>
+                <h2 className={`text-4xl sm:text-5xl font-bold text-slate-800 dark:text-white p-1 ${partClassName('term')}`}>{word.term}</h2>
+                <p className={`text-xl text-cyan-600 dark:text-cyan-300 font-semibold p-1 ${partClassName('meaning')}`}>{word.meaning}</p>
+                {options.readExample && word.exampleSentence && (
+                    <p className={`text-slate-700 dark:text-slate-200 p-1 ${partClassName('example')}`}>{word.exampleSentence}</p>
+                )}
+                <div className="flex justify-center items-center space-x-4 pt-2">
+                    <button onClick={() => onSkip(Math.max(0, currentIndex - 1))} disabled={currentIndex === 0} className="text-3xl disabled:opacity-30" aria-label="이전 단어">⏮️</button>
+                    <button onClick={() => setIsPlaying(prev => !prev)} className="text-5xl" aria-label={isPlaying ? '일시 정지' : '재생'}>{isPlaying ? '⏸️' : '▶️'}</button>
+                    <button onClick={() => onSkip(currentIndex + 1)} disabled={isLastWord} className="text-3xl disabled:opacity-30" aria-label="다음 단어">⏭️</button>
+                </div>
+            </div>
+
+            <div className="mt-4 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg flex flex-wrap justify-center gap-x-4 gap-y-2 text-sm text-slate-600 dark:text-slate-300">
+                <label className="flex items-center space-x-1">
+                    <span>단어 반복</span>
+                    <select value={options.termRepeats} onChange={e => setOptions(prev => ({ ...prev, termRepeats: Number(e.target.value) }))} className={selectClassName}>
+                        {LISTEN_MODE_REPEAT_OPTIONS.map(count => <option key={count} value={count}>{count}번</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-1">
+                    <span>쉬는 시간</span>
+                    <select value={options.gapSeconds} onChange={e => setOptions(prev => ({ ...prev, gapSeconds: Number(e.target.value) }))} className={selectClassName}>
+                        {LISTEN_MODE_GAP_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{seconds}초</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-1 cursor-pointer">
+                    <input type="checkbox" checked={options.readExample} onChange={e => setOptions(prev => ({ ...prev, readExample: e.target.checked }))} className="form-checkbox text-cyan-500 rounded" />
+                    <span>예문 읽기</span>
+                </label>
+            </div>
+            <p className="text-xs text-center text-slate-500 dark:text-slate-400 mt-2">끝까지 들은 단어는 복습한 것으로 기록됩니다. 잠금 화면이나 이어폰 버튼으로도 재생을 조절할 수 있어요.</p>
+            <button onClick={onExit} className="mt-4 w-full py-2 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-md">
+                듣기 모드 끝내기
+            </button>
         </div>
     );
-});
+};
 
 
 // LearnWords Screen Component
+// Korean summary of a unit's passage, generated when the unit file was extracted
+const UnitSummaryNote: React.FC<{ summary: string; title?: string; className?: string }> = ({ summary, title = "단원 요약", className = '' }) => (
+    <div className={`p-3 bg-white dark:bg-slate-800 border-l-4 border-cyan-500 rounded text-left ${className}`}>
+        <p className="text-xs font-semibold text-cyan-600 dark:text-cyan-400 mb-1">📝 {title}</p>
+        <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-line">{summary}</p>
+    </div>
+);
+
 interface LearnWordsScreenProps extends ScreenProps {
+    routeParams?: RouteParams<'learnWords'>;
     words: Word[];
     wordStats: Record<string | number, WordStat>;
-    onWordLearned: (wordId: number | string, isQuickReview?: boolean) => void;
+    units: Unit[];
+    unitSummaries: Record<string, string>;
+    onWordLearned: (wordId: number | string, quality: number, source?: LearningReviewSource) => void;
 }
 
+// Self-rating buttons shown after the card is flipped, mapped to SM-2 response quality
+const LEARN_RATING_OPTIONS: { quality: number; label: string; className: string }[] = [
+    { quality: 1, label: '😵 모르겠어요', className: 'bg-red-500 hover:bg-red-600' },
+    { quality: 3, label: '🤔 헷갈려요', className: 'bg-yellow-500 hover:bg-yellow-600' },
+    { quality: 5, label: '😀 알아요', className: 'bg-green-500 hover:bg-green-600' },
+];
+
 const SESSION_STORAGE_CURRENT_INDEX_KEY = 'learnWords_currentIndex';
 const SESSION_STORAGE_WORD_SET_SIGNATURE_KEY = 'learnWords_wordSetSignature';
 
-const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNavigate, words, wordStats, onWordLearned, addToast, setGlobalLoading }) => {
+const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNavigate, routeParams, words, wordStats, units, unitSummaries, onWordLearned, addToast, setGlobalLoading }) => {
+    const scopedUnit = findUnitByRouteParam(units, routeParams?.unitId);
+    const textbookScope = useMemo(() => getTextbookScope(units, words, userSettings.textbook), [units, words, userSettings.textbook]);
+    const unitSummary = scopedUnit ? unitSummaries[scopedUnit.id] : undefined;
+    // A unit session covers all of the unit's words rather than the daily goal
+    const sessionWordCount = scopedUnit ? words.length : userSettings.dailyGoal;
     const [currentIndex, setCurrentIndex] = useState(0);
     const [currentWordsSet, setCurrentWordsSet] = useState<Word[]>([]);
     const [isFlipped, setIsFlipped] = useState(false);
@@ -1212,54 +3868,67 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     const [isQuickReviewActive, setIsQuickReviewActive] = useState(false);
     const [isQuickReviewFinished, setIsQuickReviewFinished] = useState(false);
 
-    const [aiExample, setAiExample] = useState<AIExampleSentence | null>(null);
     const [isFetchingAiExample, setIsFetchingAiExample] = useState(false);
-    
-    const [aiGeneratedImage, setAiGeneratedImage] = useState<string | null>(null);
     const [isFetchingAiImage, setIsFetchingAiImage] = useState(false);
+    const [isPronunciationMode, setIsPronunciationMode] = useState(false);
+    const [pronunciationTarget, setPronunciationTarget] = useState<PronunciationTarget>('term');
+    const [isListenMode, setIsListenMode] = useState(false);
+    const getAbortSignal = useAbortOnUnmount();
 
     const getWordStat = useCallback((wordId: string | number) => {
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
+
+    // A unit session, then the student's textbook, then their grade
+    const isWordInScope = useCallback((word: Word) => {
+        if (scopedUnit) return word.unitId === scopedUnit.id;
+        if (textbookScope) return !!word.unitId && textbookScope.unitIds.has(word.unitId);
+        return word.gradeLevel === userSettings.grade;
+    }, [scopedUnit, textbookScope, userSettings.grade]);
     
+    // Daily session: words due for review today (most overdue and hardest first), then new words to fill the goal.
+    // Quick review: previously studied words that are not due yet, hardest first.
+    // Mastered words still come back when they are due; they are only left out of new words and quick reviews.
     const selectWords = useCallback((count: number, forQuickReview: boolean) => {
         const today = getTodayDateString();
-        let eligibleWords = words.filter(w => {
-            const stat = getWordStat(w.id);
-            return w.gradeLevel === userSettings.grade && !stat.isMastered;
-        });
+        const scopedWords = words.filter(isWordInScope);
+        const eligibleWords = scopedWords.filter(w => !getWordStat(w.id).isMastered);
 
-        if (forQuickReview) {
-            eligibleWords = eligibleWords.filter(w => {
-                const stat = getWordStat(w.id);
-                return stat.lastReviewed && stat.lastReviewed.split('T')[0] !== today;
-            });
-        } else {
-             eligibleWords = eligibleWords.filter(w => {
-                const stat = getWordStat(w.id);
-                return !stat.lastReviewed || stat.lastReviewed.split('T')[0] !== today;
-             });
-        }
-        
-        eligibleWords.sort((a, b) => {
+        const byDifficulty = (a: Word, b: Word) => {
             const statA = getWordStat(a.id);
             const statB = getWordStat(b.id);
-            if (statB.quizIncorrectCount !== statA.quizIncorrectCount) return statB.quizIncorrectCount - statA.quizIncorrectCount;
-            const dateA = statA.lastReviewed ? new Date(statA.lastReviewed).getTime() : 0;
-            const dateB = statB.lastReviewed ? new Date(statB.lastReviewed).getTime() : 0;
-            if (dateA !== dateB) return dateA - dateB; // Older words first
-            if (a.isCustom && !b.isCustom) return -1; // Custom words first
-            if (!a.isCustom && b.isCustom) return 1;
-            return 0;
-        });
-        return shuffleArray(eligibleWords).slice(0, count);
-    }, [words, userSettings.grade, getWordStat]);
+            if (statA.easeFactor !== statB.easeFactor) return statA.easeFactor - statB.easeFactor;
+            return statB.quizIncorrectCount - statA.quizIncorrectCount;
+        };
+
+        if (forQuickReview) {
+            return eligibleWords
+                .filter(w => {
+                    const stat = getWordStat(w.id);
+                    return stat.lastReviewed && stat.lastReviewed.split('T')[0] !== today && !isWordDue(stat, today);
+                })
+                .sort(byDifficulty)
+                .slice(0, count);
+        }
+
+        const dueWords = scopedWords
+            .filter(w => isWordDue(getWordStat(w.id), today))
+            .sort((a, b) => {
+                const dueA = getWordStat(a.id).dueDate || '';
+                const dueB = getWordStat(b.id).dueDate || '';
+                if (dueA !== dueB) return dueA < dueB ? -1 : 1; // Most overdue first
+                return byDifficulty(a, b);
+            });
+        // Kept in a stable order so the saved session signature still matches after a reload
+        const newWords = eligibleWords
+            .filter(w => !getWordStat(w.id).dueDate)
+            .sort((a, b) => (a.isCustom === b.isCustom ? 0 : a.isCustom ? -1 : 1)); // Custom words first
+        return [...dueWords, ...newWords].slice(0, count);
+    }, [words, isWordInScope, getWordStat]);
 
     const resetWordSpecificStates = useCallback(() => {
         setIsFlipped(false);
-        setAiExample(null);
         setIsFetchingAiExample(false);
-        setAiGeneratedImage(null);
         setIsFetchingAiImage(false);
     }, []);
 
@@ -1273,7 +3942,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     },[]);
 
     useEffect(() => {
-        const dailyWordsToInitializeWith = selectWords(userSettings.dailyGoal, false);
+        const dailyWordsToInitializeWith = selectWords(sessionWordCount, false);
         const newWordSetSignature = dailyWordsToInitializeWith.map(w => w.id).join(',');
         let initialIndex = 0;
         
@@ -1312,17 +3981,26 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
             speak(dailyWordsToInitializeWith[initialIndex].term, undefined, userSettings.speechRate);
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps 
-    }, [words, userSettings.grade, userSettings.dailyGoal, userSettings.autoPlayAudio, userSettings.speechRate]); 
+    }, [words, isWordInScope, userSettings.dailyGoal, userSettings.autoPlayAudio, userSettings.speechRate]); 
 
 
     const currentWord = currentWordsSet[currentIndex];
+    const aiContent = useWordAiContent(currentWord?.id, addToast);
+
+    useEffect(() => {
+        if (isFlipped && currentWord && userSettings.readMeaningsAloud) speakWordMeaningAndExample(currentWord, userSettings.speechRate);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isFlipped]);
 
-    const handleNextWord = () => {
+    const handleNextWord = (quality: number) => {
         if (!currentWord) return;
-        onWordLearned(currentWord.id, isQuickReviewActive);
-        resetWordSpecificStates();
+        onWordLearned(currentWord.id, quality, isQuickReviewActive ? 'quickReview' : 'learn');
+        goToWord(currentIndex + 1, userSettings.autoPlayAudio);
+    };
 
-        const nextIndex = currentIndex + 1;
+    // Moves the session to another word, or ends it after the last one
+    const goToWord = (nextIndex: number, playAudio: boolean) => {
+        resetWordSpecificStates();
         if (nextIndex < currentWordsSet.length) {
             setCurrentIndex(nextIndex);
             if (!isQuickReviewActive) { 
@@ -1330,10 +4008,11 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
                     sessionStorage.setItem(SESSION_STORAGE_CURRENT_INDEX_KEY, String(nextIndex));
                 } catch (error) { console.warn("Error saving currentIndex to sessionStorage:", error); }
             }
-            if (userSettings.autoPlayAudio) {
+            if (playAudio) {
                 speak(currentWordsSet[nextIndex].term, undefined, userSettings.speechRate); 
             }
         } else {
+            setIsListenMode(false);
             if (isQuickReviewActive) {
                 setIsQuickReviewFinished(true);
             } else {
@@ -1372,7 +4051,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
 
     const handleRetryDailyLearning = useCallback(() => {
         clearLearningSessionState();
-        const dailyWords = selectWords(userSettings.dailyGoal, false);
+        const dailyWords = selectWords(sessionWordCount, false);
         const newWordSetSignature = dailyWords.map(w => w.id).join(',');
 
         setCurrentWordsSet(dailyWords);
@@ -1396,7 +4075,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
         } else {
             addToast("다시 학습할 단어가 없습니다. 모든 단어를 학습했거나 필터 조건에 맞는 단어가 없습니다.", "info");
         }
-    }, [clearLearningSessionState, selectWords, userSettings.dailyGoal, userSettings.autoPlayAudio, userSettings.speechRate, resetWordSpecificStates, addToast]);
+    }, [clearLearningSessionState, selectWords, sessionWordCount, userSettings.autoPlayAudio, userSettings.speechRate, resetWordSpecificStates, addToast]);
 
 
     const handleGenerateAiExample = async () => {
@@ -1404,10 +4083,10 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
             if(!process.env.API_KEY) addToast("AI 예문 생성을 위해 API 키를 설정해주세요.", "warning");
             return;
         }
+        const word = currentWord;
         setIsFetchingAiExample(true);
-        setAiExample(null);
-        const example = await generateDifferentExampleSentenceWithGemini(currentWord, userSettings.grade, addToast, setGlobalLoading);
-        setAiExample(example);
+        const example = await generateDifferentExampleSentenceWithGemini(word, userSettings.grade, addToast, setGlobalLoading, { signal: getAbortSignal() });
+        if (example) await aiContent.addExample(word.id, example);
         setIsFetchingAiExample(false);
     };
 
@@ -1416,11 +4095,11 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
             if(!process.env.API_KEY) addToast("AI 이미지 생성을 위해 API 키를 설정해주세요.", "warning");
             return;
         }
+        const word = currentWord;
         setIsFetchingAiImage(true);
-        setAiGeneratedImage(null);
-        const imageData = await generateImageForWordWithGemini(currentWord.term, addToast, setGlobalLoading);
+        const imageData = await generateImageForWordWithGemini(word.term, addToast, setGlobalLoading, { signal: getAbortSignal() });
         if(imageData) {
-            setAiGeneratedImage(`data:image/jpeg;base64,${imageData}`);
+            await aiContent.addImage(word.id, imageData);
         }
         setIsFetchingAiImage(false);
     };
@@ -1429,7 +4108,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     if (currentWordsSet.length === 0 && !isDailyGoalFinished && !isQuickReviewActive && !isQuickReviewFinished) { 
          return (
             <div className="p-8 text-center">
-                <h2 className="text-2xl font-bold text-slate-700 dark:text-slate-300 mb-4">{userSettings.grade} 수준에 오늘 학습할 단어가 없습니다.</h2>
+                <h2 className="text-2xl font-bold text-slate-700 dark:text-slate-300 mb-4">{scopedUnit ? `'${scopedUnit.title}' 단원에` : textbookScope ? `'${textbookScope.label}' 교과서에` : `${userSettings.grade} 수준에`} 오늘 학습할 단어가 없습니다.</h2>
                 <p className="text-slate-600 dark:text-slate-400 mb-6">모든 단어를 마스터했거나, 오늘 이미 모두 복습했습니다. '단어 관리'에서 단어를 추가하거나 다른 학년을 선택해보세요.</p>
                 <button
                     onClick={() => onNavigate('dashboard')}
@@ -1444,7 +4123,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     if (isDailyGoalFinished && !isQuickReviewActive && !isQuickReviewFinished) {
         const potentialReviewWords = words.filter(w => {
             const stat = getWordStat(w.id);
-            return w.gradeLevel === userSettings.grade && !stat.isMastered && stat.lastReviewed && stat.lastReviewed.split('T')[0] !== getTodayDateString();
+            return isWordInScope(w) && !stat.isMastered && stat.lastReviewed && stat.lastReviewed.split('T')[0] !== getTodayDateString() && !isWordDue(stat);
         }).length;
 
         return (
@@ -1518,11 +4197,33 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     }
 
 
+    const sessionTitle = `${isQuickReviewActive ? "빠른 복습" : scopedUnit ? scopedUnit.title : "단어 학습"} (${currentWordsSet.length > 0 ? currentIndex + 1 : 0} / ${currentWordsSet.length})`;
+
+    if (isListenMode) {
+        return (
+            <div className="p-4 sm:p-8 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6 sm:mb-8">{sessionTitle}</h1>
+                <ListenModePlayer
+                    words={currentWordsSet}
+                    currentIndex={currentIndex}
+                    speechRate={userSettings.speechRate}
+                    onWordListened={() => {
+                        onWordLearned(currentWord.id, LISTEN_MODE_REVIEW_QUALITY, 'listen');
+                        goToWord(currentIndex + 1, false);
+                    }}
+                    onSkip={toIndex => goToWord(toIndex, false)}
+                    onExit={() => setIsListenMode(false)}
+                />
+            </div>
+        );
+    }
+
     return (
         <div className="p-4 sm:p-8 flex flex-col items-center">
             <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6 sm:mb-8">
-                {isQuickReviewActive ? "빠른 복습" : "단어 학습"} ({currentWordsSet.length > 0 ? currentIndex + 1 : 0} / {currentWordsSet.length})
+                {sessionTitle}
             </h1>
+            {unitSummary && !isQuickReviewActive && <UnitSummaryNote summary={unitSummary} title={`${scopedUnit!.title} 요약`} className="w-full max-w-lg mb-6" />}
 
             <div className="w-full max-w-lg perspective">
                 <div 
@@ -1562,49 +4263,91 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-4">
                                 <button
                                     onClick={(e) => { e.stopPropagation(); handleGenerateAiExample(); }}
-                                    disabled={isFetchingAiExample || !process.env.API_KEY || isCurrentlyGeminiQuotaExhausted}
+                                    disabled={isFetchingAiExample || !isAiAvailable()}
                                     className="w-full py-2 px-3 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                                 >
                                     <span role="img" aria-label="ai" className="mr-2">✨</span>
-                                    {isFetchingAiExample ? 'AI 예문 생성 중...' : 'AI: 다른 예문'}
-                                    {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
+                                    {isFetchingAiExample ? 'AI 예문 생성 중...' : aiContent.examples.length > 0 ? 'AI: 예문 하나 더' : 'AI: 다른 예문'}
+                                    {!isAiAvailable() && <span className="text-xs ml-1">({getAiUnavailableReason()})</span>}
                                 </button>
                                  <button
                                     onClick={(e) => { e.stopPropagation(); handleGenerateAiImage(); }}
-                                    disabled={isFetchingAiImage || !process.env.API_KEY || isCurrentlyGeminiQuotaExhausted}
+                                    disabled={isFetchingAiImage || !isAiAvailable()}
                                     className="w-full py-2 px-3 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                                 >
                                     <span role="img" aria-label="ai image" className="mr-2">🎨</span>
-                                    {isFetchingAiImage ? 'AI 이미지 생성 중...' : 'AI: 이미지 생성'}
-                                    {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
+                                    {isFetchingAiImage ? 'AI 이미지 생성 중...' : aiContent.images.length > 0 ? 'AI: 이미지 다시 생성' : 'AI: 이미지 생성'}
+                                    {!isAiAvailable() && <span className="text-xs ml-1">({getAiUnavailableReason()})</span>}
                                 </button>
                             </div>
-                            {aiExample && (
-                                <div className="mt-3 pt-3 border-t border-slate-300 dark:border-slate-500 animate-fadeIn">
-                                    <p className="text-teal-600 dark:text-teal-300 font-semibold mb-1">✨ AI 추가 예문:</p>
-                                    <button onClick={(e) => { e.stopPropagation(); speak(aiExample.newExampleSentence, undefined, userSettings.speechRate); }} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-lg mr-1" aria-label="AI 예문 발음 듣기">🔊</button>
-                                    <span className="text-slate-700 dark:text-slate-200">{aiExample.newExampleSentence}</span>
-                                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5"><span className="font-semibold">해석:</span> {aiExample.newExampleSentenceMeaning}</p>
-                                </div>
-                            )}
                             {isFetchingAiImage && <p className="text-purple-600 dark:text-purple-400 text-center mt-3">AI 이미지 로딩 중...</p>}
-                            {aiGeneratedImage && (
-                                <div className="mt-3 pt-3 border-t border-slate-300 dark:border-slate-500 animate-fadeIn">
-                                    <p className="text-purple-600 dark:text-purple-300 font-semibold mb-1">🎨 AI 생성 이미지:</p>
-                                    <img src={aiGeneratedImage} alt={`AI generated image for ${currentWord.term}`} className="w-full max-w-xs mx-auto rounded-md shadow-lg" />
-                                </div>
-                            )}
+                            <WordAiContentPanel content={aiContent} term={currentWord.term} speechRate={userSettings.speechRate} />
                         </div>
                     </div>
                 </div>
             </div>
+
+            <div className="mt-4 w-full max-w-lg">
+                <div className="flex justify-center gap-2 mb-2">
+                    <button
+                        onClick={() => setIsListenMode(true)}
+                        className="py-1 px-3 text-sm rounded-full border border-slate-300 dark:border-slate-500 text-slate-600 dark:text-slate-300 hover:border-cyan-500"
+                    >
+                        🎧 듣기 모드
+                    </button>
+                    <button
+                        onClick={() => setIsPronunciationMode(prev => !prev)}
+                        className={`py-1 px-3 text-sm rounded-full border ${isPronunciationMode ? 'bg-cyan-500 border-cyan-500 text-white' : 'border-slate-300 dark:border-slate-500 text-slate-600 dark:text-slate-300 hover:border-cyan-500'}`}
+                        aria-pressed={isPronunciationMode}
+                    >
+                        🎤 발음 연습
+                    </button>
+                    {isPronunciationMode && (['term', 'sentence'] as const).map(target => (
+                        <button
+                            key={target}
+                            onClick={() => setPronunciationTarget(target)}
+                            className={`py-1 px-3 text-sm rounded-full ${pronunciationTarget === target ? 'bg-slate-600 text-white dark:bg-slate-300 dark:text-slate-800' : 'text-slate-500 dark:text-slate-400 hover:underline'}`}
+                            aria-pressed={pronunciationTarget === target}
+                        >
+                            {target === 'term' ? '단어' : '예문'}
+                        </button>
+                    ))}
+                </div>
+                {isPronunciationMode && (
+                    <PronunciationPracticePanel
+                        word={currentWord}
+                        target={pronunciationTarget}
+                        speechRate={userSettings.speechRate}
+                        onRoundComplete={result => onWordLearned(result.wordId, result.quality, 'pronunciation')}
+                    />
+                )}
+            </div>
             
-            <button
-                onClick={handleNextWord}
-                className="mt-6 w-full max-w-lg py-3 px-4 bg-green-500 hover:bg-green-600 text-white font-bold rounded-md shadow-lg transition-transform transform hover:scale-105"
-            >
-                {currentIndex === currentWordsSet.length - 1 ? (isQuickReviewActive ? '복습 완료' : '학습 완료') : '다음 단어'}
-            </button>
+            {isFlipped ? (
+                <div className="mt-6 w-full max-w-lg">
+                    <p className="text-center text-sm text-slate-500 dark:text-slate-400 mb-2">
+                        이 단어를 얼마나 잘 알고 있나요? {currentIndex === currentWordsSet.length - 1 ? (isQuickReviewActive ? '(복습 완료)' : '(학습 완료)') : ''}
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                        {LEARN_RATING_OPTIONS.map(option => (
+                            <button
+                                key={option.quality}
+                                onClick={() => handleNextWord(option.quality)}
+                                className={`py-3 px-2 text-white text-sm sm:text-base font-bold rounded-md shadow-lg transition-transform transform hover:scale-105 ${option.className}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <button
+                    onClick={() => setIsFlipped(true)}
+                    className="mt-6 w-full max-w-lg py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg transition-transform transform hover:scale-105"
+                >
+                    뜻 확인하기
+                </button>
+            )}
             <button 
                 onClick={handleExitLearning} 
                 className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:text-cyan-500 dark:hover:text-cyan-300"
@@ -1615,134 +4358,434 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
     );
 };
 
+// Builds four shuffled answer choices for a word: the correct value of `field` plus three distractors taken from the pool.
+// Shared by the regular quiz and the speed quiz, in both directions (term → meaning and meaning → term).
+const MULTIPLE_CHOICE_PLACEHOLDERS: Record<'meaning' | 'term', string[]> = {
+    meaning: ["관련 없음", "다른 뜻", "오답 예시"],
+    term: ["(none)", "(other)", "(unknown)"],
+};
+
+const buildMultipleChoiceOptions = (correctWord: Word, pool: Word[], field: 'meaning' | 'term'): string[] => {
+    const correctValue = correctWord[field];
+    const incorrectPool = shuffleArray(
+        pool
+            .filter(w => w.id !== correctWord.id)
+            .map(w => w[field])
+            .filter(value => value !== correctValue)
+    );
+    const uniqueIncorrectOptions = Array.from(new Set(incorrectPool)).slice(0, 3);
+
+    while (uniqueIncorrectOptions.length < 3 && pool.length > uniqueIncorrectOptions.length + 1) {
+        const fallbackOption = shuffleArray(pool.filter(w => w.id !== correctWord.id && !uniqueIncorrectOptions.includes(w[field]) && w[field] !== correctValue))[0]?.[field];
+        if (fallbackOption && !uniqueIncorrectOptions.includes(fallbackOption)) {
+            uniqueIncorrectOptions.push(fallbackOption);
+        } else {
+            break;
+        }
+    }
+
+    const placeholders = MULTIPLE_CHOICE_PLACEHOLDERS[field];
+    let placeholderIndex = 0;
+    while (uniqueIncorrectOptions.length < 3) {
+        const placeholder = placeholders[placeholderIndex++];
+        if (!uniqueIncorrectOptions.includes(placeholder) && placeholder !== correctValue) {
+            uniqueIncorrectOptions.push(placeholder);
+        }
+        if (placeholderIndex >= placeholders.length) break;
+    }
+
+    return shuffleArray([correctValue, ...uniqueIncorrectOptions.slice(0, 3)]);
+};
+
 // Quiz Screen Component
+export type QuizQuestionType = 'termToMeaning' | 'meaningToTerm' | 'listening' | 'spelling' | 'cloze';
+
+type QuizTypeResult = { correct: number; total: number };
+
+const QUIZ_QUESTION_TYPES: { type: QuizQuestionType; label: string; description: string }[] = [
+    { type: 'termToMeaning', label: '단어 → 뜻', description: '영어 단어를 보고 알맞은 뜻 고르기' },
+    { type: 'meaningToTerm', label: '뜻 → 단어', description: '뜻을 보고 알맞은 영어 단어 고르기' },
+    { type: 'listening', label: '듣기', description: '발음을 듣고 알맞은 단어 고르기' },
+    { type: 'spelling', label: '철자 쓰기', description: '뜻을 보고 영어 단어 직접 입력하기' },
+    { type: 'cloze', label: '예문 빈칸', description: '예문의 빈칸에 들어갈 단어 고르기' },
+];
+
+const getQuizQuestionTypeLabel = (type: QuizQuestionType) => QUIZ_QUESTION_TYPES.find(t => t.type === type)?.label || type;
+
+interface QuizQuestion {
+    word: Word;
+    type: QuizQuestionType;
+    options: string[]; // Empty for spelling questions
+    clozeSentence?: string;
+}
+
+const CLOZE_BLANK = '_____';
+
+// Blanks every occurrence of the word and its inflections (studies, ran, bigger...) in its example sentence, using
+// the extraction lemmatizer so that longer words which merely start with the term ("artist" for "art") stay.
+// Phrases and hyphenated terms are only blanked as written. Returns null when the sentence does not contain
+// the word, so the question can fall back to another type.
+const buildClozeSentence = (word: Word): string | null => {
+    const term = word.term.trim().toLowerCase();
+    if (!term || !word.exampleSentence) return null;
+    let clozeSentence: string;
+    if (/^[a-z]+$/.test(term)) {
+        const termAsDocument = new Set([term]);
+        clozeSentence = word.exampleSentence.replace(/[A-Za-z]+/g, token => {
+            const lowerToken = token.toLowerCase();
+            return lowerToken === term || lemmatizeWord(lowerToken, termAsDocument) === term ? CLOZE_BLANK : token;
+        });
+    } else {
+        const escapedTerm = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        clozeSentence = word.exampleSentence.replace(new RegExp(`\\b${escapedTerm}\\b`, 'gi'), CLOZE_BLANK);
+    }
+    return clozeSentence !== word.exampleSentence ? clozeSentence : null;
+};
+
+const normalizeSpellingAnswer = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getQuizQuestionAnswer = (question: QuizQuestion) => question.type === 'termToMeaning' ? question.word.meaning : question.word.term;
+
+const isQuizAnswerCorrect = (question: QuizQuestion, answer: string) => question.type === 'spelling'
+    ? normalizeSpellingAnswer(answer) === normalizeSpellingAnswer(question.word.term)
+    : answer === getQuizQuestionAnswer(question);
+
+// Spreads the selected types evenly over the quiz words in random order
+const buildQuizQuestions = (quizWords: Word[], types: QuizQuestionType[], pool: Word[]): QuizQuestion[] => {
+    const assignedTypes = shuffleArray(quizWords.map((_, index) => types[index % types.length]));
+    const clozeFallbackType = types.find(t => t !== 'cloze') || 'meaningToTerm';
+    return quizWords.map((word, index) => {
+        let type = assignedTypes[index];
+        const clozeSentence = type === 'cloze' ? buildClozeSentence(word) : null;
+        if (type === 'cloze' && !clozeSentence) type = clozeFallbackType;
+        return {
+            word,
+            type,
+            options: type === 'spelling' ? [] : buildMultipleChoiceOptions(word, pool, type === 'termToMeaning' ? 'meaning' : 'term'),
+            clozeSentence: clozeSentence || undefined,
+        };
+    });
+};
+
+type QuizMode = 'standard' | 'review';
+type QuizWordSource = 'all' | 'builtin' | 'custom';
+
+interface QuizSetupOptions {
+    mode: QuizMode;
+    questionCount: number;
+    grade: string; // 'all' or a grade level
+    unit: string; // 'all' or a Unit.id
+    textbookOnly: boolean; // Only words from the units of the student's textbook
+    source: QuizWordSource;
+    questionTypes: QuizQuestionType[];
+}
+
+const QUIZ_QUESTION_COUNT_OPTIONS = [5, 10, 15, 20, 30];
+
+// Draws up to `count` items without replacement; items with a larger weight are more likely to be picked early
+const weightedSample = <T,>(items: T[], getWeight: (item: T) => number, count: number): T[] => {
+    const remaining = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && remaining.length > 0) {
+        const totalWeight = remaining.reduce((sum, item) => sum + Math.max(0, getWeight(item)), 0);
+        let target = Math.random() * totalWeight;
+        let index = remaining.findIndex(item => (target -= Math.max(0, getWeight(item))) < 0);
+        if (index < 0) index = remaining.length - 1;
+        picked.push(...remaining.splice(index, 1));
+    }
+    return picked;
+};
+
 interface QuizScreenProps extends ScreenProps {
+    routeParams?: RouteParams<'quiz'>;
     words: Word[];
     wordStats: Record<string | number, WordStat>;
-    onQuizComplete: (score: number, totalQuestions: number, incorrectWords: Word[]) => void; 
+    units: Unit[];
+    unitSummaries: Record<string, string>;
+    onQuizComplete: (score: number, totalQuestions: number, incorrectWords: Word[], resultsByType?: Partial<Record<QuizQuestionType, QuizTypeResult>>) => void; 
     updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    onWordReviewed: (wordId: string | number, quality: number, source: ReviewSource) => void;
 }
 
-const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words, wordStats, onQuizComplete, updateWordStat, addToast, setGlobalLoading }) => {
-    const [quizWords, setQuizWords] = useState<Word[]>([]);
+const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, routeParams, words, wordStats, units, unitSummaries, onQuizComplete, updateWordStat, onWordReviewed, addToast, setGlobalLoading }) => {
+    const [isSettingUp, setIsSettingUp] = useState(true);
+    const textbookScope = useMemo(() => getTextbookScope(units, words, userSettings.textbook), [units, words, userSettings.textbook]);
+    const getRouteSetupOptions = useCallback((): QuizSetupOptions => {
+        const linkedUnit = findUnitByRouteParam(units, routeParams?.unitId);
+        // Missed words from every grade are worth reviewing, so the review quiz starts unscoped; so does a link to a unit
+        const isUnscoped = routeParams?.mode === 'review' || !!linkedUnit;
+        return {
+            mode: routeParams?.mode || 'standard',
+            questionCount: 10,
+            grade: isUnscoped ? 'all' : userSettings.grade,
+            unit: linkedUnit?.id ?? 'all',
+            textbookOnly: !!textbookScope && !isUnscoped,
+            source: 'all',
+            questionTypes: routeParams?.questionTypes?.length ? routeParams.questionTypes : ['termToMeaning'],
+        };
+    }, [units, routeParams, userSettings.grade, textbookScope]);
+    const [setupOptions, setSetupOptions] = useState<QuizSetupOptions>(getRouteSetupOptions);
+    const setupOptionsRef = useRef(setupOptions);
+    setupOptionsRef.current = setupOptions;
+    const [questions, setQuestions] = useState<QuizQuestion[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+    const [spellingInput, setSpellingInput] = useState('');
     const [score, setScore] = useState(0);
     const [showResult, setShowResult] = useState(false);
-    const [options, setOptions] = useState<string[]>([]);
     const [isFinished, setIsFinished] = useState(false);
     const [incorrectlyAnsweredWordsDetails, setIncorrectlyAnsweredWordsDetails] = useState<Word[]>([]);
+    const [resultsByType, setResultsByType] = useState<Partial<Record<QuizQuestionType, QuizTypeResult>>>({});
     
     const [showReviewModal, setShowReviewModal] = useState(false);
     const [reviewWord, setReviewWord] = useState<Word | null>(null);
-    const [aiReviewExample, setAiReviewExample] = useState<AIExampleSentence | null>(null);
+    const [aiReviewExampleFailed, setAiReviewExampleFailed] = useState(false);
     const [isFetchingAiReviewExample, setIsFetchingAiReviewExample] = useState(false);
+    const reviewAiContent = useWordAiContent(reviewWord?.id, addToast);
+    const getAbortSignal = useAbortOnUnmount();
 
     const getWordStat = useCallback((wordId: string | number) => {
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
 
-    const generateMultipleChoiceOptions = useCallback((correctWord: Word) => {
-        const gradeWords = words.filter(w => w.gradeLevel === userSettings.grade);
-        let incorrectMeaningPool = shuffleArray(
-            gradeWords
-                .filter(w => w.id !== correctWord.id) 
-                .map(w => w.meaning)
-                .filter(meaning => meaning !== correctWord.meaning) 
-        );
-        const uniqueIncorrectOptions = Array.from(new Set(incorrectMeaningPool)).slice(0, 3);
-        
-        while (uniqueIncorrectOptions.length < 3 && gradeWords.length > uniqueIncorrectOptions.length + 1) {
-            const fallbackOption = shuffleArray(gradeWords.filter(w => w.id !== correctWord.id && !uniqueIncorrectOptions.includes(w.meaning) && w.meaning !== correctWord.meaning))[0]?.meaning;
-            if (fallbackOption && !uniqueIncorrectOptions.includes(fallbackOption)) {
-                uniqueIncorrectOptions.push(fallbackOption);
-            } else { 
-                break;
-            }
-        }
-        
-        const placeholders = ["관련 없음", "다른 뜻", "오답 예시"];
-        let placeholderIndex = 0;
-        while (uniqueIncorrectOptions.length < 3) {
-            const placeholder = placeholders[placeholderIndex++];
-            if(!uniqueIncorrectOptions.includes(placeholder) && placeholder !== correctWord.meaning) {
-                 uniqueIncorrectOptions.push(placeholder);
-            }
-            if (placeholderIndex >= placeholders.length) break; 
-        }
+    const updateSetupOptions = (updates: Partial<QuizSetupOptions>) => setSetupOptions(prev => ({ ...prev, ...updates }));
+
+    // Keep the address bar in step with the setup so a chosen quiz can be bookmarked
+    useEffect(() => {
+        onNavigate('quiz', {
+            mode: setupOptions.mode,
+            unitId: setupOptions.unit !== 'all' ? setupOptions.unit : undefined,
+            questionTypes: setupOptions.questionTypes,
+        }, { replace: true });
+    }, [setupOptions.mode, setupOptions.unit, setupOptions.questionTypes, onNavigate]);
+
+    // The screen stays mounted when the route changes under it (back/forward, an edited address, another quiz link),
+    // so a route that no longer matches the setup starts a new setup from it. The setup is read through a ref:
+    // a setup change reaches the route through the effect above and must not be compared with the old route.
+    useEffect(() => {
+        const currentSetup = setupOptionsRef.current;
+        const routeSetup = getRouteSetupOptions();
+        const isSameQuiz = routeSetup.mode === currentSetup.mode
+            && routeSetup.unit === currentSetup.unit
+            // A route without question types is what an emptied selection writes
+            && (!routeParams?.questionTypes?.length || routeSetup.questionTypes.join(',') === currentSetup.questionTypes.join(','));
+        if (isSameQuiz) return;
+        setSetupOptions(routeSetup);
+        setIsSettingUp(true);
+    }, [getRouteSetupOptions, routeParams]);
+
+    const gradeWords = useMemo(() => {
+        const scopedWords = setupOptions.textbookOnly && textbookScope
+            ? words.filter(w => !!w.unitId && textbookScope.unitIds.has(w.unitId))
+            : words;
+        return setupOptions.grade === 'all' ? scopedWords : scopedWords.filter(w => w.gradeLevel === setupOptions.grade);
+    }, [words, setupOptions.grade, setupOptions.textbookOnly, textbookScope]);
+
+    const availableUnits = useMemo(
+        () => sortUnits(units).filter(unit => gradeWords.some(word => word.unitId === unit.id)),
+        [units, gradeWords]
+    );
 
-        const finalGeneratedOptions = shuffleArray([correctWord.meaning, ...uniqueIncorrectOptions.slice(0,3)]);
-        setOptions(finalGeneratedOptions);
-    }, [words, userSettings.grade]);
+    const candidateWords = useMemo(() => gradeWords.filter(word => {
+        if (setupOptions.unit !== 'all' && word.unitId !== setupOptions.unit) return false;
+        if (setupOptions.source === 'custom' && !word.isCustom) return false;
+        if (setupOptions.source === 'builtin' && word.isCustom) return false;
+        if (setupOptions.mode === 'review') {
+            const stat = getWordStat(word.id);
+            return stat.quizIncorrectCount > 0 && !stat.isMastered;
+        }
+        return true;
+    }), [gradeWords, setupOptions.unit, setupOptions.source, setupOptions.mode, getWordStat]);
 
-    const setupQuestion = useCallback((word: Word) => {
+    const setupQuestion = useCallback((question: QuizQuestion) => {
         setSelectedAnswer(null);
+        setSpellingInput('');
         setShowResult(false);
-        generateMultipleChoiceOptions(word);
-        if(userSettings.autoPlayAudio) speak(word.term, undefined, userSettings.speechRate);
-    }, [generateMultipleChoiceOptions, userSettings.speechRate, userSettings.autoPlayAudio]);
+        // Only play the term where hearing it does not give the answer away
+        if (question.type === 'listening' || (question.type === 'termToMeaning' && userSettings.autoPlayAudio)) {
+            speak(question.word.term, undefined, userSettings.speechRate);
+        }
+    }, [userSettings.speechRate, userSettings.autoPlayAudio]);
 
     const initializeQuiz = useCallback(() => {
-        const gradeFilteredWords = words.filter(w => w.gradeLevel === userSettings.grade);
-        
-        if (gradeFilteredWords.length < 1) {
-            setQuizWords([]);
-            setIsFinished(true);
-            setCurrentQuestionIndex(0); 
-            setScore(0);
-            if (gradeFilteredWords.length === 0) {
-                 addToast(`현재 학년에 퀴즈를 위한 단어가 부족합니다. (최소 1개 필요)`, "warning");
-            }
+        if (candidateWords.length < 1) {
+            addToast(setupOptions.mode === 'review' ? "선택한 범위에 복습할 오답 단어가 없습니다." : "선택한 범위에 퀴즈를 위한 단어가 없습니다. (최소 1개 필요)", "warning");
+            return;
+        }
+        if (setupOptions.questionTypes.length === 0) {
+            addToast("문제 유형을 하나 이상 선택해주세요.", "warning");
             return;
         }
         
-        const actualNumQuizQuestions = Math.min(10, gradeFilteredWords.length);
-        const selectedQuizWords = shuffleArray(gradeFilteredWords).slice(0, actualNumQuizQuestions);
+        const actualNumQuizQuestions = Math.min(setupOptions.questionCount, candidateWords.length);
+        const selectedQuizWords = setupOptions.mode === 'review'
+            ? weightedSample(candidateWords, word => getWordStat(word.id).quizIncorrectCount, actualNumQuizQuestions)
+            : shuffleArray(candidateWords).slice(0, actualNumQuizQuestions);
+        const newQuestions = buildQuizQuestions(selectedQuizWords, setupOptions.questionTypes, gradeWords);
         
-        setQuizWords(selectedQuizWords);
+        setQuestions(newQuestions);
         setCurrentQuestionIndex(0);
         setScore(0);
         setIsFinished(false);
+        setIsSettingUp(false);
         setIncorrectlyAnsweredWordsDetails([]);
+        setResultsByType({});
+        setupQuestion(newQuestions[0]);
+    }, [candidateWords, gradeWords, setupOptions, getWordStat, setupQuestion, addToast]); 
 
-        if (selectedQuizWords.length > 0 && selectedQuizWords[0]) { 
-            setupQuestion(selectedQuizWords[0]);
-        } else { 
-            setIsFinished(true);
-            addToast(`퀴즈를 시작할 단어가 없습니다.`, "info");
-        }
-    }, [words, userSettings.grade, setupQuestion, addToast]); 
-
-
-    useEffect(() => {
-        initializeQuiz();
-    }, [initializeQuiz]); 
+    const toggleQuestionType = (type: QuizQuestionType) => {
+        setSetupOptions(prev => ({
+            ...prev,
+            questionTypes: prev.questionTypes.includes(type) ? prev.questionTypes.filter(t => t !== type) : [...prev.questionTypes, type],
+        }));
+    };
 
+    const generateReviewExample = async (word: Word) => {
+        setIsFetchingAiReviewExample(true);
+        setAiReviewExampleFailed(false);
+        const example = await generateDifferentExampleSentenceWithGemini(word, userSettings.grade, addToast, setGlobalLoading, { signal: getAbortSignal() });
+        if (example) {
+            await reviewAiContent.addExample(word.id, example);
+        } else {
+            setAiReviewExampleFailed(true);
+        }
+        setIsFetchingAiReviewExample(false);
+    };
 
      const handleOpenReviewModal = async (word: Word) => {
         setReviewWord(word);
         setShowReviewModal(true);
-        setAiReviewExample(null);
-        if (process.env.API_KEY) {
-            setIsFetchingAiReviewExample(true);
-            const example = await generateDifferentExampleSentenceWithGemini(word, userSettings.grade, addToast, setGlobalLoading);
-            setAiReviewExample(example);
-            setIsFetchingAiReviewExample(false);
+        setAiReviewExampleFailed(false);
+        // Examples cached on earlier visits show right away; only ask the AI when there are none yet
+        const cachedContent = await loadAiContentForWord(word.id).catch(() => [] as AiContentEntry[]);
+        if (isAiAvailable() && !cachedContent.some(entry => entry.kind === 'example')) {
+            await generateReviewExample(word);
         }
     };
 
-    if (quizWords.length === 0 && !isFinished) { 
-        return <div className="p-8 text-center text-xl text-slate-600 dark:text-slate-300">퀴즈를 위한 단어를 준비 중이거나, 현재 학년에 단어가 부족합니다. (최소 1개 필요)</div>;
+    if (isSettingUp) {
+        return (
+            <div className="p-4 sm:p-8 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2">퀴즈 설정</h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">출제 범위와 문제 유형을 선택하세요. 선택한 유형이 골고루 섞여서 출제됩니다.</p>
+                <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        {([['standard', '📝 일반 퀴즈'], ['review', '🔁 오답 복습']] as [QuizMode, string][]).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => updateSetupOptions({ mode })}
+                                className={`py-2 rounded-lg font-semibold ${setupOptions.mode === mode ? 'bg-cyan-500 text-white' : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-500'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {setupOptions.mode === 'review' && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">퀴즈에서 틀린 적이 있고 아직 마스터하지 않은 단어만 출제됩니다. 많이 틀린 단어일수록 자주 나옵니다.</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-sm text-slate-700 dark:text-slate-300">
+                            학년
+                            <select value={setupOptions.grade} onChange={e => updateSetupOptions({ grade: e.target.value, unit: 'all' })} className="w-full p-2 mt-1 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                                <option value="all">전체 학년</option>
+                                <option value="middle1">중학교 1학년</option>
+                                <option value="middle2">중학교 2학년</option>
+                                <option value="middle3">중학교 3학년</option>
+                            </select>
+                        </label>
+                        <label className="text-sm text-slate-700 dark:text-slate-300">
+                            단원
+                            <select value={setupOptions.unit} onChange={e => updateSetupOptions({ unit: e.target.value })} className="w-full p-2 mt-1 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                                <option value="all">전체 단원</option>
+                                {availableUnits.map(unit => <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-sm text-slate-700 dark:text-slate-300">
+                            단어 종류
+                            <select value={setupOptions.source} onChange={e => updateSetupOptions({ source: e.target.value as QuizWordSource })} className="w-full p-2 mt-1 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                                <option value="all">전체 단어</option>
+                                <option value="builtin">기본 단어만</option>
+                                <option value="custom">내 단어만</option>
+                            </select>
+                        </label>
+                        <label className="text-sm text-slate-700 dark:text-slate-300">
+                            문제 수
+                            <select value={setupOptions.questionCount} onChange={e => updateSetupOptions({ questionCount: Number(e.target.value) })} className="w-full p-2 mt-1 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                                {QUIZ_QUESTION_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}문제</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    {textbookScope && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                            <input type="checkbox" checked={setupOptions.textbookOnly} onChange={e => updateSetupOptions({ textbookOnly: e.target.checked, unit: 'all' })} className="accent-cyan-500" />
+                            '{textbookScope.label}' 교과서 단원에서만 출제
+                        </label>
+                    )}
+                    {setupOptions.unit !== 'all' && unitSummaries[setupOptions.unit] && (
+                        <UnitSummaryNote summary={unitSummaries[setupOptions.unit]} title={`${units.find(unit => unit.id === setupOptions.unit)?.title ?? '단원'} 요약`} />
+                    )}
+                    <p className="text-sm text-slate-600 dark:text-slate-300">
+                        출제 가능한 단어: <span className="font-semibold">{candidateWords.length}</span>개
+                        {candidateWords.length > 0 && candidateWords.length < setupOptions.questionCount && <span className="text-xs text-slate-500 dark:text-slate-400"> (단어 수만큼만 출제됩니다)</span>}
+                    </p>
+                    <h2 className="text-sm font-semibold text-slate-700 dark:text-slate-300 pt-2">문제 유형</h2>
+                    {QUIZ_QUESTION_TYPES.map(({ type, label, description }) => (
+                        <label key={type} className="flex items-start p-3 bg-slate-200 dark:bg-slate-600 rounded-lg cursor-pointer hover:bg-slate-300 dark:hover:bg-slate-500">
+                            <input
+                                type="checkbox"
+                                checked={setupOptions.questionTypes.includes(type)}
+                                onChange={() => toggleQuestionType(type)}
+                                className="mt-1 mr-3 h-4 w-4 accent-cyan-500"
+                            />
+                            <span>
+                                <span className="block font-semibold text-slate-800 dark:text-white">{label}</span>
+                                <span className="block text-xs text-slate-500 dark:text-slate-300">{description}</span>
+                            </span>
+                        </label>
+                    ))}
+                    <button
+                        onClick={initializeQuiz}
+                        disabled={setupOptions.questionTypes.length === 0 || candidateWords.length < 1}
+                        className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {setupOptions.mode === 'review' ? '오답 복습 시작' : '퀴즈 시작'}
+                    </button>
+                    {candidateWords.length < 1 && (
+                        <p className="text-sm text-red-500 text-center">
+                            {setupOptions.mode === 'review' ? '선택한 범위에 복습할 오답 단어가 없습니다.' : '선택한 범위에 퀴즈를 위한 단어가 없습니다. (최소 1개 필요)'}
+                        </p>
+                    )}
+                </div>
+                <button 
+                    onClick={() => onNavigate('dashboard')} 
+                    className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:text-cyan-500 dark:hover:text-cyan-300"
+                >
+                    대시보드로
+                </button>
+            </div>
+        );
     }
     
     if (isFinished) { 
         return (
             <div className="p-8 text-center">
                 <h2 className="text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">퀴즈 완료! 🏆</h2>
-                {quizWords.length > 0 ? (
-                    <p className="text-xl text-slate-700 dark:text-slate-200 mb-6">총 {quizWords.length}문제 중 <span className="text-green-500 font-bold">{score}</span>문제를 맞혔습니다.</p>
-                ) : (
-                    <p className="text-xl text-slate-700 dark:text-slate-200 mb-6">퀴즈를 진행할 단어가 없습니다. '단어 관리'에서 단어를 추가하거나 다른 학년을 선택해보세요. (최소 1개 필요)</p>
+                <p className="text-xl text-slate-700 dark:text-slate-200 mb-6">총 {questions.length}문제 중 <span className="text-green-500 font-bold">{score}</span>문제를 맞혔습니다.</p>
+                {Object.keys(resultsByType).length > 1 && (
+                    <div className="mb-6 bg-slate-100 dark:bg-slate-700 p-4 rounded-lg max-w-md mx-auto">
+                        <h3 className="text-lg font-semibold text-cyan-700 dark:text-cyan-300 mb-2">유형별 결과</h3>
+                        <ul className="space-y-1 text-left">
+                            {QUIZ_QUESTION_TYPES.filter(({ type }) => resultsByType[type]).map(({ type, label }) => {
+                                const result = resultsByType[type]!;
+                                return (
+                                    <li key={type} className="flex justify-between p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md text-slate-700 dark:text-slate-300">
+                                        <span>{label}</span>
+                                        <span className="font-semibold">{result.correct} / {result.total} ({Math.round(result.correct / result.total * 100)}%)</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
                 )}
                 {incorrectlyAnsweredWordsDetails.length > 0 && (
                     <div className="mb-6 bg-slate-100 dark:bg-slate-700 p-4 rounded-lg">
@@ -1755,9 +4798,9 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                                         onClick={() => handleOpenReviewModal(word)}
                                         className="text-teal-600 dark:text-teal-400 hover:text-teal-500 dark:hover:text-teal-300 text-sm flex items-center px-2 py-1 rounded hover:bg-slate-300 dark:hover:bg-slate-500 disabled:opacity-50"
                                         aria-label={`${word.term} AI 복습`}
-                                        disabled={!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted || isFetchingAiReviewExample}
+                                        disabled={!isAiAvailable() || isFetchingAiReviewExample}
                                     >
-                                        ✨ AI 복습 {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
+                                        ✨ AI 복습 {!isAiAvailable() && <span className="text-xs ml-1">({getAiUnavailableReason()})</span>}
                                     </button>
                                 </li>
                             ))}
@@ -1768,10 +4811,16 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                     <button
                         onClick={initializeQuiz} 
                         className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md disabled:opacity-60"
-                        disabled={words.filter(w => w.gradeLevel === userSettings.grade).length < 1}
+                        disabled={candidateWords.length < 1}
                     >
                         다시 풀기
                     </button>
+                    <button
+                        onClick={() => setIsSettingUp(true)}
+                        className="py-3 px-6 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
+                    >
+                        설정 변경
+                    </button>
                     <button
                         onClick={() => onNavigate('dashboard')}
                         className="py-3 px-6 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
@@ -1781,7 +4830,7 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                 </div>
                  {showReviewModal && reviewWord && (
                     <div role="dialog" aria-modal="true" aria-labelledby="ai-review-modal-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-50 animate-fadeIn">
-                        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-lg text-left">
+                        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-lg text-left max-h-[90vh] overflow-y-auto custom-scrollbar">
                             <h3 id="ai-review-modal-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 mb-3">✨ AI 단어 복습: {reviewWord.term}</h3>
                             <p className="text-slate-700 dark:text-slate-300"><span className="font-semibold">뜻:</span> {reviewWord.meaning} ({reviewWord.partOfSpeech})</p>
                             {reviewWord.pronunciation && <p className="text-slate-500 dark:text-slate-400 text-sm">[{reviewWord.pronunciation}]</p>}
@@ -1789,20 +4838,23 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                             <p className="text-slate-700 dark:text-slate-300 mb-1"><span className="font-semibold">기존 예문:</span> {reviewWord.exampleSentence}</p>
                             <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{reviewWord.exampleSentenceMeaning}</p>
                             
-                            {isFetchingAiReviewExample && <p className="text-teal-500 dark:text-teal-400">AI 추가 예문 생성 중...</p>}
-                            {aiReviewExample && (
-                                <div className="mt-2 pt-2 border-t border-slate-200 dark:border-slate-600 animate-fadeIn">
-                                    <p className="text-teal-600 dark:text-teal-300 font-semibold mb-1">✨ AI 추가 예문:</p>
-                                     <button onClick={() => speak(aiReviewExample.newExampleSentence, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-lg mr-1" aria-label="AI 예문 발음 듣기">🔊</button>
-                                    <span className="text-slate-700 dark:text-slate-200">{aiReviewExample.newExampleSentence}</span>
-                                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">{aiReviewExample.newExampleSentenceMeaning}</p>
-                                </div>
-                            )}
-                            {!isFetchingAiReviewExample && !aiReviewExample && process.env.API_KEY && !isCurrentlyGeminiQuotaExhausted &&
+                            <WordAiContentPanel content={reviewAiContent} term={reviewWord.term} speechRate={userSettings.speechRate} />
+                            {isFetchingAiReviewExample && <p className="text-teal-500 dark:text-teal-400 mt-2">AI 추가 예문 생성 중...</p>}
+                            {!isFetchingAiReviewExample && aiReviewExampleFailed && isAiAvailable() &&
                                 <p className="text-red-500 text-sm">AI 추가 예문 생성에 실패했습니다.</p>
                             }
+                            {isAiAvailable() && (
+                                <button
+                                    onClick={() => generateReviewExample(reviewWord)}
+                                    disabled={isFetchingAiReviewExample}
+                                    className="mt-3 w-full py-2 bg-teal-500 hover:bg-teal-600 text-white text-sm font-semibold rounded disabled:opacity-50"
+                                >
+                                    ✨ AI 예문 하나 더 만들기
+                                </button>
+                            )}
                              {!process.env.API_KEY && <p className="text-yellow-500 text-sm">AI 예문 생성은 API 키가 필요합니다.</p>}
-                             {isCurrentlyGeminiQuotaExhausted && <p className="text-yellow-500 text-sm">Gemini API 할당량이 소진되어 AI 예문 생성을 할 수 없습니다.</p>}
+                             {process.env.API_KEY && isCurrentlyOffline && <p className="text-yellow-500 text-sm">오프라인 상태라 AI 예문 생성을 할 수 없습니다.</p>}
+                             {process.env.API_KEY && !isCurrentlyOffline && isCurrentlyGeminiQuotaExhausted && <p className="text-yellow-500 text-sm">Gemini API 할당량이 소진되어 AI 예문 생성을 할 수 없습니다.</p>}
                             <button onClick={() => setShowReviewModal(false)} className="mt-4 w-full py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded">닫기</button>
                         </div>
                     </div>
@@ -1811,18 +4863,25 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
         );
     }
     
-    const currentWord = quizWords[currentQuestionIndex];
-    if (!currentWord) { 
+    const currentQuestion = questions[currentQuestionIndex];
+    if (!currentQuestion) { 
         return <div className="p-8 text-center text-slate-600 dark:text-slate-300">퀴즈 단어 로딩 중... 또는 더 이상 문제가 없습니다. 대시보드로 돌아가세요.</div>;
     }
+    const currentWord = currentQuestion.word;
+    const correctAnswer = getQuizQuestionAnswer(currentQuestion);
+    const isSelectedAnswerCorrect = selectedAnswer !== null && isQuizAnswerCorrect(currentQuestion, selectedAnswer);
 
-    const handleOptionClick = (option: string) => {
+    const submitAnswer = (answer: string) => {
         if (showResult) return; 
 
-        setSelectedAnswer(option);
+        setSelectedAnswer(answer);
         setShowResult(true); 
 
-        const isCorrect = option === currentWord.meaning;
+        const isCorrect = isQuizAnswerCorrect(currentQuestion, answer);
+        setResultsByType(prev => {
+            const typeResult = prev[currentQuestion.type] || { correct: 0, total: 0 };
+            return { ...prev, [currentQuestion.type]: { correct: typeResult.correct + (isCorrect ? 1 : 0), total: typeResult.total + 1 } };
+        });
 
         if (isCorrect) {
             setScore(prevScore => prevScore + 1);
@@ -1831,49 +4890,120 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
             const currentStat = getWordStat(currentWord.id);
             updateWordStat(currentWord.id, { quizIncorrectCount: currentStat.quizIncorrectCount + 1 });
         }
+        // Recalling the spelling unaided is a stronger signal than recognising it among choices
+        onWordReviewed(currentWord.id, isCorrect ? (currentQuestion.type === 'spelling' ? 5 : 4) : 1, 'quiz');
+    };
+
+    const handleSpellingSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!spellingInput.trim()) return;
+        submitAnswer(spellingInput);
     };
-    
 
     const handleNextQuestion = () => {
-        if (currentQuestionIndex < quizWords.length - 1) {
+        if (currentQuestionIndex < questions.length - 1) {
             const nextIdx = currentQuestionIndex + 1;
             setCurrentQuestionIndex(nextIdx);
-            if(quizWords[nextIdx]) { 
-                setupQuestion(quizWords[nextIdx]);
-            } else { 
-                onQuizComplete(score, quizWords.length, incorrectlyAnsweredWordsDetails);
-                setIsFinished(true);
-            }
+            setupQuestion(questions[nextIdx]);
         } else {
-            onQuizComplete(score, quizWords.length, incorrectlyAnsweredWordsDetails);
+            onQuizComplete(score, questions.length, incorrectlyAnsweredWordsDetails, resultsByType);
             setIsFinished(true);
         }
     };
-    
-    return (
-        <div className="p-4 sm:p-8 flex flex-col items-center">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">퀴즈 ({quizWords.length > 0 ? currentQuestionIndex + 1 : 0} / {quizWords.length})</h1>
-            <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8">
-                <>
-                    <div className="text-center mb-6">
+
+    const renderPrompt = () => {
+        const speakButton = (
+            <button onClick={() => speak(currentWord.term, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-2xl" aria-label="단어 발음 듣기">
+                🔊
+            </button>
+        );
+        switch (currentQuestion.type) {
+            case 'termToMeaning':
+                return (
+                    <>
                         <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">다음 단어의 뜻은 무엇일까요?</p>
                         <div className="flex items-center justify-center">
                             <h2 className="text-4xl sm:text-5xl font-bold text-slate-800 dark:text-white mr-2">{currentWord.term}</h2>
-                            <button onClick={() => speak(currentWord.term, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-2xl" aria-label="단어 발음 듣기">
-                                🔊
-                            </button>
+                            {speakButton}
                         </div>
                         {currentWord.pronunciation && <p className="text-slate-500 dark:text-slate-400 text-lg">[{currentWord.pronunciation}]</p>}
-                    </div>
+                    </>
+                );
+            case 'meaningToTerm':
+            case 'spelling':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">{currentQuestion.type === 'spelling' ? '다음 뜻의 영어 단어를 입력하세요.' : '다음 뜻의 영어 단어는 무엇일까요?'}</p>
+                        <h2 className="text-3xl sm:text-4xl font-bold text-slate-800 dark:text-white">{currentWord.meaning}</h2>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">({currentWord.partOfSpeech})</p>
+                        {showResult && <div className="mt-2">{speakButton}</div>}
+                    </>
+                );
+            case 'listening':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-3">발음을 듣고 알맞은 단어를 고르세요.</p>
+                        <button
+                            onClick={() => speak(currentWord.term, undefined, userSettings.speechRate)}
+                            className="px-6 py-4 bg-cyan-500 hover:bg-cyan-600 text-white text-3xl rounded-full shadow-lg"
+                            aria-label="다시 듣기"
+                        >
+                            🔊
+                        </button>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">버튼을 눌러 다시 들을 수 있습니다.</p>
+                    </>
+                );
+            case 'cloze':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-2">빈칸에 들어갈 알맞은 단어를 고르세요.</p>
+                        <p className="text-xl sm:text-2xl font-semibold text-slate-800 dark:text-white">{showResult ? currentWord.exampleSentence : currentQuestion.clozeSentence}</p>
+                        {currentWord.exampleSentenceMeaning && <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{currentWord.exampleSentenceMeaning}</p>}
+                    </>
+                );
+        }
+    };
+    
+    return (
+        <div className="p-4 sm:p-8 flex flex-col items-center">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-1">퀴즈 ({currentQuestionIndex + 1} / {questions.length})</h1>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-5">{getQuizQuestionTypeLabel(currentQuestion.type)}</p>
+            <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8">
+                <div className="text-center mb-6">
+                    {renderPrompt()}
+                </div>
+                {currentQuestion.type === 'spelling' ? (
+                    <form onSubmit={handleSpellingSubmit} className="mb-6">
+                        <input
+                            type="text"
+                            value={spellingInput}
+                            onChange={e => setSpellingInput(e.target.value)}
+                            disabled={showResult}
+                            autoFocus
+                            autoComplete="off"
+                            autoCapitalize="off"
+                            spellCheck={false}
+                            placeholder="영어 단어 입력"
+                            className={`w-full p-3 text-center text-xl rounded-lg border-2 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none
+                                ${showResult ? (isSelectedAnswerCorrect ? 'border-green-500' : 'border-red-500') : 'border-slate-300 dark:border-slate-500 focus:border-cyan-500'}`}
+                            aria-label="철자 입력"
+                        />
+                        {!showResult && (
+                            <button type="submit" disabled={!spellingInput.trim()} className="mt-3 w-full py-2 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-md disabled:opacity-50">
+                                정답 확인
+                            </button>
+                        )}
+                    </form>
+                ) : (
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-6">
-                        {options.map((option, index) => (
+                        {currentQuestion.options.map((option, index) => (
                             <button
                                 key={option + '-' + index} 
-                                onClick={() => handleOptionClick(option)}
+                                onClick={() => submitAnswer(option)}
                                 disabled={showResult}
                                 className={`w-full p-3 sm:p-4 text-left rounded-lg shadow-md transition-all duration-150 ease-in-out
                                     ${showResult
-                                        ? option === currentWord.meaning
+                                        ? option === correctAnswer
                                             ? 'bg-green-500 text-white ring-2 ring-green-300 scale-105'
                                             : option === selectedAnswer
                                                 ? 'bg-red-500 text-white ring-2 ring-red-300' 
@@ -1886,13 +5016,13 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                             </button>
                         ))}
                     </div>
-                </>
+                )}
                 
                 {showResult && (
-                    <div className={`text-center p-3 mb-4 rounded-md text-white ${ selectedAnswer === currentWord.meaning ? 'bg-green-600' : 'bg-red-600'} animate-fadeIn`}>
-                        {selectedAnswer === currentWord.meaning 
+                    <div className={`text-center p-3 mb-4 rounded-md text-white ${isSelectedAnswerCorrect ? 'bg-green-600' : 'bg-red-600'} animate-fadeIn`}>
+                        {isSelectedAnswerCorrect 
                             ? '정답입니다! 🎉' 
-                            : `오답입니다. 정답은 '${currentWord.meaning}' 입니다.`}
+                            : `오답입니다. 정답은 '${correctAnswer}' 입니다.`}
                     </div>
                 )}
 
@@ -1901,7 +5031,7 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                     disabled={!showResult}
                     className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                    {currentQuestionIndex === quizWords.length - 1 ? '결과 보기' : '다음 문제'}
+                    {currentQuestionIndex === questions.length - 1 ? '결과 보기' : '다음 문제'}
                 </button>
             </div>
              <button 
@@ -1922,6 +5052,7 @@ const EditWordModal = React.memo(({
     onCancel, 
     userGrade, 
     isCustomWordOnly, 
+    units = [],
     addToast, 
     setGlobalLoading 
 }: { 
@@ -1930,6 +5061,7 @@ const EditWordModal = React.memo(({
     onCancel: () => void, 
     userGrade: string, 
     isCustomWordOnly?: boolean, 
+    units?: Unit[],
     addToast: (message: string, type: ToastMessage['type']) => void, 
     setGlobalLoading: (loading: boolean) => void 
 }) => {
@@ -1938,6 +5070,7 @@ const EditWordModal = React.memo(({
     const [isFetchingModalAIImage, setIsFetchingModalAIImage] = useState(false);
     const [modalAiImage, setModalAiImage] = useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const getAbortSignal = useAbortOnUnmount();
 
     useEffect(() => {
         setEditableWord(JSON.parse(JSON.stringify(word)));
@@ -1955,7 +5088,7 @@ const EditWordModal = React.memo(({
             return;
         }
         setIsFetchingModalAIDetails(true);
-        const details = await generateWordDetailsWithGemini(editableWord.term.trim(), addToast, setGlobalLoading);
+        const details = await generateWordDetailsWithGemini(editableWord.term.trim(), addToast, setGlobalLoading, { signal: getAbortSignal() });
         if (details) {
             setEditableWord(prev => ({
                 ...prev,
@@ -1977,7 +5110,7 @@ const EditWordModal = React.memo(({
         }
         setIsFetchingModalAIImage(true);
         setModalAiImage(null);
-        const imageData = await generateImageForWordWithGemini(editableWord.term.trim(), addToast, setGlobalLoading);
+        const imageData = await generateImageForWordWithGemini(editableWord.term.trim(), addToast, setGlobalLoading, { signal: getAbortSignal() });
         if(imageData) {
             setModalAiImage(`data:image/jpeg;base64,${imageData}`);
         }
@@ -1992,16 +5125,13 @@ const EditWordModal = React.memo(({
     };
     
     const canEditFields = word.isCustom || !isCustomWordOnly;
-    const missingApiKey = !process.env.API_KEY;
-    const aiOperationsDisabledByKeyOrQuota = missingApiKey || isCurrentlyGeminiQuotaExhausted;
+    const aiOperationsUnavailable = !isAiAvailable();
     const isAnyAIFetchingInProgress = isFetchingModalAIDetails || isFetchingModalAIImage;
     const isModalBusyWithActivity = isAnyAIFetchingInProgress || isSubmitting;
 
     const getAIOperationDisabledReasonText = (isForFillDetailsButton: boolean): string | null => {
         if (isForFillDetailsButton && !canEditFields) return "사용자 단어만 가능";
-        if (missingApiKey) return "API Key 필요";
-        if (isCurrentlyGeminiQuotaExhausted) return "Quota 소진";
-        return null;
+        return getAiUnavailableReason();
     };
     
     const fillDetailsActionDisabledReason = getAIOperationDisabledReasonText(true);
@@ -2018,7 +5148,7 @@ const EditWordModal = React.memo(({
                  <button
                     type="button"
                     onClick={handleAIFillDetails}
-                    disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota || !canEditFields}
+                    disabled={isModalBusyWithActivity || aiOperationsUnavailable || !canEditFields}
                     className="w-full my-1 py-2 px-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                 >
                     <span role="img" aria-label="ai" className="mr-2">✨</span>
@@ -2053,11 +5183,20 @@ const EditWordModal = React.memo(({
                         <option value="middle3">중3</option>
                     </select>
                 </div>
+                {units.length > 0 && (
+                    <div>
+                        <label htmlFor={`unitId-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 (선택)</label>
+                        <select name="unitId" id={`unitId-modal-${word.id}`} value={editableWord.unitId || ''} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" disabled={!canEditFields}>
+                            <option value="">단원 없음</option>
+                            {sortUnits(units).map(unit => <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>)}
+                        </select>
+                    </div>
+                )}
 
                 <button
                     type="button"
                     onClick={handleGenerateModalAiImage}
-                    disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota}
+                    disabled={isModalBusyWithActivity || aiOperationsUnavailable}
                     className="w-full my-1 py-2 px-3 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                 >
                     <span role="img" aria-label="ai image" className="mr-2">🎨</span>
@@ -2090,8 +5229,9 @@ interface WordRowProps {
   toggleMastered: (word: Word) => void;
   handleEditWord: (word: Word) => void;
   handleDeleteClick: (word: Word) => void;
+  unitTitle?: string;
 }
-const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, userSettings, speak, toggleMastered, handleEditWord, handleDeleteClick }) => {
+const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, userSettings, speak, toggleMastered, handleEditWord, handleDeleteClick, unitTitle }) => {
     const word = wordData; 
     return (
         <li className={`p-4 rounded-lg shadow transition-colors ${word.stat.isMastered ? 'bg-slate-200/70 dark:bg-slate-700/70 hover:bg-slate-300/70 dark:hover:bg-slate-600/70' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`}>
@@ -2102,10 +5242,10 @@ const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, userSettings, sp
                         {word.stat.isMastered && <span className="text-xs bg-green-500 text-white dark:text-slate-900 px-1.5 py-0.5 rounded-full ml-2">완료</span>}
                         {word.isCustom && !word.stat.isMastered && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
                         {word.isCustom && word.stat.isMastered && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
-                        {word.unit && <span className="text-xs bg-blue-500 text-white dark:text-slate-900 px-1.5 py-0.5 rounded-full ml-2">Unit {word.unit}</span>}
+                        {unitTitle && <span className="text-xs bg-blue-500 text-white dark:text-slate-900 px-1.5 py-0.5 rounded-full ml-2">{unitTitle}</span>}
                     </h3>
                     <p className="text-sm text-slate-600 dark:text-slate-300">{word.partOfSpeech} - {word.meaning}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 오답: {word.stat.quizIncorrectCount}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 다음 복습: {word.stat.dueDate || '-'} | 오답: {word.stat.quizIncorrectCount}</p>
                 </div>
                 <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 flex-shrink-0 ml-2 items-end">
                     <button onClick={() => speak(word.term, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-xl p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500" aria-label={`${word.term} 발음 듣기`}>
@@ -2154,17 +5294,190 @@ const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, userSettings, sp
 });
 
 
+// QR Code Image (SVG, with the standard four-module quiet zone)
+const QrCodeImage: React.FC<{ text: string; label: string }> = ({ text, label }) => {
+    const modules = useMemo(() => encodeQrCode(text), [text]);
+    const quietZone = 4;
+    const size = modules.length + quietZone * 2;
+    const path = modules.flatMap((row, y) => row.map((isDark, x) => isDark ? `M${x + quietZone},${y + quietZone}h1v1h-1z` : '')).join('');
+    return (
+        <svg viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} className="w-56 h-56 mx-auto bg-white rounded" shapeRendering="crispEdges">
+            <rect width={size} height={size} fill="#ffffff" />
+            <path d={path} fill="#000000" />
+        </svg>
+    );
+};
+
+// Word Pack Export Modal
+interface WordPackExportModalProps {
+    words: Word[];
+    units: Unit[];
+    defaultTitle: string;
+    author: string;
+    onClose: () => void;
+    addToast: (message: string, type: ToastMessage['type']) => void;
+}
+
+const WordPackExportModal: React.FC<WordPackExportModalProps> = ({ words, units, defaultTitle, author, onClose, addToast }) => {
+    const [title, setTitle] = useState(defaultTitle);
+    const [description, setDescription] = useState('');
+    const [includeImages, setIncludeImages] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [shareUrl, setShareUrl] = useState<string | null | undefined>(undefined); // null: too big for a link
+
+    const buildPack = async (withImages: boolean) => createWordPack(
+        words,
+        units,
+        { title: title.trim() || defaultTitle, author, description: description.trim(), createdAt: new Date().toISOString() },
+        withImages ? await loadWordPackImages(words) : undefined,
+    );
+
+    const handleSaveFile = async () => {
+        setIsWorking(true);
+        try {
+            const pack = await buildPack(includeImages);
+            downloadFile(JSON.stringify(pack), `word-pack-${getTodayDateString()}.json`, 'application/json');
+            const imageCount = pack.words.filter(word => word.image).length;
+            addToast(`단어 팩을 저장했습니다. (단어 ${pack.words.length}개${imageCount > 0 ? `, 이미지 ${imageCount}개` : ''})`, "success");
+        } catch (error) {
+            console.error("Failed to export word pack:", error);
+            addToast("단어 팩을 만들지 못했습니다.", "error");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCreateLink = async () => {
+        setIsWorking(true);
+        try {
+            setShareUrl(await createWordPackShareUrl(await buildPack(false)));
+        } catch (error) {
+            console.error("Failed to create word pack link:", error);
+            addToast("공유 링크를 만들지 못했습니다. 이 브라우저는 압축 기능을 지원하지 않을 수 있습니다.", "error");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCopyLink = async () => {
+        if (!shareUrl) return;
+        try {
+            await navigator.clipboard.writeText(shareUrl);
+            addToast("공유 링크를 복사했습니다.", "success");
+        } catch {
+            addToast("링크를 복사하지 못했습니다. 직접 선택해서 복사해주세요.", "warning");
+        }
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="word-pack-export-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar space-y-4">
+                <h3 id="word-pack-export-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">단어 팩 내보내기 ({words.length}개)</h3>
+                <div>
+                    <label htmlFor="word-pack-title" className="block text-sm font-medium text-slate-700 dark:text-slate-300">팩 이름</label>
+                    <input id="word-pack-title" type="text" value={title} onChange={e => { setTitle(e.target.value); setShareUrl(undefined); }} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                </div>
+                <div>
+                    <label htmlFor="word-pack-description" className="block text-sm font-medium text-slate-700 dark:text-slate-300">설명 (선택)</label>
+                    <textarea id="word-pack-description" value={description} onChange={e => { setDescription(e.target.value); setShareUrl(undefined); }} rows={2} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} className="accent-cyan-500" />
+                    저장된 AI 이미지 포함 (파일만, 용량이 커집니다)
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleSaveFile} disabled={isWorking || words.length === 0} className="py-2 px-3 bg-teal-500 hover:bg-teal-600 text-white text-sm font-semibold rounded-md disabled:opacity-50">💾 파일로 저장</button>
+                    <button onClick={handleCreateLink} disabled={isWorking || words.length === 0} className="py-2 px-3 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold rounded-md disabled:opacity-50">🔗 링크·QR 만들기</button>
+                </div>
+                {shareUrl === null && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400">단어가 많아 링크로 공유할 수 없습니다. 단어 수를 줄이거나 파일로 저장해 공유해주세요.</p>
+                )}
+                {shareUrl && (
+                    <div className="space-y-2">
+                        <QrCodeImage text={shareUrl} label={`${title} 단어 팩 QR 코드`} />
+                        <div className="flex gap-2">
+                            <input type="text" readOnly value={shareUrl} onFocus={e => e.target.select()} aria-label="공유 링크" className="flex-grow min-w-0 p-2 text-xs bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                            <button onClick={handleCopyLink} className="shrink-0 px-3 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-sm text-slate-700 dark:text-white">복사</button>
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">학생이 QR 코드를 찍거나 링크를 열면 단어 팩 가져오기 화면이 나타납니다.</p>
+                    </div>
+                )}
+                <div className="flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">닫기</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Word Pack Import Modal
+interface WordPackImportModalProps {
+    pack: WordPack;
+    allWords: Word[];
+    onImport: (duplicateMode: WordPackDuplicateMode, includeImages: boolean) => void;
+    onCancel: () => void;
+}
+
+const WordPackImportModal: React.FC<WordPackImportModalProps> = ({ pack, allWords, onImport, onCancel }) => {
+    const [duplicateMode, setDuplicateMode] = useState<WordPackDuplicateMode>('skip');
+    const [includeImages, setIncludeImages] = useState(true);
+    const duplicates = useMemo(() => pack.words
+        .map(word => findWordByTerm(allWords, word.term))
+        .filter((word): word is Word => !!word), [pack, allWords]);
+    const customDuplicateCount = duplicates.filter(word => word.isCustom).length;
+    const imageCount = pack.words.filter(word => word.image).length;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="word-pack-import-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar space-y-4">
+                <div>
+                    <h3 id="word-pack-import-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">📦 {pack.metadata.title}</h3>
+                    {pack.metadata.author && <p className="text-sm text-slate-500 dark:text-slate-400">만든 사람: {pack.metadata.author}</p>}
+                    {pack.metadata.description && <p className="text-sm text-slate-600 dark:text-slate-300 mt-2">{pack.metadata.description}</p>}
+                </div>
+                <ul className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                    <li>단어 {pack.words.length}개{pack.units.length > 0 ? `, 단원 ${pack.units.length}개` : ''}</li>
+                    <li>새 단어 {pack.words.length - duplicates.length}개</li>
+                    {duplicates.length > 0 && <li>이미 있는 단어 {duplicates.length}개: {duplicates.slice(0, 8).map(word => word.term).join(', ')}{duplicates.length > 8 ? ' …' : ''}</li>}
+                </ul>
+                {customDuplicateCount > 0 && (
+                    <fieldset className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                        <legend className="font-medium mb-1">이미 있는 나의 단어 {customDuplicateCount}개는</legend>
+                        <label className="flex items-center gap-2"><input type="radio" name="word-pack-duplicates" checked={duplicateMode === 'skip'} onChange={() => setDuplicateMode('skip')} className="accent-cyan-500" /> 그대로 두기</label>
+                        <label className="flex items-center gap-2"><input type="radio" name="word-pack-duplicates" checked={duplicateMode === 'overwrite'} onChange={() => setDuplicateMode('overwrite')} className="accent-cyan-500" /> 팩의 뜻과 예문으로 바꾸기</label>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">기본 제공 단어는 바뀌지 않습니다.</p>
+                    </fieldset>
+                )}
+                {imageCount > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} className="accent-cyan-500" />
+                        이미지 {imageCount}개도 가져오기
+                    </label>
+                )}
+                <div className="flex justify-end space-x-3">
+                    <button onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
+                    <button onClick={() => onImport(duplicateMode, includeImages && imageCount > 0)} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">가져오기</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // AllWords Screen Component
 interface AllWordsScreenProps extends ScreenProps {
     allWords: Word[]; 
     wordStats: Record<string | number, WordStat>;
     onDeleteCustomWord: (wordId: number | string) => void;
-    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitNumber?: number) => Promise<boolean>;
+    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitId?: string) => Promise<boolean>;
     updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    units: Unit[];
+    onOpenWordPack: (pack: WordPack) => void;
 }
 
-const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, onDeleteCustomWord, onSaveCustomWord, updateWordStat, addToast, setGlobalLoading }) => {
+const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, units, onDeleteCustomWord, onSaveCustomWord, updateWordStat, onOpenWordPack, addToast, setGlobalLoading }) => {
     const [searchTerm, setSearchTerm] = useState('');
+    const [showWordPackExport, setShowWordPackExport] = useState(false);
+    const wordPackFileInputRef = useRef<HTMLInputElement>(null);
     const [filterGrade, setFilterGrade] = useState<string>(userSettings.grade || 'all');
     const [filterUnit, setFilterUnit] = useState<string>('all');
     const [editingWord, setEditingWord] = useState<Word | null>(null);
@@ -2175,18 +5488,16 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
 
-    const uniqueUnits = useMemo(() => {
-        const units = new Set<string>();
-        allWords.forEach(word => {
-            if (word.unit) units.add(String(word.unit));
-        });
-        return Array.from(units).sort((a,b) => parseInt(a) - parseInt(b));
-    }, [allWords]);
+    const uniqueUnits = useMemo(
+        () => sortUnits(units).filter(unit => allWords.some(word => word.unitId === unit.id)),
+        [units, allWords]
+    );
+    const unitTitles = useMemo(() => new Map(units.map(unit => [unit.id, unit.title])), [units]);
 
     const wordsToDisplay = useMemo(() => {
         return allWords
         .filter(word => filterGrade === 'all' || word.gradeLevel === filterGrade)
-        .filter(word => filterUnit === 'all' || String(word.unit) === filterUnit)
+        .filter(word => filterUnit === 'all' || word.unitId === filterUnit)
         .filter(word => word.term.toLowerCase().includes(searchTerm.toLowerCase()) || word.meaning.toLowerCase().includes(searchTerm.toLowerCase()))
         .map(word => ({ ...word, stat: getWordStat(word.id) })) 
         .sort((a,b) => a.term.localeCompare(b.term));
@@ -2199,7 +5510,7 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
     
     const handleSaveEdit = useCallback(async (updatedWord: Word) => {
         if (updatedWord.isCustom) { 
-            const success = await onSaveCustomWord(updatedWord, updatedWord.gradeLevel, updatedWord.unit ? Number(updatedWord.unit) : undefined);
+            const success = await onSaveCustomWord({ ...updatedWord, unitId: updatedWord.unitId || undefined }, updatedWord.gradeLevel);
             if (success) {
                 setEditingWord(null);
             }
@@ -2230,11 +5541,30 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
             !currentStat.isMastered ? "success" : "info"
         );
     }, [getWordStat, updateWordStat, addToast]);
+
+    const handleWordPackFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        try {
+            onOpenWordPack(parseWordPack(await file.text()));
+        } catch (error) {
+            console.error("Failed to read word pack:", error);
+            addToast(error instanceof Error ? error.message : "단어 팩 파일을 읽지 못했습니다.", "error");
+        }
+    };
     
 
     return (
         <div className="p-4 sm:p-6">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">전체 단어 목록 ({wordsToDisplay.length}개)</h1>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400">전체 단어 목록 ({wordsToDisplay.length}개)</h1>
+                <div className="flex gap-2">
+                    <button onClick={() => setShowWordPackExport(true)} disabled={wordsToDisplay.length === 0} title="지금 보이는 단어를 단어 팩으로 내보냅니다" className="px-3 py-2 bg-teal-500 hover:bg-teal-600 text-white text-sm font-semibold rounded-md shadow-sm disabled:opacity-50">📦 단어 팩 내보내기</button>
+                    <button onClick={() => wordPackFileInputRef.current?.click()} className="px-3 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold rounded-md shadow-sm">📥 단어 팩 가져오기</button>
+                    <input ref={wordPackFileInputRef} type="file" accept=".json,application/json" onChange={handleWordPackFileChange} className="hidden" />
+                </div>
+            </div>
             <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <input
                     type="text"
@@ -2262,7 +5592,7 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
                     aria-label="단원 필터"
                 >
                     <option value="all">모든 단원</option>
-                    {uniqueUnits.map(unit => <option key={unit} value={unit}>Unit {unit}</option>)}
+                    {uniqueUnits.map(unit => <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>)}
                 </select>
             </div>
 
@@ -2277,13 +5607,24 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
                             toggleMastered={toggleMastered}
                             handleEditWord={handleEditWord}
                             handleDeleteClick={handleDeleteClick}
+                            unitTitle={word.unitId ? unitTitles.get(word.unitId) : undefined}
                         />
                     ))}
                 </ul>
             ) : (
                 <p className="text-center text-slate-500 dark:text-slate-400 py-8">해당 조건에 맞는 단어가 없습니다.</p>
             )}
-            {editingWord && <EditWordModal word={editingWord} onSave={handleSaveEdit} onCancel={() => setEditingWord(null)} userGrade={userSettings.grade} isCustomWordOnly={!editingWord.isCustom} addToast={addToast} setGlobalLoading={setGlobalLoading}/>}
+            {editingWord && <EditWordModal word={editingWord} onSave={handleSaveEdit} onCancel={() => setEditingWord(null)} userGrade={userSettings.grade} isCustomWordOnly={!editingWord.isCustom} units={units} addToast={addToast} setGlobalLoading={setGlobalLoading}/>}
+            {showWordPackExport && (
+                <WordPackExportModal
+                    words={wordsToDisplay.map(({ stat, ...word }) => word)}
+                    units={units}
+                    defaultTitle={filterUnit !== 'all' ? (unitTitles.get(filterUnit) ?? '단어 팩') : `${userSettings.username}의 단어 팩`}
+                    author={userSettings.username}
+                    onClose={() => setShowWordPackExport(false)}
+                    addToast={addToast}
+                />
+            )}
             {wordToDelete && (
                 <ConfirmationModal
                     isOpen={showConfirmDeleteModal}
@@ -2297,104 +5638,757 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
     );
 };
 
+// --- Scanned Page OCR ---
+// Scanned PDFs and photos carry no text layer, so their pages are rendered to JPEG and read by Gemini.
+const OCR_MAX_PAGES = 20;
+const OCR_IMAGE_MAX_DIMENSION = 2000; // Large enough for small print, small enough to keep requests light
+const OCR_MIN_TEXT_LAYER_LETTERS = 20; // PDF pages with fewer letters than this are treated as scans
+const OCR_IMAGE_FILE_PATTERN = /\.(png|jpe?g|webp|gif|bmp)$/i;
+
+const isOcrImageFile = (file: File) => file.type.startsWith('image/') || OCR_IMAGE_FILE_PATTERN.test(file.name);
+
+const canvasToOcrImage = (canvas: HTMLCanvasElement) => ({
+    data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+    mimeType: 'image/jpeg',
+});
+
+const renderImageFileForOcr = (file: File): Promise<{ data: string; mimeType: string }> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        const scale = Math.min(1, OCR_IMAGE_MAX_DIMENSION / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error("Canvas 2D context is not available."));
+            return;
+        }
+        context.fillStyle = '#ffffff'; // Transparent PNGs would otherwise turn black as JPEG
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvasToOcrImage(canvas));
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error("이미지를 열 수 없습니다. PNG, JPG, WEBP 형식인지 확인해주세요."));
+    };
+    image.src = url;
+});
+
+const renderPdfPageForOcr = async (page: pdfjsLib.PDFPageProxy) => {
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(3, OCR_IMAGE_MAX_DIMENSION / Math.max(baseViewport.width, baseViewport.height)) });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas 2D context is not available.");
+    await page.render({ canvasContext: context, viewport }).promise;
+    const image = canvasToOcrImage(canvas);
+    page.cleanup();
+    return image;
+};
+
+
+// --- Vocabulary Extraction ---
+// Turns the text of a textbook file into ranked study candidates without any network calls: inflected forms are
+// lemmatized, stop-words and proper nouns are dropped, phrasal verbs and idioms are detected, and each candidate
+// is ranked by how often it occurs and how well its difficulty tier fits the student's grade.
+export type VocabularyTier = 'basic' | 'middle1' | 'middle2' | 'middle3' | 'advanced';
+
+export interface VocabularyCandidate {
+    text: string; // Base form, or the expression for phrases
+    frequency: number;
+    tier: VocabularyTier;
+    isPhrase: boolean;
+    score: number;
+    isRecommended: boolean; // Pre-selected for saving
+}
+
+const VOCABULARY_TIER_ORDER: VocabularyTier[] = ['basic', 'middle1', 'middle2', 'middle3', 'advanced'];
+const EXTRACTION_MAX_RECOMMENDED = 40;
+const PHRASE_OBJECT_PRONOUNS = new Set(['it', 'them', 'him', 'her', 'me', 'us', 'you', 'this', 'that']);
+
+const VOCABULARY_TIER_LABELS: Record<VocabularyTier, string> = {
+    basic: '기초',
+    middle1: '중1',
+    middle2: '중2',
+    middle3: '중3',
+    advanced: '심화',
+};
+
+const getVocabularyTier = (lemma: string): VocabularyTier => {
+    const tier = (['basic', 'middle1', 'middle2', 'middle3'] as const).find(t => WORD_TIER_LISTS[t].has(lemma));
+    return tier || 'advanced';
+};
+
+const isBundledWord = (word: string) =>
+    STOP_WORDS.has(word) || VOCABULARY_TIER_ORDER.some(t => t !== 'advanced' && WORD_TIER_LISTS[t].has(word));
+
+// Reduces an inflected word to its base form. Suffix rules only fire when the result is a known word (from the
+// bundled lists or elsewhere in the same document), except for plain plurals of unknown nouns.
+const lemmatizeWord = (word: string, documentWords: Set<string>): string => {
+    if (IRREGULAR_FORMS[word]) return IRREGULAR_FORMS[word];
+    if (word.length <= 3 || isBundledWord(word)) return word;
+
+    const candidates: string[] = [];
+    const addStemCandidates = (stem: string) => {
+        candidates.push(`${stem}e`, stem); // hoped -> hope, wanted -> want
+        if (/([b-df-hj-np-tv-z])\1$/.test(stem) && !/(ll|ss|zz|ff)$/.test(stem)) candidates.push(stem.slice(0, -1)); // running -> run
+    };
+    if (/(ies|ied)$/.test(word)) candidates.push(`${word.slice(0, -3)}y`); // studies, studied -> study
+    if (/(ches|shes|sses|xes|zes|oes)$/.test(word)) candidates.push(word.slice(0, -2));
+    if (word.endsWith('ing') && word.length > 5) addStemCandidates(word.slice(0, -3));
+    else if (word.endsWith('ed') && word.length > 4) addStemCandidates(word.slice(0, -2));
+    else if (word.endsWith('est') && word.length > 6) addStemCandidates(word.slice(0, -3)); // biggest -> big
+    else if (word.endsWith('er') && word.length > 4) {
+        // Only comparatives (bigger, nicer, happier); agent nouns such as "writer" or "winner" are words of their own
+        const stem = word.slice(0, -2);
+        const adjectives = [`${word.slice(0, -3)}y`, word.slice(0, -1), stem];
+        if (/([b-df-hj-np-tv-z])\1$/.test(stem)) adjectives.push(stem.slice(0, -1));
+        const adjective = adjectives.find(candidate => COMPARATIVE_ADJECTIVES.has(candidate));
+        if (adjective) return adjective;
+    } else if (word.endsWith('ly') && word.length > 5) candidates.push(word.slice(0, -2), `${word.slice(0, -3)}y`); // quickly -> quick, happily -> happy
+    if (word.endsWith('s') && !/(ss|us|is|ics)$/.test(word)) candidates.push(word.slice(0, -1));
+    if (word.endsWith('ses')) candidates.push(word.slice(0, -2)); // buses -> bus, after "houses" -> "house"
+
+    const known = candidates.find(candidate => candidate.length >= 2 && (isBundledWord(candidate) || documentWords.has(candidate)));
+    if (known) return known;
+    // Unknown plural nouns are common in textbooks; other unknown forms are kept as they are.
+    // Words such as "clothes" and "lens" end like plurals but are not the plural of "clothe" or "len".
+    if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.endsWith('uses')) return word.slice(0, -2); // viruses -> virus
+    if (word.endsWith('s') && !/(ss|us|is|ics|thes|ens)$/.test(word)) return word.slice(0, -1);
+    return word;
+};
+
+interface ExtractionToken {
+    word: string; // Lowercase surface form
+    isCapitalized: boolean;
+    isSentenceStart: boolean;
+}
+
+const tokenizeForExtraction = (text: string): ExtractionToken[] => {
+    const normalized = text
+        .replace(/[‘’]/g, "'")
+        .replace(/([a-zA-Z])-\s*\n\s*([a-z])/g, '$1$2'); // Rejoin words hyphenated across line breaks
+    const tokens: ExtractionToken[] = [];
+    const tokenRegex = /[A-Za-z]+(?:'[A-Za-z]+)*/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(normalized)) !== null) {
+        const word = match[0].replace(/'s$/i, '');
+        if (word.includes("'")) continue; // Contractions are all function words
+        const preceding = normalized.slice(Math.max(0, match.index - 3), match.index);
+        tokens.push({
+            word: word.toLowerCase(),
+            isCapitalized: /^[A-Z][a-z]/.test(word),
+            isSentenceStart: tokens.length === 0 || /[.!?:"\n]\s*$/.test(preceding),
+        });
+    }
+    return tokens;
+};
+
+const findExpressionCounts = (words: string[], lemmas: string[]) => {
+    const counts = new Map<string, number>();
+    const matchesAt = (index: number, part: string) => lemmas[index] === part || words[index] === part;
+    MULTI_WORD_EXPRESSIONS.forEach(expression => {
+        const parts = expression.split(' ');
+        for (let i = 0; i < lemmas.length; i++) {
+            if (!matchesAt(i, parts[0])) continue;
+            let matches = parts.every((part, offset) => matchesAt(i + offset, part));
+            // Separable phrasal verbs: "pick it up", "turn them off"
+            if (!matches && parts.length === 2 && PHRASE_OBJECT_PRONOUNS.has(words[i + 1])) {
+                matches = matchesAt(i + 2, parts[1]);
+            }
+            if (matches) counts.set(expression, (counts.get(expression) || 0) + 1);
+        }
+    });
+    return counts;
+};
+
+// Scores a candidate: frequent words and words at or just above the student's grade rank highest
+const scoreVocabularyCandidate = (frequency: number, tier: VocabularyTier, isPhrase: boolean, grade: string) => {
+    const gradeIndex = Math.max(1, VOCABULARY_TIER_ORDER.indexOf(grade as VocabularyTier));
+    const distance = VOCABULARY_TIER_ORDER.indexOf(tier) - gradeIndex;
+    const tierFit = tier === 'basic' ? -3 : distance === 0 ? 3 : distance === 1 ? 2 : distance === -1 ? 1.5 : 0.5;
+    return Math.log2(1 + frequency) * 2 + tierFit + (isPhrase ? 2 : 0);
+};
+
+const extractVocabularyCandidates = (text: string, grade: string, existingTerms: Set<string>): VocabularyCandidate[] => {
+    const tokens = tokenizeForExtraction(text);
+    const documentWords = new Set(tokens.map(t => t.word));
+    const lemmas = tokens.map(t => lemmatizeWord(t.word, documentWords));
+
+    // Words that only ever appear capitalized in the middle of a sentence are names of people and places
+    const lowercaseUses = new Set<string>();
+    const capitalizedMidSentenceUses = new Set<string>();
+    tokens.forEach(token => {
+        if (!token.isCapitalized) lowercaseUses.add(token.word);
+        else if (!token.isSentenceStart) capitalizedMidSentenceUses.add(token.word);
+    });
+    const isProperNoun = (word: string) => capitalizedMidSentenceUses.has(word) && !lowercaseUses.has(word) && !isBundledWord(word);
+
+    const wordCounts = new Map<string, number>();
+    tokens.forEach((token, index) => {
+        const lemma = lemmas[index];
+        if (lemma.length < 3 || lemma.length > 20 || STOP_WORDS.has(lemma) || isProperNoun(token.word)) return;
+        wordCounts.set(lemma, (wordCounts.get(lemma) || 0) + 1);
+    });
+
+    const candidates: VocabularyCandidate[] = [];
+    const addCandidate = (candidateText: string, frequency: number, tier: VocabularyTier, isPhrase: boolean) => {
+        if (existingTerms.has(candidateText)) return;
+        candidates.push({ text: candidateText, frequency, tier, isPhrase, score: scoreVocabularyCandidate(frequency, tier, isPhrase, grade), isRecommended: false });
+    };
+    wordCounts.forEach((frequency, lemma) => addCandidate(lemma, frequency, getVocabularyTier(lemma), false));
+    findExpressionCounts(tokens.map(t => t.word), lemmas).forEach((frequency, expression) => {
+        // An expression is as hard as its hardest word
+        const tier = expression.split(' ').filter(part => !STOP_WORDS.has(part))
+            .reduce<VocabularyTier>((hardest, part) => {
+                const partTier = getVocabularyTier(part);
+                return VOCABULARY_TIER_ORDER.indexOf(partTier) > VOCABULARY_TIER_ORDER.indexOf(hardest) ? partTier : hardest;
+            }, 'middle1');
+        addCandidate(expression, frequency, tier, true);
+    });
+
+    candidates.sort((a, b) => b.score - a.score || b.frequency - a.frequency || a.text.localeCompare(b.text));
+    let recommendedCount = 0;
+    candidates.forEach(candidate => {
+        if (candidate.tier !== 'basic' && candidate.score > 2 && recommendedCount < EXTRACTION_MAX_RECOMMENDED) {
+            candidate.isRecommended = true;
+            recommendedCount++;
+        }
+    });
+    return candidates;
+};
+
+
+// Spreadsheet Import Modal
+interface SpreadsheetImportModalProps {
+    file: File;
+    unitTitle: string;
+    existingTerms: Set<string>;
+    canUseAi: boolean; // Without AI, rows with empty required fields cannot be completed
+    onImport: (rows: SpreadsheetRowValidation[], sheetName: string) => void;
+    onCancel: () => void;
+}
+
+const SPREADSHEET_PREVIEW_ROWS = 5;
+
+const SpreadsheetImportModal: React.FC<SpreadsheetImportModalProps> = ({ file, unitTitle, existingTerms, canUseAi, onImport, onCancel }) => {
+    const [sheets, setSheets] = useState<SpreadsheetSheet[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [sheetIndex, setSheetIndex] = useState(0);
+    const [hasHeaderRow, setHasHeaderRow] = useState(true);
+    const [mapping, setMapping] = useState<SpreadsheetColumnMapping>({});
+
+    useEffect(() => {
+        let isCancelled = false;
+        readSpreadsheetSheets(file)
+            .then(result => { if (!isCancelled) setSheets(result); })
+            .catch(error => {
+                console.error("Error reading spreadsheet:", error);
+                if (!isCancelled) setLoadError("표 파일을 읽을 수 없습니다. 파일 형식을 확인해주세요.");
+            });
+        return () => { isCancelled = true; };
+    }, [file]);
+
+    const rows = sheets?.[sheetIndex]?.rows ?? [];
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+    // Re-guess the mapping whenever another sheet is picked
+    useEffect(() => {
+        if (!sheets) return;
+        const guessed = guessSpreadsheetColumnMapping(sheets[sheetIndex]?.rows[0] ?? []);
+        setMapping(guessed);
+        setHasHeaderRow(Object.keys(guessed).length > 0);
+    }, [sheets, sheetIndex]);
+
+    const validations = useMemo(
+        () => mapping.term === undefined ? [] : validateSpreadsheetRows(rows, mapping, hasHeaderRow, existingTerms),
+        [rows, mapping, hasHeaderRow, existingTerms]
+    );
+    const readyCount = validations.filter(v => v.status === 'ready').length;
+    const needsAiCount = validations.filter(v => v.status === 'needsAi').length;
+    const issues = validations.filter(v => v.status === 'duplicate' || v.status === 'invalid');
+    const importableCount = readyCount + (canUseAi ? needsAiCount : 0);
+
+    const getColumnLabel = (columnIndex: number) => {
+        const letter = XLSX.utils.encode_col(columnIndex);
+        return hasHeaderRow && rows[0]?.[columnIndex] ? `${letter}: ${rows[0][columnIndex]}` : `${letter}열`;
+    };
+
+    const handleMappingChange = (field: SpreadsheetWordField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            // A column feeds one field only
+            (Object.keys(next) as SpreadsheetWordField[]).forEach(f => { if (next[f] === Number(value)) delete next[f]; });
+            if (value === '') delete next[field];
+            else next[field] = Number(value);
+            return next;
+        });
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="spreadsheet-import-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <h3 id="spreadsheet-import-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 mb-1">'{unitTitle}' 단원 표 가져오기</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-4 truncate" title={file.name}>{file.name}</p>
+
+                {loadError && <p className="text-red-500 dark:text-red-400 mb-4">{loadError}</p>}
+                {!sheets && !loadError && <p className="text-slate-500 dark:text-slate-400 mb-4">표를 읽는 중...</p>}
+
+                {sheets && (
+                    <>
+                        <div className="flex flex-wrap items-center gap-4 mb-4">
+                            {sheets.length > 1 && (
+                                <label className="text-sm text-slate-700 dark:text-slate-300">
+                                    시트:
+                                    <select value={sheetIndex} onChange={e => setSheetIndex(Number(e.target.value))} className="ml-2 p-1 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded">
+                                        {sheets.map((sheet, index) => <option key={sheet.name} value={index}>{sheet.name} ({sheet.rows.length}행)</option>)}
+                                    </select>
+                                </label>
+                            )}
+                            <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                                <input type="checkbox" checked={hasHeaderRow} onChange={e => setHasHeaderRow(e.target.checked)} className="mr-2 h-4 w-4 rounded border-slate-400 text-cyan-600 focus:ring-cyan-500" />
+                                첫 행은 제목
+                            </label>
+                        </div>
+
+                        {rows.length === 0 ? (
+                            <p className="text-slate-500 dark:text-slate-400 mb-4">이 시트에는 내용이 없습니다.</p>
+                        ) : (
+                            <>
+                                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">열 연결</h4>
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+                                    {SPREADSHEET_WORD_FIELDS.map(({ field, label }) => (
+                                        <label key={field} className="text-xs text-slate-600 dark:text-slate-300">
+                                            {label}{field === 'term' ? ' *' : ''}
+                                            <select
+                                                value={mapping[field] ?? ''}
+                                                onChange={e => handleMappingChange(field, e.target.value)}
+                                                className="mt-1 w-full p-1 bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded text-sm"
+                                            >
+                                                <option value="">{field === 'term' ? '열 선택' : canUseAi ? 'AI로 채우기' : '비워두기'}</option>
+                                                {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{getColumnLabel(i)}</option>)}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+
+                                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">미리보기</h4>
+                                <div className="overflow-x-auto mb-4 custom-scrollbar">
+                                    <table className="min-w-full text-xs text-left text-slate-700 dark:text-slate-200">
+                                        <thead>
+                                            <tr className="bg-slate-100 dark:bg-slate-700">
+                                                {Array.from({ length: columnCount }, (_, i) => {
+                                                    const mappedField = SPREADSHEET_WORD_FIELDS.find(({ field }) => mapping[field] === i);
+                                                    return <th key={i} className="px-2 py-1 whitespace-nowrap">{getColumnLabel(i)}{mappedField && <span className="ml-1 text-cyan-600 dark:text-cyan-400">→ {mappedField.label}</span>}</th>;
+                                                })}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {rows.slice(hasHeaderRow ? 1 : 0, (hasHeaderRow ? 1 : 0) + SPREADSHEET_PREVIEW_ROWS).map((row, rowIndex) => (
+                                                <tr key={rowIndex} className="border-t border-slate-200 dark:border-slate-600">
+                                                    {Array.from({ length: columnCount }, (_, i) => <td key={i} className="px-2 py-1 max-w-[12rem] truncate" title={row[i]}>{row[i]}</td>)}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                {mapping.term === undefined ? (
+                                    <p className="text-sm text-amber-600 dark:text-amber-400 mb-4">단어가 들어 있는 열을 선택해주세요.</p>
+                                ) : (
+                                    <div className="text-sm text-slate-600 dark:text-slate-300 mb-4 space-y-1">
+                                        <p>바로 저장 가능: {readyCount}개 · 빈 칸 있음: {needsAiCount}개{needsAiCount > 0 && (canUseAi ? ' (AI로 채움)' : ' (AI를 사용할 수 없어 건너뜀)')} · 제외: {issues.length}개</p>
+                                        {issues.length > 0 && (
+                                            <ul className="text-xs text-slate-500 dark:text-slate-400 max-h-24 overflow-y-auto custom-scrollbar">
+                                                {issues.map(issue => <li key={issue.rowNumber}>{issue.rowNumber}행{issue.word.term ? ` '${issue.word.term}'` : ''}: {issue.message}</li>)}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </>
+                )}
+
+                <div className="flex justify-end space-x-3">
+                    <button onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white transition-colors">
+                        취소
+                    </button>
+                    <button
+                        onClick={() => onImport(validations, sheets![sheetIndex].name)}
+                        disabled={importableCount === 0}
+                        className="px-4 py-2 rounded text-white bg-green-500 hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {importableCount}개 가져오기
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Unit Form Modal (create or edit a unit)
+interface UnitFormModalProps {
+    unit: Unit | null; // null creates a new unit
+    defaultGrade: string;
+    onSave: (fields: Pick<Unit, 'title' | 'textbook' | 'gradeLevel'>) => void;
+    onCancel: () => void;
+}
+
+const UnitFormModal: React.FC<UnitFormModalProps> = ({ unit, defaultGrade, onSave, onCancel }) => {
+    const [title, setTitle] = useState(unit?.title ?? '');
+    const [textbook, setTextbook] = useState(unit?.textbook ?? '');
+    const [gradeLevel, setGradeLevel] = useState(unit?.gradeLevel ?? defaultGrade);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim()) return;
+        onSave({ title: title.trim(), textbook: textbook.trim(), gradeLevel });
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="unit-form-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md space-y-4">
+                <h3 id="unit-form-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">{unit ? '단원 수정' : '새 단원 만들기'}</h3>
+                <div>
+                    <label htmlFor="unit-form-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 이름 (필수)</label>
+                    <input id="unit-form-name" type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="예: Lesson 3 – My Hobby" required autoFocus className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                </div>
+                <div>
+                    <label htmlFor="unit-form-textbook" className="block text-sm font-medium text-slate-700 dark:text-slate-300">교과서 (선택)</label>
+                    <input id="unit-form-textbook" type="text" value={textbook} onChange={e => setTextbook(e.target.value)} placeholder="예: 천재(이재영)" className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                </div>
+                <div>
+                    <label htmlFor="unit-form-grade" className="block text-sm font-medium text-slate-700 dark:text-slate-300">학년</label>
+                    <select id="unit-form-grade" value={gradeLevel} onChange={e => setGradeLevel(e.target.value)} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                        <option value="middle1">중1</option>
+                        <option value="middle2">중2</option>
+                        <option value="middle3">중3</option>
+                    </select>
+                </div>
+                <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white transition-colors">취소</button>
+                    <button type="submit" disabled={!title.trim()} className="px-4 py-2 rounded text-white bg-cyan-500 hover:bg-cyan-600 transition-colors disabled:opacity-50">{unit ? '저장' : '만들기'}</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Unit Merge Modal
+interface UnitMergeModalProps {
+    sourceUnit: Unit;
+    units: Unit[];
+    onMerge: (targetUnitId: string) => void;
+    onCancel: () => void;
+}
+
+const UnitMergeModal: React.FC<UnitMergeModalProps> = ({ sourceUnit, units, onMerge, onCancel }) => {
+    const targetUnits = sortUnits(units).filter(unit => unit.id !== sourceUnit.id);
+    const [targetUnitId, setTargetUnitId] = useState(targetUnits[0]?.id ?? '');
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="unit-merge-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md">
+                <h3 id="unit-merge-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 mb-4">단원 합치기</h3>
+                <p className="text-slate-600 dark:text-slate-300 mb-4">'{sourceUnit.title}'의 단어와 가져오기 기록을 아래 단원으로 옮기고, '{sourceUnit.title}' 단원은 삭제합니다.</p>
+                <select value={targetUnitId} onChange={e => setTargetUnitId(e.target.value)} className="w-full p-2 mb-6 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600">
+                    {targetUnits.map(unit => <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>)}
+                </select>
+                <div className="flex justify-end space-x-3">
+                    <button onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white transition-colors">취소</button>
+                    <button onClick={() => onMerge(targetUnitId)} disabled={!targetUnitId} className="px-4 py-2 rounded text-white bg-cyan-500 hover:bg-cyan-600 transition-colors disabled:opacity-50">합치기</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // WordsByUnit Screen Component
 interface WordsByUnitScreenProps extends ScreenProps {
     allWords: Word[];
-    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitNumber?: number) => Promise<boolean>;
+    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitId?: string) => Promise<boolean>;
+    units: Unit[];
+    onUnitsChange: React.Dispatch<React.SetStateAction<Unit[]>>;
+    onMergeUnits: (sourceUnitId: string, targetUnitId: string) => void;
+    onDeleteUnit: (unitId: string) => void;
+    unitImportJobs: Record<string, UnitImportJob>; // Keyed by Unit.id
+    onUnitImportJobsChange: React.Dispatch<React.SetStateAction<Record<string, UnitImportJob>>>;
 }
 
+// pending: waiting for AI details, enriched: details fetched but not saved yet, saved: added to the word list, failed: lookup failed
+type UnitImportWordStatus = 'pending' | 'enriched' | 'saved' | 'failed';
+
 interface ExtractedWordItem {
   text: string;
   selected: boolean;
+  status: UnitImportWordStatus;
+  frequency?: number; // Occurrences in the source file
+  tier?: VocabularyTier;
+  isPhrase?: boolean;
+  isRecommended?: boolean;
+  isKeyVocabulary?: boolean; // Picked by the AI as key vocabulary for the unit's passage
+  details?: Partial<Word>; // Kept once looked up, so a resumed import does not ask the AI again
 }
 
-interface UnitProcessingStatus {
-  isExtracting: boolean;
-  isSaving: boolean;
+interface UnitImportHistoryEntry {
+  id: string;
+  fileName: string;
+  importedAt: string; // ISO timestamp
+  extractedCount: number;
+  savedCount: number;
+}
+
+// The part of a unit's import that is saved to the profile and survives reloads
+export interface UnitImportJob {
   log: string[];
   extractedWords: ExtractedWordItem[];
   selectAllExtracted: boolean;
   fileName: string | null;
+  currentImportId: string | null; // History entry the extracted words came from
+  history: UnitImportHistoryEntry[];
+  summary: string | null; // Korean summary of the last extracted passage
+}
+
+interface UnitProcessingStatus extends UnitImportJob {
+  isExtracting: boolean;
+  isSaving: boolean;
 }
 
-const initialUnitProcessingStatus = (): UnitProcessingStatus => ({
-  isExtracting: false,
-  isSaving: false,
+const UNIT_LOG_MAX_ENTRIES = 30;
+const UNIT_IMPORT_HISTORY_MAX_ENTRIES = 10;
+
+const UNIT_IMPORT_WORD_STATUS_LABELS: Record<UnitImportWordStatus, string> = {
+  pending: '대기 중',
+  enriched: 'AI 정보 조회됨 (저장 전)',
+  saved: '저장됨',
+  failed: 'AI 정보 조회 실패',
+};
+
+const initialUnitImportJob = (): UnitImportJob => ({
   log: [],
   extractedWords: [],
   selectAllExtracted: true,
   fileName: null,
+  currentImportId: null,
+  history: [],
+  summary: null,
 });
 
-const WordsByUnitScreen: React.FC<WordsByUnitScreenProps> = ({ userSettings, onNavigate, addToast, setGlobalLoading, allWords, onSaveCustomWord }) => {
-    const [unitDetails, setUnitDetails] = useState<Record<number, UnitProcessingStatus>>(
-        () => Array.from({ length: 30 }, (_, i) => i + 1).reduce((acc, unitNum) => {
-            acc[unitNum] = initialUnitProcessingStatus();
-            return acc;
-        }, {} as Record<number, UnitProcessingStatus>)
-    );
-     const fileInputRefs = useRef<Record<number, HTMLInputElement | null>>({});
+const WordsByUnitScreen: React.FC<WordsByUnitScreenProps> = ({ userSettings, onNavigate, addToast, setGlobalLoading, allWords, onSaveCustomWord, units, onUnitsChange, onMergeUnits, onDeleteUnit, unitImportJobs, onUnitImportJobsChange }) => {
+    const sortedUnits = useMemo(() => sortUnits(units), [units]);
+    // Only the busy flags are screen state; everything else lives in the profile's persisted import jobs
+    const [unitActivity, setUnitActivity] = useState<Record<string, Pick<UnitProcessingStatus, 'isExtracting' | 'isSaving'>>>({});
+    const unitDetails = useMemo(() => sortedUnits.reduce((acc, unit) => {
+        acc[unit.id] = {
+            ...initialUnitImportJob(),
+            ...unitImportJobs[unit.id],
+            isExtracting: unitActivity[unit.id]?.isExtracting ?? false,
+            isSaving: unitActivity[unit.id]?.isSaving ?? false,
+        };
+        return acc;
+    }, {} as Record<string, UnitProcessingStatus>), [sortedUnits, unitImportJobs, unitActivity]);
+    const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+    const [editingUnit, setEditingUnit] = useState<Unit | 'new' | null>(null);
+    const [mergingUnit, setMergingUnit] = useState<Unit | null>(null);
+    const [deletingUnit, setDeletingUnit] = useState<Unit | null>(null);
+    const [wordPackExportUnit, setWordPackExportUnit] = useState<Unit | null>(null);
+    const textbookNames = useMemo(() => Array.from(new Set(sortedUnits.map(unit => unit.textbook).filter(Boolean))), [sortedUnits]);
+    const [packExportTextbook, setPackExportTextbook] = useState('');
+    const [spreadsheetImport, setSpreadsheetImport] = useState<{ unitId: string; file: File } | null>(null);
+    const existingTermsForImport = useMemo(() => new Set(allWords.map(w => w.term.toLowerCase())), [allWords]);
+    const unitWordCounts = useMemo(() => allWords.reduce((counts, word) => {
+        if (word.unitId) counts[word.unitId] = (counts[word.unitId] || 0) + 1;
+        return counts;
+    }, {} as Record<string, number>), [allWords]);
+    const getAbortSignal = useAbortOnUnmount();
+
+    const getUnit = (unitId: string) => units.find(unit => unit.id === unitId);
+    const getUnitTitle = (unitId: string) => getUnit(unitId)?.title ?? '';
+    // Words extracted for a unit are ranked for, and saved with, the unit's grade
+    const getUnitGrade = (unitId: string) => getUnit(unitId)?.gradeLevel ?? userSettings.grade;
+
+    const handleSaveUnit = (fields: Pick<Unit, 'title' | 'textbook' | 'gradeLevel'>) => {
+        if (editingUnit === 'new') {
+            onUnitsChange(prev => [...prev, { id: createUnitId(), ...fields, order: getNextUnitOrder(prev) }]);
+            addToast(`'${fields.title}' 단원을 만들었습니다.`, "success");
+        } else if (editingUnit) {
+            onUnitsChange(prev => prev.map(unit => unit.id === editingUnit.id ? { ...unit, ...fields } : unit));
+            addToast(`'${fields.title}' 단원 정보를 수정했습니다.`, "success");
+        }
+        setEditingUnit(null);
+    };
 
+    // Swaps a unit with its neighbour and renumbers the whole list so orders stay contiguous
+    const handleMoveUnit = (unitId: string, direction: -1 | 1) => {
+        onUnitsChange(prev => {
+            const ordered = sortUnits(prev);
+            const index = ordered.findIndex(unit => unit.id === unitId);
+            const swapIndex = index + direction;
+            if (index < 0 || swapIndex < 0 || swapIndex >= ordered.length) return prev;
+            [ordered[index], ordered[swapIndex]] = [ordered[swapIndex], ordered[index]];
+            return ordered.map((unit, order) => ({ ...unit, order }));
+        });
+    };
 
-    const updateUnitState = (unitNumber: number, updates: Partial<UnitProcessingStatus>) => {
-        setUnitDetails(prev => ({
-            ...prev,
-            [unitNumber]: { ...prev[unitNumber], ...updates }
-        }));
+    const handleMergeUnit = (targetUnitId: string) => {
+        if (!mergingUnit) return;
+        onMergeUnits(mergingUnit.id, targetUnitId);
+        addToast(`'${mergingUnit.title}' 단원을 '${getUnitTitle(targetUnitId)}' 단원으로 합쳤습니다.`, "success");
+        setMergingUnit(null);
     };
-    
-    const addUnitLog = (unitNumber: number, message: string) => {
-        setUnitDetails(prev => ({
-            ...prev,
-            [unitNumber]: { 
-                ...prev[unitNumber], 
-                log: [...prev[unitNumber].log.slice(-4), `[${new Date().toLocaleTimeString()}] ${message}`] 
-            }
+
+    // Teachers share a textbook's units and words with their class as a pack file
+    const handleExportTextbookPack = () => {
+        const textbookName = textbookNames.includes(packExportTextbook) ? packExportTextbook : textbookNames[0];
+        if (!textbookName) return;
+        const packFile = createTextbookPackFile(textbookName, units, allWords);
+        downloadFile(JSON.stringify(packFile, null, 2), `textbook-pack-${packFile.textbook.id}.json`, 'application/json');
+        const wordCount = packFile.textbook.units.reduce((sum, unit) => sum + unit.words.length, 0);
+        addToast(`'${textbookName}' 교과서 팩을 내보냈습니다. (단원 ${packFile.textbook.units.length}개, 단어 ${wordCount}개)`, "success");
+    };
+
+    const handleConfirmDeleteUnit = () => {
+        if (!deletingUnit) return;
+        onDeleteUnit(deletingUnit.id);
+        addToast(`'${deletingUnit.title}' 단원을 삭제했습니다. 단원의 단어는 단어 목록에 남아 있습니다.`, "success");
+        setDeletingUnit(null);
+    };
+
+
+    const updateUnitJob = (unitId: string, getUpdates: (job: UnitImportJob) => Partial<UnitImportJob>) => {
+        onUnitImportJobsChange(prev => {
+            const job = { ...initialUnitImportJob(), ...prev[unitId] };
+            return { ...prev, [unitId]: { ...job, ...getUpdates(job) } };
+        });
+    };
+
+    const updateUnitState = (unitId: string, updates: Partial<UnitProcessingStatus>) => {
+        const { isExtracting, isSaving, ...jobUpdates } = updates;
+        if (isExtracting !== undefined || isSaving !== undefined) {
+            setUnitActivity(prev => ({
+                ...prev,
+                [unitId]: {
+                    isExtracting: isExtracting ?? prev[unitId]?.isExtracting ?? false,
+                    isSaving: isSaving ?? prev[unitId]?.isSaving ?? false,
+                },
+            }));
+        }
+        if (Object.keys(jobUpdates).length > 0) updateUnitJob(unitId, () => jobUpdates);
+    };
+
+    const updateExtractedWords = (unitId: string, mapWord: (word: ExtractedWordItem) => ExtractedWordItem) => {
+        updateUnitJob(unitId, job => ({ extractedWords: job.extractedWords.map(mapWord) }));
+    };
+
+    const addUnitLog = (unitId: string, message: string) => {
+        updateUnitJob(unitId, job => ({
+            log: [...job.log.slice(-(UNIT_LOG_MAX_ENTRIES - 1)), `[${new Date().toLocaleTimeString()}] ${message}`],
         }));
     };
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, unitNumber: number) => {
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, unitId: string) => {
         const file = event.target.files?.[0];
         if (file) {
-            updateUnitState(unitNumber, { 
+            updateUnitState(unitId, { 
                 fileName: file.name, 
                 extractedWords: [], 
                 log: [], // Reset log for new file
                 isExtracting: false, 
                 isSaving: false 
             });
-            addUnitLog(unitNumber, `'${file.name}' 선택됨.`);
-            addToast(`${unitNumber}단원에 '${file.name}' 파일이 선택되었습니다. '단어 추출'을 진행하세요.`, "info");
+            addUnitLog(unitId, `'${file.name}' 선택됨.`);
+            addToast(`'${getUnitTitle(unitId)}' 단원에 '${file.name}' 파일이 선택되었습니다. '단어 추출'을 진행하세요.`, "info");
         } else {
-            updateUnitState(unitNumber, { fileName: null, extractedWords: [], log: [], isExtracting: false, isSaving: false });
-            addUnitLog(unitNumber, "파일 선택 취소됨.");
+            updateUnitState(unitId, { fileName: null, extractedWords: [], log: [], isExtracting: false, isSaving: false });
+            addUnitLog(unitId, "파일 선택 취소됨.");
         }
     };
     
-    const handleExtractWords = async (unitNumber: number) => {
-        const currentUnit = unitDetails[unitNumber];
-        const fileInput = fileInputRefs.current[unitNumber];
+    // Reads rendered pages one at a time (only one page image is held in memory) and returns their combined text.
+    // Pages that cannot be read are logged and skipped, so the rest of the file can still be used.
+    const recognizePagesWithOcr = async (unitId: string, pageLabels: string[], renderPage: (index: number) => Promise<{ data: string; mimeType: string }>) => {
+        if (!isAiAvailable()) {
+            addUnitLog(unitId, `이미지 텍스트 인식 건너뜀: ${getAiUnavailableReason()}.`);
+            addToast("사진이나 스캔 페이지의 글자를 읽으려면 Gemini API를 사용할 수 있어야 합니다.", "warning");
+            return "";
+        }
+        if (pageLabels.length > OCR_MAX_PAGES) {
+            addUnitLog(unitId, `스캔 페이지가 많아 처음 ${OCR_MAX_PAGES}개만 인식합니다.`);
+        }
+        const signal = getAbortSignal();
+        let recognizedText = "";
+        for (const [index, label] of pageLabels.slice(0, OCR_MAX_PAGES).entries()) {
+            if (signal?.aborted) break;
+            addUnitLog(unitId, `${label} 텍스트 인식 중...`);
+            let pageImage: { data: string; mimeType: string };
+            try {
+                pageImage = await renderPage(index);
+            } catch (error) {
+                console.error(`Error rendering ${label} for OCR:`, error);
+                addUnitLog(unitId, `${label} 이미지를 불러오지 못함. 건너뜀.`);
+                continue;
+            }
+            const pageText = await extractTextFromImageWithGemini(pageImage, addToast, { signal });
+            if (pageText === null) {
+                addUnitLog(unitId, `${label} 텍스트 인식 실패. 건너뜀.`);
+            } else {
+                addUnitLog(unitId, pageText.trim() ? `${label} 텍스트 인식 완료.` : `${label}에서 영어 텍스트를 찾지 못함.`);
+                recognizedText += pageText + "\n";
+            }
+        }
+        return recognizedText;
+    };
+
+    const handleExtractWords = async (unitId: string) => {
+        const currentUnit = unitDetails[unitId];
+        const fileInput = fileInputRefs.current[unitId];
         const file = fileInput?.files?.[0];
 
         if (!file) {
-            addToast(`먼저 ${unitNumber}단원 파일을 선택해주세요.`, "warning");
+            addToast(`먼저 '${getUnitTitle(unitId)}' 단원 파일을 선택해주세요.`, "warning");
             return;
         }
 
-        updateUnitState(unitNumber, { isExtracting: true, extractedWords: [], log:[] });
-        addUnitLog(unitNumber, `'${currentUnit.fileName || file.name}'에서 단어 추출 시작...`);
+        updateUnitState(unitId, { isExtracting: true, extractedWords: [], log:[] });
+        addUnitLog(unitId, `'${currentUnit.fileName || file.name}'에서 단어 추출 시작...`);
         setGlobalLoading(true);
 
         try {
             let textContentFromFile = "";
-            if (file.type === "application/pdf") {
+            if (file.type === "application/pdf" || file.name.toLowerCase().endsWith('.pdf')) {
                 const arrayBuffer = await file.arrayBuffer();
                 const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i);
-                    const textContent = await page.getTextContent();
-                    textContentFromFile += textContent.items.map(item => ('str' in item ? item.str : '')).join(" ") + "\n";
+                try {
+                    const scannedPageNumbers: number[] = [];
+                    for (let i = 1; i <= pdf.numPages; i++) {
+                        const page = await pdf.getPage(i);
+                        const textContent = await page.getTextContent();
+                        const pageText = textContent.items.map(item => ('str' in item ? item.str : '')).join(" ");
+                        if ((pageText.match(/[A-Za-z]/g) || []).length < OCR_MIN_TEXT_LAYER_LETTERS) scannedPageNumbers.push(i);
+                        else textContentFromFile += pageText + "\n";
+                    }
+                    if (scannedPageNumbers.length > 0) {
+                        addUnitLog(unitId, `텍스트 층이 없는 스캔 페이지 ${scannedPageNumbers.length}개 발견: ${scannedPageNumbers.join(', ')}쪽.`);
+                        textContentFromFile += await recognizePagesWithOcr(
+                            unitId,
+                            scannedPageNumbers.map(pageNumber => `${pageNumber}쪽`),
+                            async index => renderPdfPageForOcr(await pdf.getPage(scannedPageNumbers[index]))
+                        );
+                    }
+                } finally {
+                    await pdf.destroy();
                 }
+            } else if (isOcrImageFile(file)) {
+                textContentFromFile = await recognizePagesWithOcr(unitId, ['사진'], () => renderImageFileForOcr(file));
             } else if (file.type === "text/plain" || file.name.endsWith('.txt')) {
                 textContentFromFile = await file.text();
             } else if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls') || file.name.endsWith('.csv')) {
@@ -2407,184 +6401,382 @@ const WordsByUnitScreen: React.FC<WordsByUnitScreenProps> = ({ userSettings, onN
                      if (Array.isArray(row)) textContentFromFile += row.join(" ") + "\n";
                  });
             } else {
-                addToast("지원하지 않는 파일 형식입니다. PDF, TXT, XLSX, CSV 파일만 지원됩니다.", "error");
-                addUnitLog(unitNumber, "오류: 지원하지 않는 파일 형식");
-                updateUnitState(unitNumber, { isExtracting: false });
+                addToast("지원하지 않는 파일 형식입니다. PDF, TXT, XLSX, CSV, 이미지 파일만 지원됩니다.", "error");
+                addUnitLog(unitId, "오류: 지원하지 않는 파일 형식");
+                updateUnitState(unitId, { isExtracting: false });
                 setGlobalLoading(false);
                 return;
             }
             
             const existingTerms = new Set(allWords.map(w => w.term.toLowerCase()));
-            const wordRegex = /\b[a-zA-Z]{3,20}\b/g; // Words with 3-20 letters
-            const extractedRawWords = textContentFromFile.toLowerCase().match(wordRegex) || [];
-            const uniqueNewWords = Array.from(new Set(extractedRawWords.filter(word => !existingTerms.has(word)))).sort();
-
-            if (uniqueNewWords.length > 0) {
-                const newExtractedItems: ExtractedWordItem[] = uniqueNewWords.map(text => ({ text, selected: true }));
-                updateUnitState(unitNumber, { extractedWords: newExtractedItems, selectAllExtracted: true });
-                addUnitLog(unitNumber, `완료: ${uniqueNewWords.length}개의 새로운 단어 추출됨.`);
-                addToast(`${unitNumber}단원에서 ${uniqueNewWords.length}개의 새로운 단어를 추출했습니다. 확인 후 저장하세요.`, "success");
+            const candidates = extractVocabularyCandidates(textContentFromFile, getUnitGrade(unitId), existingTerms);
+            const recommendedCount = candidates.filter(c => c.isRecommended).length;
+
+            const historyEntry: UnitImportHistoryEntry = {
+                id: `import-${Date.now()}`,
+                fileName: currentUnit.fileName || file.name,
+                importedAt: new Date().toISOString(),
+                extractedCount: candidates.length,
+                savedCount: 0,
+            };
+            updateUnitJob(unitId, job => ({
+                currentImportId: historyEntry.id,
+                history: [historyEntry, ...job.history].slice(0, UNIT_IMPORT_HISTORY_MAX_ENTRIES),
+            }));
+
+            if (candidates.length > 0) {
+                const newExtractedItems: ExtractedWordItem[] = candidates.map(candidate => ({
+                    text: candidate.text,
+                    selected: candidate.isRecommended,
+                    status: 'pending',
+                    frequency: candidate.frequency,
+                    tier: candidate.tier,
+                    isPhrase: candidate.isPhrase,
+                    isRecommended: candidate.isRecommended,
+                }));
+                updateUnitState(unitId, { extractedWords: newExtractedItems, selectAllExtracted: recommendedCount === candidates.length });
+                addUnitLog(unitId, `완료: ${candidates.length}개의 새로운 단어/표현 추출됨 (숙어 ${candidates.filter(c => c.isPhrase).length}개). 학년 수준과 빈도에 맞는 ${recommendedCount}개를 추천 선택했습니다.`);
+                addToast(`'${getUnitTitle(unitId)}' 단원에서 ${candidates.length}개의 새로운 단어를 추출하고 ${recommendedCount}개를 추천했습니다. 확인 후 저장하세요.`, "success");
             } else {
-                addUnitLog(unitNumber, "완료: 새로운 단어 없음 (이미 존재하거나 파일 내용 부족).");
-                addToast(`${unitNumber}단원에서 새로운 단어를 찾지 못했습니다. (이미 추가되었거나 파일에 없음)`, "info");
-                 updateUnitState(unitNumber, { extractedWords: [] });
+                addUnitLog(unitId, "완료: 새로운 단어 없음 (이미 존재하거나 파일 내용 부족).");
+                addToast(`'${getUnitTitle(unitId)}' 단원에서 새로운 단어를 찾지 못했습니다. (이미 추가되었거나 파일에 없음)`, "info");
+                 updateUnitState(unitId, { extractedWords: [] });
+            }
+
+            updateUnitJob(unitId, () => ({ summary: null }));
+            if (textContentFromFile.trim() && isAiAvailable()) {
+                addUnitLog(unitId, "AI 단원 요약 및 핵심 어휘 선정 중...");
+                const result = await generateSummaryWithGemini(textContentFromFile, candidates.map(c => c.text), addToast, () => {}, { signal: getAbortSignal() }); // The extraction owns the loading state
+                if (result) {
+                    updateUnitJob(unitId, () => ({ summary: result.summary }));
+                    addUnitLog(unitId, "단원 요약 생성 완료.");
+                }
+                // The AI's choice replaces the offline recommendation; without it the frequency-based picks stay
+                if (result && result.keyVocabulary.length > 0) {
+                    const keyTerms = new Set(result.keyVocabulary);
+                    updateExtractedWords(unitId, w => ({ ...w, selected: keyTerms.has(w.text), isRecommended: keyTerms.has(w.text), isKeyVocabulary: keyTerms.has(w.text) }));
+                    updateUnitJob(unitId, job => ({ selectAllExtracted: job.extractedWords.every(w => w.selected) }));
+                    addUnitLog(unitId, `AI가 핵심 어휘 ${keyTerms.size}개를 골라 선택했습니다.`);
+                } else if (result && candidates.length > 0) {
+                    addUnitLog(unitId, "AI가 핵심 어휘를 고르지 못해 빈도 기반 추천을 유지합니다.");
+                }
             }
 
         } catch (error) {
-            console.error(`Error extracting words for unit ${unitNumber}:`, error);
+            console.error(`Error extracting words for unit ${unitId}:`, error);
             const errorMsg = error instanceof Error ? error.message : "알 수 없는 오류";
-            addUnitLog(unitNumber, `추출 오류: ${errorMsg}`);
-            addToast(`${unitNumber}단원 단어 추출 중 오류: ${errorMsg}`, "error");
+            addUnitLog(unitId, `추출 오류: ${errorMsg}`);
+            addToast(`'${getUnitTitle(unitId)}' 단원 단어 추출 중 오류: ${errorMsg}`, "error");
         } finally {
-            updateUnitState(unitNumber, { isExtracting: false });
+            updateUnitState(unitId, { isExtracting: false });
             setGlobalLoading(false);
         }
     };
 
-    const handleSaveWords = async (unitNumber: number) => {
-        if (!process.env.API_KEY) {
-            addToast("단어 저장을 위해 API 키를 설정해주세요.", "error");
-            addUnitLog(unitNumber, "오류: API 키 필요");
-            return;
-        }
-        if (isCurrentlyGeminiQuotaExhausted) {
-             addToast("Gemini API 할당량이 소진되어 단어 저장을 할 수 없습니다. 잠시 후 다시 시도해주세요.", "error");
-             addUnitLog(unitNumber, "오류: Gemini API 할당량 소진");
-             return;
-        }
-
-        const currentUnit = unitDetails[unitNumber];
-        const wordsToSave = currentUnit.extractedWords.filter(w => w.selected);
+    // Saves the unit's selected words that are still pending or already enriched, or with `retryFailed` the words that failed.
+    // Word states are persisted as they change, so an import interrupted by a reload can be resumed.
+    const handleSaveWords = async (unitId: string, retryFailed = false) => {
+        const currentUnit = unitDetails[unitId];
+        const wordsToSave = currentUnit.extractedWords.filter(w =>
+            retryFailed ? w.status === 'failed' : w.selected && (w.status === 'pending' || w.status === 'enriched')
+        );
 
         if (wordsToSave.length === 0) {
-            addToast(`${unitNumber}단원: 저장할 단어를 선택해주세요.`, "warning");
-            addUnitLog(unitNumber, "저장 시도: 선택된 단어 없음.");
+            addToast(`'${getUnitTitle(unitId)}' 단원: 저장할 단어를 선택해주세요.`, "warning");
+            addUnitLog(unitId, "저장 시도: 선택된 단어 없음.");
             return;
         }
 
-        updateUnitState(unitNumber, { isSaving: true });
-        setGlobalLoading(true);
-        addUnitLog(unitNumber, `${wordsToSave.length}개 단어 저장 시작...`);
-
-        let newlySavedCount = 0;
-        let geminiLookupFailedCount = 0;
-        const wordsSuccessfullyProcessedTerms: string[] = [];
+        // Words enriched before an interruption already have their AI details and only need saving
+        const enrichedWords = wordsToSave.filter(w => w.status === 'enriched' && isCompleteWordDetails(w.details));
+        const wordsToLookUp = wordsToSave.filter(w => !enrichedWords.includes(w));
+        if (wordsToLookUp.length > 0) {
+            if (!process.env.API_KEY) {
+                addToast("단어 저장을 위해 API 키를 설정해주세요.", "error");
+                addUnitLog(unitId, "오류: API 키 필요");
+                return;
+            }
+            if (isCurrentlyOffline) {
+                addToast("오프라인 상태라 단어 정보를 가져올 수 없습니다. 인터넷에 연결되면 다시 저장해주세요.", "error");
+                addUnitLog(unitId, "오류: 오프라인");
+                return;
+            }
+            if (isCurrentlyGeminiQuotaExhausted) {
+                 addToast("Gemini API 할당량이 소진되어 단어 저장을 할 수 없습니다. 잠시 후 다시 시도해주세요.", "error");
+                 addUnitLog(unitId, "오류: Gemini API 할당량 소진");
+                 return;
+            }
+        }
 
+        updateUnitState(unitId, { isSaving: true });
+        setGlobalLoading(true);
+        if (retryFailed) {
+            updateExtractedWords(unitId, w => w.status === 'failed' ? { ...w, status: 'pending' } : w);
+            addUnitLog(unitId, `실패한 ${wordsToSave.length}개 단어 다시 저장 시작...`);
+        } else if (currentUnit.extractedWords.some(w => w.status !== 'pending')) {
+            addUnitLog(unitId, `중단된 작업 이어서 저장: ${wordsToSave.length}개 단어 남음.`);
+        } else {
+            addUnitLog(unitId, `${wordsToSave.length}개 단어 저장 시작...`);
+        }
 
-        for (const wordItem of wordsToSave) {
-            addUnitLog(unitNumber, `'${wordItem.text}' AI 정보 조회 시도...`);
-            // Pass setGlobalLoading as false to generateWordDetailsWithGemini to avoid multiple global spinner flashes during loop.
-            // The outer setGlobalLoading(true) is already active.
-            const details = await generateWordDetailsWithGemini(wordItem.text, addToast, () => {}); 
+        try {
+            let newlySavedCount = 0;
+            let geminiLookupFailedCount = 0;
+            const wordsSuccessfullyProcessedTerms: string[] = [];
+            const signal = getAbortSignal();
 
-            if (details && details.meaning && details.partOfSpeech && details.exampleSentence) {
-                addUnitLog(unitNumber, `'${wordItem.text}' AI 정보 조회 성공. 저장 시도...`);
+            const saveEnrichedWord = async (term: string, details: Partial<Word>) => {
                 const wasNewlyAdded = await onSaveCustomWord(
-                    { ...details, term: wordItem.text, gradeLevel: userSettings.grade, isCustom: true },
-                    userSettings.grade,
-                    unitNumber
-                ); 
+                    { ...details, term, gradeLevel: getUnitGrade(unitId), isCustom: true },
+                    getUnitGrade(unitId),
+                    unitId
+                );
 
                 if (wasNewlyAdded) {
                     newlySavedCount++;
-                    addUnitLog(unitNumber, `'${wordItem.text}' 새 단어로 저장 성공.`);
+                    addUnitLog(unitId, `'${term}' 새 단어로 저장 성공.`);
+                    updateUnitJob(unitId, job => ({
+                        history: job.history.map(entry => entry.id === job.currentImportId ? { ...entry, savedCount: entry.savedCount + 1 } : entry),
+                    }));
                 } else {
-                    addUnitLog(unitNumber, `'${wordItem.text}'은(는) 이미 시스템에 존재하거나 다른 이유로 새로 추가되지 않았습니다.`);
+                    addUnitLog(unitId, `'${term}'은(는) 이미 시스템에 존재하거나 다른 이유로 새로 추가되지 않았습니다.`);
                 }
-                wordsSuccessfullyProcessedTerms.push(wordItem.text);
-            } else {
-                geminiLookupFailedCount++;
-                addUnitLog(unitNumber, `'${wordItem.text}' AI 정보 조회 실패. 저장 건너뜀.`);
+                updateExtractedWords(unitId, w => w.text === term ? { ...w, status: 'saved' } : w);
+                wordsSuccessfullyProcessedTerms.push(term);
+            };
+
+            for (const wordItem of enrichedWords) {
+                addUnitLog(unitId, `'${wordItem.text}' 이전에 조회한 AI 정보로 저장 시도...`);
+                await saveEnrichedWord(wordItem.text, wordItem.details!);
+            }
+
+            if (wordsToLookUp.length > 0) {
+                addUnitLog(unitId, `AI 정보 조회 요청: ${Math.ceil(wordsToLookUp.length / WORD_DETAILS_BATCH_SIZE)}개 묶음 (묶음당 최대 ${WORD_DETAILS_BATCH_SIZE}개 단어). 누락된 단어는 개별로 다시 조회합니다.`);
+                // Each word is saved as soon as its details arrive
+                await generateWordDetailsBatchWithGemini(wordsToLookUp.map(w => w.text), getUnitGrade(unitId), addToast, async (term, details, source) => {
+                    if (signal?.aborted) return;
+
+                    if (isCompleteWordDetails(details)) {
+                        updateExtractedWords(unitId, w => w.text === term ? { ...w, status: 'enriched', details } : w);
+                        addUnitLog(unitId, `'${term}' AI 정보 조회 성공${source === 'single' ? ' (개별 재조회)' : ''}. 저장 시도...`);
+                        await saveEnrichedWord(term, details);
+                    } else {
+                        geminiLookupFailedCount++;
+                        updateExtractedWords(unitId, w => w.text === term ? { ...w, status: 'failed' } : w);
+                        addUnitLog(unitId, `'${term}' AI 정보 조회 실패. 저장 건너뜀.`);
+                    }
+                }, { signal });
+            }
+            if (signal?.aborted) return; // Left the screen; unfinished words stay pending and can be resumed
+
+            let summaryMessage = `'${getUnitTitle(unitId)}' 단원 처리: ${wordsSuccessfullyProcessedTerms.length}개 단어 AI 정보 조회 및 처리 완료.`;
+            if (newlySavedCount > 0) summaryMessage += ` 그 중 ${newlySavedCount}개가 새 단어로 저장됨.`;
+            if (geminiLookupFailedCount > 0) summaryMessage += ` ${geminiLookupFailedCount}개 단어는 AI 정보 조회 실패.`;
+
+            if (wordsToSave.length > 0 && wordsSuccessfullyProcessedTerms.length === 0 && geminiLookupFailedCount === wordsToSave.length) {
+                 summaryMessage = `'${getUnitTitle(unitId)}' 단원: 선택된 모든 단어의 AI 정보 조회에 실패했습니다.`;
+            } else if (wordsToSave.length > 0 && newlySavedCount === 0 && geminiLookupFailedCount === 0 && wordsSuccessfullyProcessedTerms.length > 0) {
+                summaryMessage = `'${getUnitTitle(unitId)}' 단원: 선택된 단어 처리 완료. 새로 저장된 단어 없음 (대부분 이미 존재).`;
+            }
+
+
+            addToast(summaryMessage, newlySavedCount > 0 ? "success" : (geminiLookupFailedCount > 0 || (wordsToSave.length > 0 && newlySavedCount === 0) ? "warning" : "info"));
+            addUnitLog(unitId, `저장 작업 요약: ${summaryMessage}`);
+
+            // Saved words are done; what is left (unselected or failed) stays in the list
+            const remainingWordsCount = currentUnit.extractedWords.filter(
+                ew => ew.status !== 'saved' && !wordsSuccessfullyProcessedTerms.includes(ew.text)
+            ).length;
+            updateUnitState(unitId, { isSaving: false });
+            updateUnitJob(unitId, job => {
+                const remainingWords = job.extractedWords.filter(w => w.status !== 'saved');
+                return {
+                    extractedWords: remainingWords,
+                    selectAllExtracted: remainingWords.every(w => w.selected) || remainingWords.length === 0,
+                };
+            });
+
+            if (remainingWordsCount === 0 && currentUnit.fileName) {
+                addUnitLog(unitId, `모든 추출된 단어 처리 완료. '${currentUnit.fileName}' 파일 선택 해제됨.`);
+                if (fileInputRefs.current[unitId]) {
+                    fileInputRefs.current[unitId]!.value = '';
+                }
+                updateUnitState(unitId, { fileName: null, currentImportId: null });
             }
-            await new Promise(resolve => setTimeout(resolve, 300)); 
+        } finally {
+            setGlobalLoading(false);
         }
+    };
 
-        const newExtractedWordsList = currentUnit.extractedWords.filter(
-            ew => !wordsSuccessfullyProcessedTerms.includes(ew.text)
-        );
 
-        let summaryMessage = `${unitNumber}단원 처리: ${wordsSuccessfullyProcessedTerms.length}개 단어 AI 정보 조회 및 처리 완료.`;
-        if (newlySavedCount > 0) summaryMessage += ` 그 중 ${newlySavedCount}개가 새 단어로 저장됨.`;
-        if (geminiLookupFailedCount > 0) summaryMessage += ` ${geminiLookupFailedCount}개 단어는 AI 정보 조회 실패.`;
-        
-        if (wordsToSave.length > 0 && wordsSuccessfullyProcessedTerms.length === 0 && geminiLookupFailedCount === wordsToSave.length) {
-             summaryMessage = `${unitNumber}단원: 선택된 모든 단어의 AI 정보 조회에 실패했습니다.`;
-        } else if (wordsToSave.length > 0 && newlySavedCount === 0 && geminiLookupFailedCount === 0 && wordsSuccessfullyProcessedTerms.length > 0) {
-            summaryMessage = `${unitNumber}단원: 선택된 단어 처리 완료. 새로 저장된 단어 없음 (대부분 이미 존재).`;
+    // Imports rows confirmed in the spreadsheet modal. Complete rows are saved as they are; for the rest the AI only
+    // fills in the empty fields, and whatever the sheet provides wins over the AI's suggestion.
+    const handleOpenSpreadsheetImport = (unitId: string) => {
+        const file = fileInputRefs.current[unitId]?.files?.[0];
+        if (!file) {
+            addToast(`먼저 '${getUnitTitle(unitId)}' 단원 파일을 선택해주세요.`, "warning");
+            return;
         }
+        setSpreadsheetImport({ unitId, file });
+    };
 
+    const handleImportSpreadsheetRows = async (unitId: string, fileName: string, rows: SpreadsheetRowValidation[], sheetName: string) => {
+        setSpreadsheetImport(null);
+        const readyRows = rows.filter(r => r.status === 'ready');
+        const incompleteRows = rows.filter(r => r.status === 'needsAi');
+        const canUseAi = isAiAvailable();
+        const excludedCount = rows.length - readyRows.length - incompleteRows.length;
+
+        const historyEntry: UnitImportHistoryEntry = {
+            id: `import-${Date.now()}`,
+            fileName: `${fileName} (${sheetName})`,
+            importedAt: new Date().toISOString(),
+            extractedCount: readyRows.length + incompleteRows.length,
+            savedCount: 0,
+        };
+        updateUnitJob(unitId, job => ({ history: [historyEntry, ...job.history].slice(0, UNIT_IMPORT_HISTORY_MAX_ENTRIES) }));
+        updateUnitState(unitId, { isSaving: true });
+        setGlobalLoading(true);
+        addUnitLog(unitId, `'${sheetName}' 시트 가져오기 시작: 완성된 행 ${readyRows.length}개, 빈 칸 있는 행 ${incompleteRows.length}개, 제외 ${excludedCount}개.`);
 
-        addToast(summaryMessage, newlySavedCount > 0 ? "success" : (geminiLookupFailedCount > 0 || (wordsToSave.length > 0 && newlySavedCount === 0) ? "warning" : "info"));
-        addUnitLog(unitNumber, `저장 작업 요약: ${summaryMessage}`);
+        try {
+            let newlySavedCount = 0;
+            let notSavedCount = 0;
+            const signal = getAbortSignal();
 
-        updateUnitState(unitNumber, {
-            isSaving: false,
-            extractedWords: newExtractedWordsList,
-            selectAllExtracted: newExtractedWordsList.every(w => w.selected) || newExtractedWordsList.length === 0,
-        });
+            const saveRow = async (row: SpreadsheetRowValidation, details: Partial<Word>) => {
+                const wasNewlyAdded = await onSaveCustomWord(
+                    { ...details, gradeLevel: getUnitGrade(unitId), isCustom: true },
+                    getUnitGrade(unitId),
+                    unitId
+                );
+                if (wasNewlyAdded) {
+                    newlySavedCount++;
+                    addUnitLog(unitId, `${row.rowNumber}행 '${row.word.term}' 저장 성공.`);
+                    updateUnitJob(unitId, job => ({
+                        history: job.history.map(entry => entry.id === historyEntry.id ? { ...entry, savedCount: entry.savedCount + 1 } : entry),
+                    }));
+                } else {
+                    notSavedCount++;
+                    addUnitLog(unitId, `${row.rowNumber}행 '${row.word.term}'은(는) 이미 존재하거나 값이 올바르지 않아 저장되지 않았습니다.`);
+                }
+            };
+
+            for (const row of readyRows) {
+                await saveRow(row, row.word);
+            }
 
-        if (newExtractedWordsList.length === 0 && fileInputRefs.current[unitNumber]?.files?.length && currentUnit.fileName) {
-            addUnitLog(unitNumber, `모든 추출된 단어 처리 완료. '${currentUnit.fileName}' 파일 선택 해제됨.`);
-            if (fileInputRefs.current[unitNumber]) {
-                fileInputRefs.current[unitNumber]!.value = ''; 
+            if (incompleteRows.length > 0 && canUseAi) {
+                addUnitLog(unitId, `빈 칸이 있는 ${incompleteRows.length}개 행의 나머지 정보를 AI로 조회합니다.`);
+                const rowsByTerm = new Map(incompleteRows.map(row => [row.word.term!, row]));
+                await generateWordDetailsBatchWithGemini(Array.from(rowsByTerm.keys()), getUnitGrade(unitId), addToast, async (term, details) => {
+                    if (signal?.aborted) return;
+                    const row = rowsByTerm.get(term)!;
+                    const merged = { ...details, ...row.word };
+                    if (isCompleteWordDetails(merged)) {
+                        await saveRow(row, merged);
+                    } else {
+                        notSavedCount++;
+                        addUnitLog(unitId, `${row.rowNumber}행 '${term}' AI 정보 조회 실패. 저장 건너뜀.`);
+                    }
+                }, { signal });
+            } else if (incompleteRows.length > 0) {
+                notSavedCount += incompleteRows.length;
+                addUnitLog(unitId, `API 키가 없거나 할당량이 소진되어 빈 칸이 있는 ${incompleteRows.length}개 행을 건너뜀: ${incompleteRows.map(r => r.rowNumber).join(', ')}행.`);
             }
-            updateUnitState(unitNumber, { fileName: null });
+            if (signal?.aborted) return;
+
+            let summaryMessage = `'${getUnitTitle(unitId)}' 단원 표 가져오기: ${newlySavedCount}개 단어 저장됨.`;
+            if (notSavedCount > 0) summaryMessage += ` ${notSavedCount}개 행은 저장되지 않음.`;
+            if (excludedCount > 0) summaryMessage += ` ${excludedCount}개 행은 중복 또는 잘못된 값으로 제외됨.`;
+            addToast(summaryMessage, newlySavedCount > 0 ? "success" : "warning");
+            addUnitLog(unitId, `가져오기 요약: ${summaryMessage}`);
+
+            updateUnitState(unitId, { isSaving: false });
+        } finally {
+            setGlobalLoading(false);
         }
-        setGlobalLoading(false);
     };
 
-
-    const handleToggleExtractedWord = (unitNumber: number, wordText: string) => {
-        const currentUnit = unitDetails[unitNumber];
+    const handleToggleExtractedWord = (unitId: string, wordText: string) => {
+        const currentUnit = unitDetails[unitId];
         const updatedWords = currentUnit.extractedWords.map(w =>
             w.text === wordText ? { ...w, selected: !w.selected } : w
         );
-        updateUnitState(unitNumber, {
+        updateUnitState(unitId, {
+            extractedWords: updatedWords,
+            selectAllExtracted: updatedWords.every(w => w.selected)
+        });
+    };
+
+    const handleSelectRecommendedExtracted = (unitId: string) => {
+        const updatedWords = unitDetails[unitId].extractedWords.map(w => w.status === 'saved' ? w : { ...w, selected: !!w.isRecommended });
+        updateUnitState(unitId, {
             extractedWords: updatedWords,
             selectAllExtracted: updatedWords.every(w => w.selected)
         });
     };
 
-    const handleToggleSelectAllExtracted = (unitNumber: number) => {
-        const currentUnit = unitDetails[unitNumber];
+    const handleToggleSelectAllExtracted = (unitId: string) => {
+        const currentUnit = unitDetails[unitId];
         const newSelectAllState = !currentUnit.selectAllExtracted;
         const updatedWords = currentUnit.extractedWords.map(w => ({ ...w, selected: newSelectAllState }));
-        updateUnitState(unitNumber, {
+        updateUnitState(unitId, {
             extractedWords: updatedWords,
             selectAllExtracted: newSelectAllState
         });
     };
     
 
-    const renderUnitCard = (unitNumber: number) => {
-        const unitData = unitDetails[unitNumber];
+    const renderUnitCard = (unit: Unit, index: number) => {
+        const unitId = unit.id;
+        const unitData = unitDetails[unitId];
         if (!unitData) return null;
-        const canExtract = !!unitData.fileName && !unitData.isExtracting && !unitData.isSaving;
-        const canSave = unitData.extractedWords.length > 0 && unitData.extractedWords.some(w => w.selected) && !unitData.isSaving && !unitData.isExtracting;
+        const isBusy = unitData.isExtracting || unitData.isSaving;
+        const canExtract = !!unitData.fileName && !isBusy;
+        const canSave = unitData.extractedWords.some(w => w.selected && (w.status === 'pending' || w.status === 'enriched')) && !isBusy;
+        const failedCount = unitData.extractedWords.filter(w => w.status === 'failed').length;
+        // Some words already went through the AI or were saved, so the job was interrupted or partly failed
+        const isResumable = canSave && unitData.extractedWords.some(w => w.status !== 'pending');
 
         return (
-            <div key={unitNumber} className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-md">
-                <h3 className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 mb-3">{unitNumber}단원</h3>
+            <div key={unitId} className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-md">
+                <div className="flex items-start justify-between gap-2 mb-3">
+                    <div className="min-w-0">
+                        <h3 className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 truncate" title={unit.title}>{unit.title}</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                            {[unit.textbook, VOCABULARY_TIER_LABELS[unit.gradeLevel as VocabularyTier] ?? unit.gradeLevel].filter(Boolean).join(' · ')}
+                        </p>
+                    </div>
+                    <div className="flex shrink-0 text-sm">
+                        <button onClick={() => handleMoveUnit(unitId, -1)} disabled={isBusy || index === 0} className="p-1 disabled:opacity-30" aria-label={`${unit.title} 위로 이동`} title="위로 이동">↑</button>
+                        <button onClick={() => handleMoveUnit(unitId, 1)} disabled={isBusy || index === sortedUnits.length - 1} className="p-1 disabled:opacity-30" aria-label={`${unit.title} 아래로 이동`} title="아래로 이동">↓</button>
+                        <button onClick={() => setEditingUnit(unit)} disabled={isBusy} className="p-1 disabled:opacity-30" aria-label={`${unit.title} 수정`} title="이름·교과서·학년 수정">✏️</button>
+                        <button onClick={() => setMergingUnit(unit)} disabled={isBusy || sortedUnits.length < 2} className="p-1 disabled:opacity-30" aria-label={`${unit.title} 다른 단원과 합치기`} title="다른 단원과 합치기">🔀</button>
+                        <button onClick={() => setDeletingUnit(unit)} disabled={isBusy} className="p-1 disabled:opacity-30" aria-label={`${unit.title} 삭제`} title="단원 삭제">🗑️</button>
+                    </div>
+                </div>
                 
-                <label htmlFor={`file-upload-${unitNumber}`} className={`w-full mb-2 cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-cyan-500 hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 ${unitData.isExtracting || unitData.isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}>
+                <label htmlFor={`file-upload-${unitId}`} className={`w-full mb-2 cursor-pointer inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-cyan-500 hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 ${unitData.isExtracting || unitData.isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}>
                     📄 파일 선택
                 </label>
                 <input 
-                    id={`file-upload-${unitNumber}`} 
+                    id={`file-upload-${unitId}`} 
                     type="file" 
-                    accept=".pdf,.txt,.xlsx,.xls,.csv" 
-                    onChange={(e) => handleFileChange(e, unitNumber)} 
+                    accept=".pdf,.txt,.xlsx,.xls,.csv,image/*" 
+                    onChange={(e) => handleFileChange(e, unitId)} 
                     className="hidden" 
-                    ref={el => { if (el) fileInputRefs.current[unitNumber] = el; }}
+                    ref={el => { if (el) fileInputRefs.current[unitId] = el; }}
                     disabled={unitData.isExtracting || unitData.isSaving}
                 />
                 <p className="text-xs text-slate-500 dark:text-slate-400 mb-2 truncate" title={unitData.fileName || "파일 없음"}>
                     {unitData.fileName ? `선택됨: ${unitData.fileName}` : "파일 없음"}
                 </p>
+                {unitData.summary && <UnitSummaryNote summary={unitData.summary} className="mb-3" />}
 
                 <div className="grid grid-cols-2 gap-2 mb-3">
                     <button 
-                        onClick={() => handleExtractWords(unitNumber)} 
+                        onClick={() => handleExtractWords(unitId)} 
                         disabled={!canExtract}
                         className="w-full px-3 py-1.5 bg-teal-500 hover:bg-teal-600 text-white text-xs font-semibold rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                     >
@@ -2592,37 +6784,98 @@ const WordsByUnitScreen: React.FC<WordsByUnitScreenProps> = ({ userSettings, onN
                         {unitData.isExtracting ? '추출 중...' : '단어 추출'}
                     </button>
                     <button 
-                        onClick={() => handleSaveWords(unitNumber)} 
+                        onClick={() => handleSaveWords(unitId)} 
                         disabled={!canSave}
                         className="w-full px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white text-xs font-semibold rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                     >
                          <span role="img" aria-label="save" className="mr-1.5">💾</span>
-                         {unitData.isSaving ? '저장 중...' : '단어 저장'}
+                         {unitData.isSaving ? '저장 중...' : isResumable ? '이어서 저장' : '단어 저장'}
                     </button>
                 </div>
+                {unitWordCounts[unitId] > 0 && (
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                        <button
+                            onClick={() => onNavigate('learnWords', { unitId })}
+                            disabled={isBusy}
+                            className="col-span-2 w-full px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white text-xs font-semibold rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            📖 이 단원 단어 학습 ({unitWordCounts[unitId]}개)
+                        </button>
+                        <button
+                            onClick={() => setWordPackExportUnit(unit)}
+                            disabled={isBusy}
+                            className="w-full px-3 py-1.5 bg-teal-500 hover:bg-teal-600 text-white text-xs font-semibold rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            📦 팩 공유
+                        </button>
+                    </div>
+                )}
+                {unitData.fileName && isSpreadsheetFileName(unitData.fileName) && (
+                    <button
+                        onClick={() => handleOpenSpreadsheetImport(unitId)}
+                        disabled={isBusy}
+                        title="단어, 뜻, 품사, 예문 열이 있는 표를 그대로 가져옵니다."
+                        className="w-full mb-3 px-3 py-1.5 bg-indigo-500 hover:bg-indigo-600 text-white text-xs font-semibold rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        📊 표 형식으로 가져오기
+                    </button>
+                )}
+                {failedCount > 0 && !isBusy && (
+                    <button
+                        onClick={() => handleSaveWords(unitId, true)}
+                        className="w-full mb-3 px-3 py-1.5 bg-orange-500 hover:bg-orange-600 text-white text-xs font-semibold rounded-md shadow-sm"
+                    >
+                        🔁 실패한 단어 {failedCount}개 재시도
+                    </button>
+                )}
+                {isResumable && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mb-2">중단된 저장 작업이 있습니다. '이어서 저장'을 누르면 남은 단어부터 계속합니다.</p>
+                )}
 
                 {unitData.extractedWords.length > 0 && (
                     <div className="mt-3 border-t border-slate-300 dark:border-slate-600 pt-3">
                         <div className="flex justify-between items-center mb-1">
                             <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">추출된 단어 ({unitData.extractedWords.filter(w=>w.selected).length}/{unitData.extractedWords.length} 선택됨)</h4>
-                            <button 
-                                onClick={() => handleToggleSelectAllExtracted(unitNumber)}
-                                className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline"
-                            >
-                                {unitData.selectAllExtracted ? '모두 선택 해제' : '모두 선택'}
-                            </button>
+                            <span className="space-x-2">
+                                {unitData.extractedWords.some(w => w.isRecommended) && (
+                                    <button
+                                        onClick={() => handleSelectRecommendedExtracted(unitId)}
+                                        className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline"
+                                    >
+                                        추천만 선택
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={() => handleToggleSelectAllExtracted(unitId)}
+                                    className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline"
+                                >
+                                    {unitData.selectAllExtracted ? '모두 선택 해제' : '모두 선택'}
+                                </button>
+                            </span>
                         </div>
                         <ul className="max-h-32 overflow-y-auto space-y-1 bg-slate-200 dark:bg-slate-600 p-2 rounded custom-scrollbar text-xs">
                             {unitData.extractedWords.map(word => (
                                 <li key={word.text} className="flex items-center">
                                     <input 
                                         type="checkbox" 
-                                        id={`word-${unitNumber}-${word.text}`} 
+                                        id={`word-${unitId}-${word.text.replace(/\s+/g, '-')}`} 
                                         checked={word.selected} 
-                                        onChange={() => handleToggleExtractedWord(unitNumber, word.text)}
+                                        onChange={() => handleToggleExtractedWord(unitId, word.text)}
+                                        disabled={word.status === 'saved'}
                                         className="mr-2 h-3 w-3 rounded border-slate-400 dark:border-slate-500 text-cyan-600 focus:ring-cyan-500"
                                     />
-                                    <label htmlFor={`word-${unitNumber}-${word.text}`} className="text-slate-700 dark:text-slate-200">{word.text}</label>
+                                    <label htmlFor={`word-${unitId}-${word.text.replace(/\s+/g, '-')}`} className={`text-slate-700 dark:text-slate-200 ${word.isPhrase ? 'italic' : ''}`}>{word.text}</label>
+                                    {word.isKeyVocabulary && <span className="ml-1" title="AI가 고른 핵심 어휘" aria-label="핵심 어휘">🔑</span>}
+                                    {word.tier && (
+                                        <span className="ml-1.5 text-[10px] text-slate-500 dark:text-slate-400" title={`난이도 ${VOCABULARY_TIER_LABELS[word.tier]}, 파일에서 ${word.frequency ?? 0}회 등장`}>
+                                            {VOCABULARY_TIER_LABELS[word.tier]}{word.frequency && word.frequency > 1 ? ` ×${word.frequency}` : ''}
+                                        </span>
+                                    )}
+                                    {word.status !== 'pending' && (
+                                        <span className="ml-auto pl-2" title={UNIT_IMPORT_WORD_STATUS_LABELS[word.status]} aria-label={UNIT_IMPORT_WORD_STATUS_LABELS[word.status]}>
+                                            {word.status === 'enriched' ? '🧠' : word.status === 'saved' ? '✅' : '⚠️'}
+                                        </span>
+                                    )}
                                 </li>
                             ))}
                         </ul>
@@ -2637,20 +6890,330 @@ const WordsByUnitScreen: React.FC<WordsByUnitScreenProps> = ({ userSettings, onN
                         </ul>
                     </div>
                 )}
+
+                {unitData.history.length > 0 && (
+                    <details className="mt-3 border-t border-slate-300 dark:border-slate-600 pt-2">
+                        <summary className="text-xs font-semibold text-slate-600 dark:text-slate-400 cursor-pointer">가져온 파일 기록 ({unitData.history.length})</summary>
+                        <ul className="mt-1 text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+                            {unitData.history.map(entry => (
+                                <li key={entry.id} className="flex justify-between gap-2">
+                                    <span className="truncate" title={entry.fileName}>{entry.fileName}</span>
+                                    <span className="flex-shrink-0">{new Date(entry.importedAt).toLocaleDateString()} · 추출 {entry.extractedCount} · 저장 {entry.savedCount}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
             </div>
         );
     };
     
     return (
         <div className="p-4 sm:p-6">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">단원별 단어 학습</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {Object.keys(unitDetails).map(unitNumStr => renderUnitCard(Number(unitNumStr)))}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400">단원별 단어 학습</h1>
+                <div className="flex flex-wrap items-center gap-2">
+                    {textbookNames.length > 0 && (
+                        <>
+                            {textbookNames.length > 1 && (
+                                <select value={packExportTextbook || textbookNames[0]} onChange={e => setPackExportTextbook(e.target.value)} aria-label="내보낼 교과서" className="p-2 text-sm bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600">
+                                    {textbookNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                </select>
+                            )}
+                            <button onClick={handleExportTextbookPack} title="교과서 이름이 같은 단원과 단어를 팩 파일로 저장합니다" className="px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white text-sm font-semibold rounded-md shadow-sm">📤 교과서 팩 내보내기</button>
+                        </>
+                    )}
+                    <button onClick={() => setEditingUnit('new')} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold rounded-md shadow-sm">+ 단원 추가</button>
+                </div>
+            </div>
+            {sortedUnits.length === 0 ? (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-10">아직 단원이 없습니다. '+ 단원 추가'로 교과서 단원을 만들어 보세요.</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {sortedUnits.map((unit, index) => renderUnitCard(unit, index))}
+                </div>
+            )}
+            {editingUnit && (
+                <UnitFormModal
+                    unit={editingUnit === 'new' ? null : editingUnit}
+                    defaultGrade={userSettings.grade}
+                    onSave={handleSaveUnit}
+                    onCancel={() => setEditingUnit(null)}
+                />
+            )}
+            {wordPackExportUnit && (
+                <WordPackExportModal
+                    words={allWords.filter(word => word.unitId === wordPackExportUnit.id)}
+                    units={units}
+                    defaultTitle={getUnitLabel(wordPackExportUnit)}
+                    author={userSettings.username}
+                    onClose={() => setWordPackExportUnit(null)}
+                    addToast={addToast}
+                />
+            )}
+            {mergingUnit && (
+                <UnitMergeModal sourceUnit={mergingUnit} units={units} onMerge={handleMergeUnit} onCancel={() => setMergingUnit(null)} />
+            )}
+            <ConfirmationModal
+                isOpen={!!deletingUnit}
+                title="단원 삭제"
+                message={`'${deletingUnit?.title ?? ''}' 단원과 가져오기 기록을 삭제하시겠습니까? 단원의 단어는 삭제되지 않고 '단원 없음'으로 남습니다.`}
+                onConfirm={handleConfirmDeleteUnit}
+                onCancel={() => setDeletingUnit(null)}
+                confirmText="삭제"
+            />
+            {spreadsheetImport && (
+                <SpreadsheetImportModal
+                    file={spreadsheetImport.file}
+                    unitTitle={getUnitTitle(spreadsheetImport.unitId)}
+                    existingTerms={existingTermsForImport}
+                    canUseAi={isAiAvailable()}
+                    onImport={(rows, sheetName) => handleImportSpreadsheetRows(spreadsheetImport.unitId, spreadsheetImport.file.name, rows, sheetName)}
+                    onCancel={() => setSpreadsheetImport(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+
+// Study analytics on the stats screen, drawn from the daily activity log
+type StatsRangePreset = '7' | '30' | '90' | '365' | 'all';
+
+const STATS_RANGE_PRESETS: { preset: StatsRangePreset; label: string }[] = [
+    { preset: '7', label: '7일' },
+    { preset: '30', label: '30일' },
+    { preset: '90', label: '90일' },
+    { preset: '365', label: '1년' },
+    { preset: 'all', label: '전체' },
+];
+
+const HARDEST_WORDS_LIMIT = 10;
+
+interface ActivityChartPoint {
+    date: string;
+    value: number | null; // null when there is nothing to plot for the day, e.g. no quiz taken
+}
+
+const formatChartDate = (date: string) => `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}`;
+
+const getActivityCount = (day: DailyActivity | undefined) => day ? day.wordsLearned + day.reviews + day.quizzes : 0;
+
+const getDateRange = (from: string, to: string) => {
+    const dates: string[] = [];
+    for (let date = from; date <= to; date = addDaysToDateString(date, 1)) dates.push(date);
+    return dates;
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = { top: 10, right: 10, bottom: 20, left: 40 };
+
+interface ActivityLineChartProps {
+    title: string;
+    points: ActivityChartPoint[];
+    colorClassName: string; // Text color class; the line is drawn in `currentColor`
+    formatValue: (value: number) => string;
+    minValue?: number;
+    maxValue?: number; // Fixed top of the scale, e.g. 100 for percentages
+}
+
+// Days without a value are skipped and the line joins the days around them
+const ActivityLineChart: React.FC<ActivityLineChartProps> = ({ title, points, colorClassName, formatValue, minValue = 0, maxValue }) => {
+    const plotted = points.map((point, index) => ({ ...point, index })).filter((point): point is ActivityChartPoint & { value: number; index: number } => point.value !== null);
+    const top = maxValue ?? Math.max(minValue + 1, ...plotted.map(point => point.value));
+    const bottom = Math.min(minValue, ...plotted.map(point => point.value));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const getX = (index: number) => CHART_PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : plotWidth / 2);
+    const getY = (value: number) => CHART_PADDING.top + (1 - (value - bottom) / Math.max(1, top - bottom)) * plotHeight;
+    const axisLabelDates = points.length > 2 ? [points[0], points[Math.floor((points.length - 1) / 2)], points[points.length - 1]] : points;
+
+    return (
+        <div className="bg-slate-200 dark:bg-slate-600 p-3 rounded-md">
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-1">{title}</h4>
+            {plotted.length === 0 ? (
+                <p className="text-xs text-slate-500 dark:text-slate-400 py-8 text-center">이 기간의 기록이 없습니다.</p>
+            ) : (
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={`w-full h-auto ${colorClassName}`} role="img" aria-label={title}>
+                    {[top, (top + bottom) / 2, bottom].map(value => (
+                        <g key={value}>
+                            <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={getY(value)} y2={getY(value)} className="stroke-slate-300 dark:stroke-slate-500" strokeDasharray="4 4" />
+                            <text x={CHART_PADDING.left - 6} y={getY(value) + 4} textAnchor="end" className="fill-slate-500 dark:fill-slate-300 text-[11px]">{formatValue(value)}</text>
+                        </g>
+                    ))}
+                    {axisLabelDates.map((point, index) => (
+                        <text key={point.date} x={getX(points.indexOf(point))} y={CHART_HEIGHT - 4} textAnchor={index === 0 ? 'start' : index === axisLabelDates.length - 1 ? 'end' : 'middle'} className="fill-slate-500 dark:fill-slate-300 text-[11px]">{formatChartDate(point.date)}</text>
+                    ))}
+                    <polyline points={plotted.map(point => `${getX(point.index)},${getY(point.value)}`).join(' ')} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" />
+                    {plotted.map(point => (
+                        <circle key={point.date} cx={getX(point.index)} cy={getY(point.value)} r={points.length > 60 ? 1.5 : 3} fill="currentColor">
+                            <title>{`${point.date}: ${formatValue(point.value)}`}</title>
+                        </circle>
+                    ))}
+                </svg>
+            )}
+        </div>
+    );
+};
+
+const HEATMAP_LEVEL_CLASSES = ['bg-slate-200 dark:bg-slate-600', 'bg-cyan-200 dark:bg-cyan-900', 'bg-cyan-400 dark:bg-cyan-700', 'bg-cyan-600 dark:bg-cyan-500', 'bg-cyan-800 dark:bg-cyan-300'];
+const HEATMAP_WEEKDAY_LABELS = ['', '월', '', '수', '', '금', ''];
+
+// GitHub-style calendar: one column per week (Sunday first), darker days had more activity
+const StudyCalendarHeatmap: React.FC<{ from: string; to: string; activityByDate: Map<string, DailyActivity> }> = ({ from, to, activityByDate }) => {
+    const firstSunday = addDaysToDateString(from, -new Date(`${from}T00:00:00.000Z`).getUTCDay());
+    const weeks = getDateRange(firstSunday, to).reduce<string[][]>((result, date, index) => {
+        if (index % 7 === 0) result.push([]);
+        result[result.length - 1].push(date);
+        return result;
+    }, []);
+    const maxCount = Math.max(1, ...getDateRange(from, to).map(date => getActivityCount(activityByDate.get(date))));
+    const getLevel = (count: number) => count === 0 ? 0 : Math.min(4, Math.ceil((count / maxCount) * 4));
+
+    return (
+        <div className="bg-slate-200 dark:bg-slate-600 p-3 rounded-md">
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">학습 달력</h4>
+            <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+                <div className="flex flex-col gap-1 mr-1 pt-4">
+                    {HEATMAP_WEEKDAY_LABELS.map((label, index) => <span key={index} className="h-3 text-[10px] leading-3 text-slate-500 dark:text-slate-300">{label}</span>)}
+                </div>
+                {weeks.map((week, weekIndex) => {
+                    const monthStart = week.find(date => date >= from && date.endsWith('-01')) || (weekIndex === 0 ? week.find(date => date >= from) : undefined);
+                    return (
+                        <div key={week[0]} className="flex flex-col gap-1">
+                            <span className="h-3 text-[10px] leading-3 text-slate-500 dark:text-slate-300 whitespace-nowrap">{monthStart ? `${Number(monthStart.slice(5, 7))}월` : ''}</span>
+                            {week.map(date => {
+                                if (date < from) return <span key={date} className="w-3 h-3" />;
+                                const day = activityByDate.get(date);
+                                const count = getActivityCount(day);
+                                return (
+                                    <span
+                                        key={date}
+                                        className={`w-3 h-3 rounded-sm ${HEATMAP_LEVEL_CLASSES[getLevel(count)]}`}
+                                        title={day ? `${date}: 단어 ${day.wordsLearned}개, 복습 ${day.reviews}회, 퀴즈 ${day.quizzes}회` : `${date}: 학습 기록 없음`}
+                                    />
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex items-center justify-end gap-1 mt-2 text-[10px] text-slate-500 dark:text-slate-300">
+                적음 {HEATMAP_LEVEL_CLASSES.map(className => <span key={className} className={`w-3 h-3 rounded-sm ${className}`} />)} 많음
             </div>
         </div>
     );
 };
 
+interface StudyAnalyticsPanelProps {
+    activityLog: DailyActivity[];
+    currentXp: number;
+}
+
+const StudyAnalyticsPanel: React.FC<StudyAnalyticsPanelProps> = ({ activityLog, currentXp }) => {
+    const today = getTodayDateString();
+    const [preset, setPreset] = useState<StatsRangePreset | null>('30');
+    const [from, setFrom] = useState(() => addDaysToDateString(today, -29));
+    const [to, setTo] = useState(today);
+
+    const applyPreset = (nextPreset: StatsRangePreset) => {
+        setPreset(nextPreset);
+        setFrom(nextPreset === 'all' ? (activityLog[0]?.date && activityLog[0].date < today ? activityLog[0].date : today) : addDaysToDateString(today, -(Number(nextPreset) - 1)));
+        setTo(today);
+    };
+
+    const activityByDate = useMemo(() => new Map(activityLog.map(day => [day.date, day])), [activityLog]);
+    const dates = useMemo(() => getDateRange(from, to), [from, to]);
+    const daysInRange = useMemo(() => dates.map(date => activityByDate.get(date)).filter((day): day is DailyActivity => !!day), [dates, activityByDate]);
+
+    // XP from before the log existed is not dated, so it is counted as the starting point of the growth line
+    const xpByDate = useMemo(() => {
+        const startingXp = currentXp - activityLog.reduce((sum, day) => sum + day.xpEarned, 0);
+        let runningXp = startingXp;
+        let logIndex = 0;
+        return new Map(dates.map(date => {
+            while (logIndex < activityLog.length && activityLog[logIndex].date <= date) runningXp += activityLog[logIndex++].xpEarned;
+            return [date, Math.max(0, runningXp)];
+        }));
+    }, [activityLog, currentXp, dates]);
+
+    const totals = daysInRange.reduce((sum, day) => ({
+        wordsLearned: sum.wordsLearned + day.wordsLearned,
+        reviews: sum.reviews + day.reviews,
+        quizCorrect: sum.quizCorrect + day.quizCorrect,
+        quizQuestions: sum.quizQuestions + day.quizQuestions,
+        xpEarned: sum.xpEarned + day.xpEarned,
+    }), { wordsLearned: 0, reviews: 0, quizCorrect: 0, quizQuestions: 0, xpEarned: 0 });
+    const studyDays = daysInRange.filter(day => getActivityCount(day) > 0).length;
+
+    const renderSummary = (label: string, value: string) => (
+        <div className="bg-slate-200 dark:bg-slate-600 p-2 rounded-md text-center">
+            <p className="text-xs text-slate-500 dark:text-slate-300">{label}</p>
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{value}</p>
+        </div>
+    );
+
+    return (
+        <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">기간별 학습 분석</h3>
+                <div className="flex flex-wrap gap-1" role="group" aria-label="기간 선택">
+                    {STATS_RANGE_PRESETS.map(option => (
+                        <button
+                            key={option.preset}
+                            onClick={() => applyPreset(option.preset)}
+                            aria-pressed={preset === option.preset}
+                            className={`px-3 py-1 text-sm rounded-md ${preset === option.preset ? 'bg-cyan-500 text-white' : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-500'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input type="date" value={from} max={to} onChange={e => { if (e.target.value) { setFrom(e.target.value); setPreset(null); } }} className="p-1 bg-white dark:bg-slate-800 rounded border border-slate-300 dark:border-slate-600" aria-label="시작일" />
+                <span>~</span>
+                <input type="date" value={to} min={from} max={today} onChange={e => { if (e.target.value) { setTo(e.target.value); setPreset(null); } }} className="p-1 bg-white dark:bg-slate-800 rounded border border-slate-300 dark:border-slate-600" aria-label="종료일" />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {renderSummary("학습한 날", `${studyDays} / ${dates.length}일`)}
+                {renderSummary("학습한 단어", `${totals.wordsLearned}개`)}
+                {renderSummary("복습·문제 풀이", `${totals.reviews}회`)}
+                {renderSummary("퀴즈 정답률", totals.quizQuestions > 0 ? `${Math.round((totals.quizCorrect / totals.quizQuestions) * 100)}%` : '-')}
+                {renderSummary("획득 XP", `${totals.xpEarned} XP`)}
+            </div>
+
+            <StudyCalendarHeatmap from={from} to={to} activityByDate={activityByDate} />
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                <ActivityLineChart
+                    title="일별 학습 단어"
+                    points={dates.map(date => ({ date, value: activityByDate.get(date)?.wordsLearned ?? 0 }))}
+                    colorClassName="text-cyan-500"
+                    formatValue={value => `${Math.round(value)}개`}
+                />
+                <ActivityLineChart
+                    title="일별 퀴즈 정답률"
+                    points={dates.map(date => {
+                        const day = activityByDate.get(date);
+                        return { date, value: day && day.quizQuestions > 0 ? Math.round((day.quizCorrect / day.quizQuestions) * 100) : null };
+                    })}
+                    colorClassName="text-emerald-500"
+                    formatValue={value => `${Math.round(value)}%`}
+                    maxValue={100}
+                />
+            </div>
+            <ActivityLineChart
+                title="XP 성장"
+                points={dates.map(date => ({ date, value: xpByDate.get(date) ?? null }))}
+                colorClassName="text-yellow-500"
+                formatValue={value => `${Math.round(value)}`}
+                minValue={Math.min(...dates.map(date => xpByDate.get(date) ?? 0))}
+            />
+        </div>
+    );
+};
 
 // Stats Screen Component
 interface StatsScreenProps extends ScreenProps {
@@ -2659,9 +7222,19 @@ interface StatsScreenProps extends ScreenProps {
     learnedWordsTodayCount: number;
     learningStreak: { currentStreak: number; bestStreak: number };
     averageQuizScore: number;
+    onCreateBackup: () => Promise<LearningDataBackup>;
+    onRestoreBackup: (backup: LearningDataBackup, mode: BackupRestoreMode) => void;
+    units: Unit[];
+    activityLog: DailyActivity[];
 }
-const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, learnedWordsTodayCount, learningStreak, averageQuizScore, addToast }) => {
-    
+const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, units, learnedWordsTodayCount, learningStreak, averageQuizScore, activityLog, addToast, onCreateBackup, onRestoreBackup }) => {
+    const [pendingBackup, setPendingBackup] = useState<LearningDataBackup | null>(null);
+    const [showReplaceConfirmModal, setShowReplaceConfirmModal] = useState(false);
+    const backupFileInputRef = useRef<HTMLInputElement>(null);
+    const [aiContentUsage, setAiContentUsage] = useState<AiContentUsage | null>(null);
+    const [deviceStorageEstimate, setDeviceStorageEstimate] = useState<StorageEstimate | null>(null);
+    const [showClearAiContentModal, setShowClearAiContentModal] = useState(false);
+
     const totalWords = allWords.length;
     const customWordsCount = allWords.filter(w => w.isCustom).length;
     const masteredWordsCount = Object.values(wordStats).filter(stat => stat.isMastered).length;
@@ -2676,17 +7249,90 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, all
         return counts;
     }, [allWords]);
 
+    const textbookScope = useMemo(() => getTextbookScope(units, allWords, userSettings.textbook), [units, allWords, userSettings.textbook]);
+
+    // With a textbook selected, only its units are listed, as a progress overview through the book
     const wordsByUnit = useMemo(() => {
-        const units: Record<string, number> = {};
+        const counts = new Map<string, { count: number; mastered: number }>();
         allWords.forEach(word => {
-            if(word.unit){
-                const unitKey = `Unit ${word.unit}`;
-                units[unitKey] = (units[unitKey] || 0) + 1;
-            }
+            if (!word.unitId || (textbookScope && !textbookScope.unitIds.has(word.unitId))) return;
+            const entry = counts.get(word.unitId) || { count: 0, mastered: 0 };
+            entry.count++;
+            if (wordStats[word.id]?.isMastered) entry.mastered++;
+            counts.set(word.unitId, entry);
         });
-        return Object.entries(units).sort((a,b) => parseInt(a[0].replace("Unit ","")) - parseInt(b[0].replace("Unit ","")));
-    }, [allWords]);
+        return sortUnits(units).filter(unit => counts.has(unit.id)).map(unit => ({ unit, ...counts.get(unit.id)! }));
+    }, [allWords, wordStats, units, textbookScope]);
+
+    const hardestWords = useMemo(() => allWords
+        .map(word => ({ word, stat: wordStats[word.id] }))
+        .filter(({ stat }) => stat && stat.quizIncorrectCount > 0)
+        .sort((a, b) => b.stat.quizIncorrectCount - a.stat.quizIncorrectCount || (b.stat.lastReviewed || '').localeCompare(a.stat.lastReviewed || ''))
+        .slice(0, HARDEST_WORDS_LIMIT), [allWords, wordStats]);
+
+
+    const customWords = useMemo(() => allWords.filter(w => w.isCustom), [allWords]);
+
+    const refreshStorageUsage = useCallback(async () => {
+        try {
+            setAiContentUsage(await getAiContentUsage());
+            if (navigator.storage?.estimate) setDeviceStorageEstimate(await navigator.storage.estimate());
+        } catch (error) {
+            console.warn("Could not read storage usage:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshStorageUsage();
+    }, [refreshStorageUsage]);
+
+    const handleClearAiContent = async (includePinned: boolean) => {
+        setShowClearAiContentModal(false);
+        try {
+            const removedCount = await clearAiContentCache(includePinned);
+            addToast(removedCount > 0 ? `AI 콘텐츠 ${removedCount}개를 삭제했습니다.` : "삭제할 AI 콘텐츠가 없습니다.", removedCount > 0 ? "success" : "info");
+        } catch (error) {
+            console.error("Failed to clear AI content cache:", error);
+            addToast("AI 콘텐츠를 정리하지 못했습니다.", "error");
+        }
+        refreshStorageUsage();
+    };
+
+    const handleExportBackup = async () => {
+        const backup = await onCreateBackup();
+        downloadFile(JSON.stringify(backup, null, 2), `ai-vocab-backup-${getTodayDateString()}.json`, 'application/json');
+        addToast(`학습 데이터를 백업 파일로 내보냈습니다. (단어 ${backup.data.allWords.length}개, 학습 기록 ${Object.keys(backup.data.wordStats).length}개)`, "success");
+    };
+
+    const handleExportCustomWords = (format: 'csv' | 'xlsx') => {
+        if (customWords.length === 0) {
+            addToast("내보낼 나의 단어가 없습니다.", "info");
+            return;
+        }
+        exportWordsAsSheet(customWords, units, format, `my-words-${getTodayDateString()}`);
+        addToast(`나의 단어 ${customWords.length}개를 ${format.toUpperCase()} 파일로 내보냈습니다.`, "success");
+    };
+
+    const handleBackupFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        try {
+            const backup = parseLearningDataBackup(await file.text());
+            setPendingBackup(backup);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : "알 수 없는 오류";
+            console.error("Error reading backup file:", error);
+            addToast(`백업 파일을 불러올 수 없습니다: ${errorMsg}`, "error");
+        }
+    };
 
+    const handleRestore = (mode: BackupRestoreMode) => {
+        if (!pendingBackup) return;
+        onRestoreBackup(pendingBackup, mode);
+        setPendingBackup(null);
+        setShowReplaceConfirmModal(false);
+    };
 
     const renderStatCard = (title: string, value: string | number, subtext?: string, icon?: string) => (
         <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg text-center">
@@ -2731,25 +7377,157 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, all
                 </div>
             </div>
 
-            {wordsByUnit.length > 0 && (
-                <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
-                    <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">단원별 단어 수</h3>
-                    <ul className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 text-sm">
-                        {wordsByUnit.map(([unit, count]) => (
-                            <li key={unit} className="flex justify-between p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
-                                <span className="text-slate-700 dark:text-slate-300">{unit}</span>
-                                <span className="font-semibold text-cyan-700 dark:text-cyan-300">{count}개</span>
-                            </li>
-                        ))}
+            <StudyAnalyticsPanel activityLog={activityLog} currentXp={userSettings.xp} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {wordsByUnit.length > 0 && (
+                    <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">{textbookScope ? `'${textbookScope.label}' 단원별 마스터율` : '단원별 마스터율'}</h3>
+                        <ul className="max-h-64 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                            {wordsByUnit.map(({ unit, count, mastered }) => {
+                                const masteryPercent = Math.round((mastered / count) * 100);
+                                return (
+                                    <li key={unit.id} className="p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="text-slate-700 dark:text-slate-300 truncate">{textbookScope ? unit.title : getUnitLabel(unit)}</span>
+                                            <span className="font-semibold text-cyan-700 dark:text-cyan-300 whitespace-nowrap">{masteryPercent}% <span className="font-normal text-xs text-slate-500 dark:text-slate-400">({mastered}/{count})</span></span>
+                                        </div>
+                                        <div className="w-full bg-slate-300 dark:bg-slate-500 rounded-full h-1.5 mt-1 overflow-hidden" role="progressbar" aria-valuenow={masteryPercent} aria-valuemin={0} aria-valuemax={100}>
+                                            <div className="bg-cyan-500 h-full rounded-full" style={{ width: `${masteryPercent}%` }} />
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
+                <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                    <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">가장 어려운 단어</h3>
+                    {hardestWords.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">아직 퀴즈에서 틀린 단어가 없습니다.</p>
+                    ) : (
+                        <ol className="max-h-64 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                            {hardestWords.map(({ word, stat }, index) => (
+                                <li key={word.id} className="flex items-center gap-2 p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                    <span className="w-5 text-right font-bold text-slate-500 dark:text-slate-400">{index + 1}</span>
+                                    <span className="font-semibold text-slate-800 dark:text-white">{word.term}</span>
+                                    <span className="flex-1 truncate text-slate-600 dark:text-slate-300">{word.meaning}</span>
+                                    {stat.isMastered && <span className="text-xs text-green-600 dark:text-green-400" title="지금은 마스터한 단어">✓</span>}
+                                    <span className="font-semibold text-red-500 whitespace-nowrap">오답 {stat.quizIncorrectCount}회</span>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg space-y-3">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">학습 데이터 백업 및 복원</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400">브라우저 캐시를 지우거나 기기를 바꾸기 전에 백업 파일을 저장해두세요. 설정, 단어, 학습 기록, 퀴즈 기록, 연속 학습일이 모두 포함됩니다.</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <button
+                        onClick={handleExportBackup}
+                        className="py-2 px-4 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-md"
+                    >
+                        📦 전체 백업 내보내기 (JSON)
+                    </button>
+                    <button
+                        onClick={() => backupFileInputRef.current?.click()}
+                        className="py-2 px-4 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-md"
+                    >
+                        📥 백업 파일 불러오기
+                    </button>
+                    <input ref={backupFileInputRef} type="file" accept=".json,application/json" onChange={handleBackupFileChange} className="hidden" aria-label="백업 파일 선택" />
+                </div>
+                <div className="border-t border-slate-300 dark:border-slate-600 pt-3">
+                    <p className="text-sm text-slate-700 dark:text-slate-300 mb-2">나의 단어 목록 내보내기 ({customWords.length}개)</p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <button
+                            onClick={() => handleExportCustomWords('csv')}
+                            disabled={customWords.length === 0}
+                            className="py-2 px-4 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white text-sm font-semibold rounded-md shadow-md disabled:opacity-50"
+                        >
+                            📄 CSV
+                        </button>
+                        <button
+                            onClick={() => handleExportCustomWords('xlsx')}
+                            disabled={customWords.length === 0}
+                            className="py-2 px-4 bg-green-600 hover:bg-green-700 text-white text-sm font-semibold rounded-md shadow-md disabled:opacity-50"
+                        >
+                            📊 Excel (XLSX)
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg space-y-3">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">AI 콘텐츠 저장 공간</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400">AI로 만든 이미지와 예문은 이 기기에 저장되어 다시 볼 때 바로 표시됩니다. 공간이 부족하면 오래 보지 않은 콘텐츠부터 자동으로 정리되며, 즐겨찾기(★)한 콘텐츠는 유지됩니다.</p>
+                {aiContentUsage ? (
+                    <ul className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                        <li>이미지 {aiContentUsage.imageCount}개 · 예문 {aiContentUsage.exampleCount}개 (즐겨찾기 {aiContentUsage.pinnedCount}개)</li>
+                        <li>사용 중: {formatBytes(aiContentUsage.totalBytes)} / 최대 {formatBytes(AI_CACHE_MAX_BYTES)}</li>
+                        {deviceStorageEstimate?.usage !== undefined && deviceStorageEstimate.quota !== undefined && (
+                            <li className="text-xs text-slate-500 dark:text-slate-400">이 앱 전체 사용량: {formatBytes(deviceStorageEstimate.usage)} / 사용 가능: {formatBytes(deviceStorageEstimate.quota)}</li>
+                        )}
                     </ul>
+                ) : (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">사용량을 확인하는 중...</p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                    <button
+                        onClick={() => handleClearAiContent(false)}
+                        disabled={!aiContentUsage || aiContentUsage.imageCount + aiContentUsage.exampleCount === aiContentUsage.pinnedCount}
+                        className="py-2 px-4 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white text-sm font-semibold rounded-md shadow-md disabled:opacity-50"
+                    >
+                        🧹 즐겨찾기 외 정리
+                    </button>
+                    <button
+                        onClick={() => setShowClearAiContentModal(true)}
+                        disabled={!aiContentUsage || aiContentUsage.imageCount + aiContentUsage.exampleCount === 0}
+                        className="py-2 px-4 bg-red-500 hover:bg-red-600 text-white text-sm font-semibold rounded-md shadow-md disabled:opacity-50"
+                    >
+                        🗑️ 모두 삭제
+                    </button>
+                </div>
+            </div>
+
+            {pendingBackup && !showReplaceConfirmModal && (
+                <div role="dialog" aria-modal="true" aria-labelledby="restore-backup-modal-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+                    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md">
+                        <h3 id="restore-backup-modal-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400 mb-3">백업 불러오기</h3>
+                        <ul className="text-sm text-slate-600 dark:text-slate-300 mb-4 space-y-1">
+                            <li>내보낸 날짜: {pendingBackup.exportedAt ? new Date(pendingBackup.exportedAt).toLocaleString() : '알 수 없음'}</li>
+                            <li>사용자: {pendingBackup.data.userSettings?.username || '-'}</li>
+                            <li>단어: {pendingBackup.data.allWords.length}개 (나의 단어 {pendingBackup.data.allWords.filter(w => w.isCustom).length}개)</li>
+                            <li>학습 기록: {Object.keys(pendingBackup.data.wordStats).length}개 / 퀴즈 기록: {pendingBackup.data.quizHistory.length}회</li>
+                        </ul>
+                        <p className="text-sm text-slate-600 dark:text-slate-300 mb-5">
+                            <span className="font-semibold">병합</span>은 현재 데이터를 유지하면서 백업의 새 단어와 더 최근 학습 기록을 추가합니다. <span className="font-semibold">교체</span>는 현재 데이터를 모두 백업 내용으로 덮어씁니다.
+                        </p>
+                        <div className="flex justify-end space-x-3">
+                            <button onClick={() => setPendingBackup(null)} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
+                            <button onClick={() => setShowReplaceConfirmModal(true)} className="px-4 py-2 bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-800 rounded text-white">교체</button>
+                            <button onClick={() => handleRestore('merge')} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">병합</button>
+                        </div>
+                    </div>
                 </div>
             )}
-             <button
-                onClick={() => addToast("데이터 내보내기 기능은 준비 중입니다.", "info")}
-                className="w-full mt-4 py-2 px-4 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-md"
-            >
-                학습 데이터 내보내기 (준비 중)
-            </button>
+            <ConfirmationModal
+                isOpen={!!pendingBackup && showReplaceConfirmModal}
+                title="데이터 교체 확인"
+                message="현재 기기의 모든 학습 데이터가 백업 파일의 내용으로 교체됩니다. 이 작업은 되돌릴 수 없습니다. 계속하시겠습니까?"
+                onConfirm={() => handleRestore('replace')}
+                onCancel={() => setShowReplaceConfirmModal(false)}
+                confirmText="교체"
+            />
+            <ConfirmationModal
+                isOpen={showClearAiContentModal}
+                title="AI 콘텐츠 모두 삭제"
+                message="즐겨찾기한 콘텐츠를 포함해 이 기기에 저장된 모든 AI 이미지와 예문이 삭제됩니다. 계속하시겠습니까?"
+                onConfirm={() => handleClearAiContent(true)}
+                onCancel={() => setShowClearAiContentModal(false)}
+                confirmText="삭제"
+            />
         </div>
     );
 };
@@ -2758,18 +7536,20 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, all
 // ManageWords Screen Component
 interface ManageWordsScreenProps extends ScreenProps {
     allWords: Word[]; 
-    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitNumber?: number) => Promise<boolean>;
+    onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string, unitId?: string) => Promise<boolean>;
     onDeleteCustomWord: (wordId: number | string) => void;
+    units: Unit[];
 }
-const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onNavigate, allWords, onSaveCustomWord, onDeleteCustomWord, addToast, setGlobalLoading }) => {
-    const [newWord, setNewWord] = useState<Partial<Word>>({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', gradeLevel: userSettings.grade, isCustom: true, unit: undefined });
+const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onNavigate, allWords, units, onSaveCustomWord, onDeleteCustomWord, addToast, setGlobalLoading }) => {
+    const [newWord, setNewWord] = useState<Partial<Word>>({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', gradeLevel: userSettings.grade, isCustom: true, unitId: undefined });
     const [isAddingViaAI, setIsAddingViaAI] = useState(false);
     const [isSubmittingManual, setIsSubmittingManual] = useState(false);
-    
+    const getAbortSignal = useAbortOnUnmount();
+
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
-        if (name === "unit") {
-            setNewWord(prev => ({ ...prev, [name]: value === "" ? undefined : Number(value) }));
+        if (name === "unitId") {
+            setNewWord(prev => ({ ...prev, unitId: value || undefined }));
         } else {
             setNewWord(prev => ({ ...prev, [name]: value }));
         }
@@ -2781,7 +7561,7 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
             return;
         }
         setIsAddingViaAI(true);
-        const details = await generateWordDetailsWithGemini(newWord.term.trim(), addToast, setGlobalLoading);
+        const details = await generateWordDetailsWithGemini(newWord.term.trim(), addToast, setGlobalLoading, { signal: getAbortSignal() });
         if (details) {
             setNewWord(prev => ({
                 ...prev,
@@ -2803,17 +7583,16 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
             return;
         }
         setIsSubmittingManual(true);
-        const unitNumber = newWord.unit ? Number(newWord.unit) : undefined;
-        const success = await onSaveCustomWord(newWord, newWord.gradeLevel, unitNumber);
+        const success = await onSaveCustomWord(newWord, newWord.gradeLevel, newWord.unitId);
         if (success) {
-            setNewWord({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', gradeLevel: userSettings.grade, isCustom: true, unit: undefined }); 
+            setNewWord({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', gradeLevel: userSettings.grade, isCustom: true, unitId: undefined }); 
             addToast(`'${newWord.term}' 단어가 성공적으로 추가되었습니다.`, "success");
         }
         setIsSubmittingManual(false);
     };
     
-    const canUseAI = process.env.API_KEY && !isCurrentlyGeminiQuotaExhausted;
-    const aiButtonDisabledReason = !process.env.API_KEY ? "(API Key 필요)" : isCurrentlyGeminiQuotaExhausted ? "(Quota 소진)" : "";
+    const canUseAI = isAiAvailable();
+    const aiButtonDisabledReason = canUseAI ? "" : `(${getAiUnavailableReason()})`;
 
     return (
         <div className="p-4 sm:p-6">
@@ -2864,8 +7643,11 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
                         </select>
                     </div>
                      <div>
-                        <label htmlFor="unit" className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 번호 (선택)</label>
-                        <input type="number" name="unit" id="unit" value={newWord.unit === undefined ? '' : newWord.unit} onChange={handleInputChange} min="1" step="1" placeholder="예: 1" className="w-full mt-1 p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 shadow-sm" />
+                        <label htmlFor="unitId" className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 (선택)</label>
+                        <select name="unitId" id="unitId" value={newWord.unitId || ''} onChange={handleInputChange} className="w-full mt-1 p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 shadow-sm">
+                            <option value="">단원 없음</option>
+                            {sortUnits(units).map(unit => <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>)}
+                        </select>
                     </div>
                 </div>
                 <button 
@@ -2889,9 +7671,10 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
 // GameSelectionScreen
 const GameSelectionScreen: React.FC<ScreenProps> = ({ onNavigate, addToast }) => {
     const games = [
-        { id: 'wordMatchGame', name: '짝맞추기 게임', description: '단어와 뜻을 빠르게 연결하세요!', icon: '🔗', screen: 'wordMatchGame' as AppScreen},
-        { id: 'typingPracticeGame', name: '타자 연습 게임', description: '단어를 정확하고 빠르게 입력해보세요.', icon: '⌨️', screen: 'typingPracticeGame' as AppScreen },
-        { id: 'speedQuizGame', name: '스피드 퀴즈', description: '제한 시간 내에 많은 문제를 풀어보세요!', icon: '⏱️', screen: 'speedQuizGame' as AppScreen },
+        { id: 'wordMatchGame', name: '짝맞추기 게임', description: '단어와 뜻을 빠르게 연결하세요!', icon: '🔗', screen: 'wordMatchGame' as AppScreen, comingSoon: false },
+        { id: 'typingPracticeGame', name: '타자 연습 게임', description: '뜻을 보고 단어를 정확하고 빠르게 입력해보세요.', icon: '⌨️', screen: 'typingPracticeGame' as AppScreen, comingSoon: false },
+        { id: 'speedQuizGame', name: '스피드 퀴즈', description: '제한 시간 내에 많은 문제를 풀어보세요!', icon: '⏱️', screen: 'speedQuizGame' as AppScreen, comingSoon: false },
+        { id: 'pronunciationGame', name: '발음 연습 게임', description: '단어와 예문을 소리 내어 말하고 발음 점수를 받아보세요.', icon: '🎤', screen: 'pronunciationGame' as AppScreen, comingSoon: false },
     ];
 
     return (
@@ -2902,21 +7685,21 @@ const GameSelectionScreen: React.FC<ScreenProps> = ({ onNavigate, addToast }) =>
                     <button
                         key={game.id}
                         onClick={() => {
-                            if (game.id === 'typingPracticeGame' || game.id === 'speedQuizGame' ) {
+                            if (game.comingSoon) {
                                 addToast(`${game.name}은 준비 중입니다.`, "info");
                             } else {
                                 onNavigate(game.screen);
                             }
                         }}
                         className={`bg-slate-100 dark:bg-slate-700 p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow duration-200 text-center
-                                     ${(game.id === 'typingPracticeGame' || game.id === 'speedQuizGame') ? 'opacity-60 cursor-not-allowed' : 'hover:ring-2 hover:ring-cyan-500 dark:hover:ring-cyan-400'}`}
+                                     ${game.comingSoon ? 'opacity-60 cursor-not-allowed' : 'hover:ring-2 hover:ring-cyan-500 dark:hover:ring-cyan-400'}`}
                         aria-label={game.name}
-                        disabled={game.id === 'typingPracticeGame' || game.id === 'speedQuizGame'}
+                        disabled={game.comingSoon}
                     >
                         <div className="text-4xl mb-3">{game.icon}</div>
                         <h2 className="text-xl font-semibold text-cyan-700 dark:text-cyan-300 mb-2">{game.name}</h2>
                         <p className="text-sm text-slate-600 dark:text-slate-400">{game.description}</p>
-                        {(game.id === 'typingPracticeGame' || game.id === 'speedQuizGame') && <span className="mt-2 inline-block text-xs bg-yellow-400 text-slate-800 px-2 py-0.5 rounded-full">준비 중</span>}
+                        {game.comingSoon && <span className="mt-2 inline-block text-xs bg-yellow-400 text-slate-800 px-2 py-0.5 rounded-full">준비 중</span>}
                     </button>
                 ))}
             </div>
@@ -2929,6 +7712,7 @@ const GameSelectionScreen: React.FC<ScreenProps> = ({ onNavigate, addToast }) =>
 interface WordMatchGameProps extends ScreenProps {
     words: Word[];
     onGameComplete: (score: number, correct: number, incorrect: number, timeTaken: number) => void;
+    onWordReviewed: (wordId: string | number, quality: number, source: ReviewSource) => void;
 }
 
 // Define specific types for options in the game
@@ -2937,7 +7721,7 @@ type MeaningOption = { meaning: string; id: string; originalWordId: string | num
 type GameOption = TermOption | MeaningOption;
 
 
-const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNavigate, onGameComplete, addToast }) => {
+const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNavigate, onGameComplete, onWordReviewed, addToast }) => {
     const [gameWords, setGameWords] = useState<Word[]>([]);
     const [options, setOptions] = useState<GameOption[]>([]);
     const [selectedTerm, setSelectedTerm] = useState<TermOption | null>(null);
@@ -2946,6 +7730,7 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
     const [incorrectAttempts, setIncorrectAttempts] = useState(0);
     const [startTime, setStartTime] = useState<number | null>(null);
     const [isFinished, setIsFinished] = useState(false);
+    const [missedWordIds, setMissedWordIds] = useState<string[]>([]); // Original word ids involved in a wrong match
     
     const NUM_PAIRS = 5; // Number of word-meaning pairs in one game
 
@@ -2977,6 +7762,7 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
         setSelectedMeaning(null);
         setMatchedPairs([]);
         setIncorrectAttempts(0);
+        setMissedWordIds([]);
         setStartTime(Date.now());
         setIsFinished(false);
     }, [words, userSettings.grade, onNavigate, addToast]);
@@ -2991,6 +7777,10 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
             const originalIdFromMeaningOption = String(selectedMeaning.originalWordId);
 
             if (originalIdFromTerm === originalIdFromMeaningOption) { // Correct match
+                const matchedWord = gameWords.find(w => String(w.id) === originalIdFromTerm);
+                if (matchedWord) {
+                    onWordReviewed(matchedWord.id, missedWordIds.includes(originalIdFromTerm) ? 2 : 4, 'wordMatchGame');
+                }
                 setMatchedPairs(prev => [...prev, selectedTerm.id, selectedMeaning.id]);
                 setSelectedTerm(null);
                 setSelectedMeaning(null);
@@ -3005,6 +7795,7 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
             } else { // Incorrect match
                 addToast("땡! 다시 시도하세요.", "error");
                 setIncorrectAttempts(prev => prev + 1);
+                setMissedWordIds(prev => Array.from(new Set([...prev, originalIdFromTerm, originalIdFromMeaningOption])));
                 
                 const termElement = document.getElementById(selectedTerm.id);
                 const meaningElement = document.getElementById(selectedMeaning.id);
@@ -3018,7 +7809,7 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
                 }, 700);
             }
         }
-    }, [selectedTerm, selectedMeaning, gameWords, matchedPairs, incorrectAttempts, startTime, onGameComplete, onNavigate, addToast]);
+    }, [selectedTerm, selectedMeaning, gameWords, matchedPairs, incorrectAttempts, missedWordIds, startTime, onGameComplete, onWordReviewed, onNavigate, addToast]);
 
     const handleOptionClick = (option: GameOption) => {
         if (matchedPairs.includes(option.id) || isFinished) return;
@@ -3040,93 +7831,745 @@ const WordMatchGame: React.FC<WordMatchGameProps> = ({ userSettings, words, onNa
             <p className="text-sm text-slate-500 dark:text-slate-400 mb-1">단어와 뜻을 연결하세요!</p>
             <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">남은 짝: {NUM_PAIRS - matchedPairs.length/2} | 틀린 횟수: {incorrectAttempts}</p>
 
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 sm:gap-4 w-full max-w-2xl">
-                {options.map(opt => (
-                    <button
-                        key={opt.id}
-                        id={opt.id} // opt.id is now always a string
-                        onClick={() => handleOptionClick(opt)}
-                        disabled={matchedPairs.includes(opt.id) || isFinished}
-                        className={`p-3 sm:p-4 rounded-lg shadow-md text-sm sm:text-base text-center break-all min-h-[60px] flex items-center justify-center
-                            ${matchedPairs.includes(opt.id)
-                                ? 'bg-green-500 text-white cursor-default opacity-70'
-                                : (selectedTerm?.id === opt.id || selectedMeaning?.id === opt.id)
-                                    ? 'bg-yellow-400 dark:bg-yellow-600 text-slate-900 dark:text-white ring-2 ring-yellow-500'
-                                    : 'bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-white hover:bg-cyan-500 dark:hover:bg-cyan-400 hover:text-white'
-                            }
-                            transition-all duration-150 ease-in-out
-                        `}
-                    >
-                        {opt.type === 'term' ? opt.term : opt.meaning}
-                    </button>
-                ))}
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 sm:gap-4 w-full max-w-2xl">
+                {options.map(opt => (
+                    <button
+                        key={opt.id}
+                        id={opt.id} // opt.id is now always a string
+                        onClick={() => handleOptionClick(opt)}
+                        disabled={matchedPairs.includes(opt.id) || isFinished}
+                        className={`p-3 sm:p-4 rounded-lg shadow-md text-sm sm:text-base text-center break-all min-h-[60px] flex items-center justify-center
+                            ${matchedPairs.includes(opt.id)
+                                ? 'bg-green-500 text-white cursor-default opacity-70'
+                                : (selectedTerm?.id === opt.id || selectedMeaning?.id === opt.id)
+                                    ? 'bg-yellow-400 dark:bg-yellow-600 text-slate-900 dark:text-white ring-2 ring-yellow-500'
+                                    : 'bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-white hover:bg-cyan-500 dark:hover:bg-cyan-400 hover:text-white'
+                            }
+                            transition-all duration-150 ease-in-out
+                        `}
+                    >
+                        {opt.type === 'term' ? opt.term : opt.meaning}
+                    </button>
+                ))}
+            </div>
+             <button onClick={() => onNavigate('gameSelection')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">다른 게임 선택</button>
+        </div>
+    );
+};
+
+
+// GameResultScreen
+interface GameResultParams {
+    score: number;
+    correct: number;
+    incorrect: number;
+    timeTaken: number;
+    gameName: string;
+    wpm?: number;
+    accuracy?: number;
+    bestCombo?: number;
+    leaderboardRank?: number;
+}
+
+interface GameResultScreenProps extends ScreenProps {
+    routeParams?: GameResultParams;
+    isRestored?: boolean; // Shown again from the browser history or a reload; the XP was awarded the first time
+}
+const GameResultScreen: React.FC<GameResultScreenProps> = ({ onNavigate, routeParams, isRestored, userSettings, addXp }) => {
+    const { score = 0, correct = 0, incorrect = 0, timeTaken = 0, gameName = "게임", wpm, accuracy, bestCombo, leaderboardRank } = routeParams || {};
+
+    useEffect(() => {
+        if(score > 0 && !isRestored) {
+            addXp(score); // Add score as XP
+        }
+    }, [score, isRestored, addXp]);
+
+
+    return (
+        <div className="p-4 sm:p-8 text-center flex flex-col items-center justify-center min-h-[calc(100vh-150px)] sm:min-h-0">
+            <h1 className="text-3xl sm:text-4xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">🎉 {gameName} 완료! 🎉</h1>
+            <div className="bg-slate-100 dark:bg-slate-700 p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-md space-y-3">
+                <p className="text-5xl font-bold text-yellow-500 dark:text-yellow-400">{score}점</p>
+                <p className="text-lg text-slate-700 dark:text-slate-200">맞춘 개수: <span className="font-semibold text-green-500">{correct}</span></p>
+                <p className="text-lg text-slate-700 dark:text-slate-200">틀린 횟수: <span className="font-semibold text-red-500">{incorrect}</span></p>
+                <p className="text-lg text-slate-700 dark:text-slate-200">걸린 시간: <span className="font-semibold">{timeTaken}초</span></p>
+                {wpm !== undefined && <p className="text-lg text-slate-700 dark:text-slate-200">타자 속도: <span className="font-semibold">{wpm} WPM</span></p>}
+                {accuracy !== undefined && <p className="text-lg text-slate-700 dark:text-slate-200">정확도: <span className="font-semibold">{accuracy}%</span></p>}
+                {bestCombo !== undefined && <p className="text-lg text-slate-700 dark:text-slate-200">최대 콤보: <span className="font-semibold text-orange-500">{bestCombo}</span></p>}
+                {leaderboardRank !== undefined && <p className="text-md text-cyan-600 dark:text-cyan-300">🏆 순위표 {leaderboardRank}위</p>}
+                {score > 0 && <p className="text-md text-yellow-600 dark:text-yellow-300">✨ XP +{score} ✨</p>}
+            </div>
+            <div className="mt-8 space-x-4">
+                <button
+                    onClick={() => onNavigate('gameSelection')}
+                    className="py-2 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
+                >
+                    다른 게임하기
+                </button>
+                <button
+                    onClick={() => onNavigate('dashboard')}
+                    className="py-2 px-6 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
+                >
+                    대시보드로
+                </button>
+            </div>
+        </div>
+    );
+};
+
+
+// TypingPracticeGame
+interface TypingPracticeGameProps extends ScreenProps {
+    words: Word[];
+    wordStats: Record<string | number, WordStat>;
+    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    onWordReviewed: (wordId: string | number, quality: number, source: ReviewSource) => void;
+}
+
+interface TypingRoundResult {
+    wordId: string | number;
+    isCorrect: boolean;
+    hintsUsed: number;
+}
+
+const TYPING_GAME_WORD_COUNT = 10;
+const TYPING_GAME_TIME_LIMIT_SECONDS = 120;
+const TYPING_GAME_FEEDBACK_DELAY_MS = 1200;
+
+const TypingPracticeGame: React.FC<TypingPracticeGameProps> = ({ userSettings, words, wordStats, updateWordStat, onWordReviewed, onNavigate, addToast }) => {
+    const [gameWords, setGameWords] = useState<Word[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [typedText, setTypedText] = useState('');
+    const [revealedLetters, setRevealedLetters] = useState(0);
+    const [hadTypo, setHadTypo] = useState(false);
+    const [feedback, setFeedback] = useState<{ isCorrect: boolean } | null>(null);
+    const [timeLeft, setTimeLeft] = useState(TYPING_GAME_TIME_LIMIT_SECONDS);
+    const [isFinished, setIsFinished] = useState(false);
+
+    // Kept in refs so the countdown timer and delayed advances always see the latest values
+    const resultsRef = useRef<TypingRoundResult[]>([]);
+    const keystrokesRef = useRef({ correct: 0, total: 0 });
+    const startTimeRef = useRef<number>(Date.now());
+    const isFinishedRef = useRef(false);
+    const advanceTimeoutRef = useRef<number | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    // Every answer updates the stats; reading them through a ref keeps that from setting up a new game
+    const wordStatsRef = useRef(wordStats);
+    wordStatsRef.current = wordStats;
+
+    const currentWord = gameWords[currentIndex];
+
+    // A pending advance must not end the game (and navigate) after the student has left it
+    useEffect(() => () => {
+        if (advanceTimeoutRef.current !== null) clearTimeout(advanceTimeoutRef.current);
+    }, []);
+
+    const initializeGame = useCallback(() => {
+        const gradeWords = words.filter(w => w.gradeLevel === userSettings.grade);
+        if (gradeWords.length === 0) {
+            addToast("타자 연습을 위한 단어가 현재 학년에 없습니다.", "warning");
+            onNavigate('gameSelection');
+            return;
+        }
+        // Words that were misspelled or missed before come up first
+        const selected = shuffleArray(gradeWords)
+            .sort((a, b) => (wordStatsRef.current[b.id]?.quizIncorrectCount || 0) - (wordStatsRef.current[a.id]?.quizIncorrectCount || 0))
+            .slice(0, TYPING_GAME_WORD_COUNT);
+        setGameWords(shuffleArray(selected));
+        setCurrentIndex(0);
+        setTypedText('');
+        setRevealedLetters(0);
+        setHadTypo(false);
+        setFeedback(null);
+        setTimeLeft(TYPING_GAME_TIME_LIMIT_SECONDS);
+        setIsFinished(false);
+        resultsRef.current = [];
+        keystrokesRef.current = { correct: 0, total: 0 };
+        startTimeRef.current = Date.now();
+        isFinishedRef.current = false;
+    }, [words, userSettings.grade, onNavigate, addToast]);
+
+    useEffect(() => {
+        initializeGame();
+    }, [initializeGame]);
+
+    const finishGame = useCallback(() => {
+        if (isFinishedRef.current) return; // The timer and the last round can both try to end the game
+        isFinishedRef.current = true;
+        setIsFinished(true);
+        const results = resultsRef.current;
+        const correctCount = results.filter(r => r.isCorrect).length;
+        const elapsedSeconds = Math.max(1, Math.round((Date.now() - startTimeRef.current) / 1000));
+        const { correct: correctKeystrokes, total: totalKeystrokes } = keystrokesRef.current;
+        const wpm = Math.round((correctKeystrokes / 5) / (elapsedSeconds / 60));
+        const accuracy = totalKeystrokes > 0 ? Math.round((correctKeystrokes / totalKeystrokes) * 100) : 0;
+        const hintPenalty = results.reduce((acc, r) => acc + (r.isCorrect ? r.hintsUsed * 2 : 0), 0);
+        const timeBonus = correctCount > 0 ? Math.floor(Math.max(0, TYPING_GAME_TIME_LIMIT_SECONDS - elapsedSeconds) / 10) : 0;
+        const score = Math.max(0, correctCount * 10 - hintPenalty + timeBonus);
+        onNavigate('gameResult', { score, correct: correctCount, incorrect: results.length - correctCount, timeTaken: elapsedSeconds, gameName: '타자 연습 게임', wpm, accuracy });
+    }, [onNavigate]);
+
+    useEffect(() => {
+        if (isFinished || gameWords.length === 0) return;
+        const timerId = window.setInterval(() => {
+            setTimeLeft(prev => Math.max(0, prev - 1));
+        }, 1000);
+        return () => clearInterval(timerId);
+    }, [isFinished, gameWords.length]);
+
+    useEffect(() => {
+        if (timeLeft === 0 && !isFinished && gameWords.length > 0) {
+            addToast("시간 종료!", "info");
+            finishGame();
+        }
+    }, [timeLeft, isFinished, gameWords.length, finishGame, addToast]);
+
+    useEffect(() => {
+        if (!currentWord || isFinished) return;
+        if (userSettings.autoPlayAudio) speak(currentWord.term, undefined, userSettings.speechRate);
+        inputRef.current?.focus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [currentWord]);
+
+    const completeRound = (isCorrect: boolean) => {
+        if (!currentWord || feedback) return;
+        resultsRef.current = [...resultsRef.current, { wordId: currentWord.id, isCorrect, hintsUsed: revealedLetters }];
+        if (isCorrect) {
+            onWordReviewed(currentWord.id, revealedLetters > 0 ? 3 : hadTypo ? 4 : 5, 'typingPracticeGame');
+        } else {
+            const currentStat = wordStats[currentWord.id] || getDefaultWordStat(currentWord.id);
+            updateWordStat(currentWord.id, { quizIncorrectCount: currentStat.quizIncorrectCount + 1 });
+            onWordReviewed(currentWord.id, 1, 'typingPracticeGame');
+        }
+        setFeedback({ isCorrect });
+
+        advanceTimeoutRef.current = window.setTimeout(() => {
+            advanceTimeoutRef.current = null;
+            if (isFinishedRef.current) return;
+            setFeedback(null);
+            setTypedText('');
+            setRevealedLetters(0);
+            setHadTypo(false);
+            if (currentIndex + 1 < gameWords.length) {
+                setCurrentIndex(currentIndex + 1);
+            } else {
+                finishGame();
+            }
+        }, TYPING_GAME_FEEDBACK_DELAY_MS);
+    };
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!currentWord || feedback) return;
+        const value = e.target.value;
+        if (value.length > typedText.length) {
+            const target = currentWord.term.toLowerCase();
+            for (let i = typedText.length; i < value.length; i++) {
+                keystrokesRef.current.total++;
+                if (value[i].toLowerCase() === target[i]) {
+                    keystrokesRef.current.correct++;
+                } else {
+                    setHadTypo(true);
+                }
+            }
+        }
+        setTypedText(value);
+        if (value.trim().toLowerCase() === currentWord.term.toLowerCase()) {
+            completeRound(true);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' && typedText.trim()) {
+            completeRound(typedText.trim().toLowerCase() === currentWord?.term.toLowerCase());
+        }
+    };
+
+    const handleRevealHint = () => {
+        if (!currentWord || feedback) return;
+        if (revealedLetters >= currentWord.term.length - 1) {
+            addToast("더 이상 힌트를 볼 수 없습니다.", "info");
+            return;
+        }
+        setRevealedLetters(prev => prev + 1);
+        inputRef.current?.focus();
+    };
+
+    if (gameWords.length === 0 || !currentWord) {
+        return <div className="p-8 text-center text-slate-600 dark:text-slate-300">게임 데이터 로딩 중...</div>;
+    }
+
+    const targetLetters = currentWord.term.split('');
+
+    return (
+        <div className="p-4 sm:p-6 flex flex-col items-center">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2">⌨️ 타자 연습 게임</h1>
+            <div className="flex space-x-4 text-sm text-slate-500 dark:text-slate-400 mb-4">
+                <span>단어 {currentIndex + 1} / {gameWords.length}</span>
+                <span className={timeLeft <= 10 ? 'text-red-500 font-bold' : ''}>⏱️ {timeLeft}초</span>
+                <span>맞춘 단어: {resultsRef.current.filter(r => r.isCorrect).length}</span>
+            </div>
+
+            <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8 text-center">
+                <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">다음 뜻을 가진 영어 단어를 입력하세요</p>
+                <div className="flex items-center justify-center mb-6">
+                    <h2 className="text-2xl sm:text-3xl font-bold text-slate-800 dark:text-white mr-2">{currentWord.meaning}</h2>
+                    <button onClick={() => speak(currentWord.term, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-2xl" aria-label="단어 발음 듣기">🔊</button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">({currentWord.partOfSpeech})</p>
+
+                <div className="flex flex-wrap justify-center gap-1 mb-6 font-mono text-2xl sm:text-3xl" aria-hidden="true">
+                    {targetLetters.map((letter, i) => {
+                        if (letter === ' ') return <span key={i} className="w-4" />;
+                        const typedLetter = typedText[i];
+                        let content = '_';
+                        let letterClass = 'text-slate-400 dark:text-slate-500';
+                        if (feedback && !feedback.isCorrect) {
+                            content = letter;
+                            letterClass = 'text-red-500';
+                        } else if (typedLetter !== undefined) {
+                            content = typedLetter;
+                            letterClass = typedLetter.toLowerCase() === letter.toLowerCase() ? 'text-green-500' : 'text-red-500 underline';
+                        } else if (i < revealedLetters) {
+                            content = letter;
+                            letterClass = 'text-sky-500 dark:text-sky-400 opacity-70';
+                        }
+                        return <span key={i} className={`inline-block w-6 sm:w-7 border-b-2 border-slate-300 dark:border-slate-500 ${letterClass}`}>{content}</span>;
+                    })}
+                </div>
+
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={typedText}
+                    onChange={handleInputChange}
+                    onKeyDown={handleKeyDown}
+                    disabled={!!feedback}
+                    autoComplete="off"
+                    autoCapitalize="off"
+                    spellCheck={false}
+                    placeholder="여기에 입력 후 Enter"
+                    className="w-full p-3 text-center text-xl bg-white dark:bg-slate-600 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    aria-label="영어 단어 입력"
+                />
+
+                {feedback && (
+                    <div className={`mt-4 p-3 rounded-md text-white animate-fadeIn ${feedback.isCorrect ? 'bg-green-600' : 'bg-red-600'}`}>
+                        {feedback.isCorrect ? '정답입니다! 🎉' : `오답입니다. 정답은 '${currentWord.term}' 입니다.`}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                    <button
+                        onClick={handleRevealHint}
+                        disabled={!!feedback}
+                        className="py-2 px-3 bg-sky-500 hover:bg-sky-600 text-white text-sm font-semibold rounded-md shadow-sm disabled:opacity-50"
+                    >
+                        💡 힌트 (-2점)
+                    </button>
+                    <button
+                        onClick={() => completeRound(false)}
+                        disabled={!!feedback}
+                        className="py-2 px-3 bg-slate-400 hover:bg-slate-500 dark:bg-slate-500 dark:hover:bg-slate-400 text-white text-sm font-semibold rounded-md shadow-sm disabled:opacity-50"
+                    >
+                        ⏭️ 건너뛰기
+                    </button>
+                </div>
+            </div>
+            <button onClick={() => onNavigate('gameSelection')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">다른 게임 선택</button>
+        </div>
+    );
+};
+
+// SpeedQuizGame
+interface SpeedQuizScoreEntry {
+    score: number;
+    correct: number;
+    bestCombo: number;
+    date: string;
+    username: string;
+}
+type SpeedQuizLeaderboard = Record<string, SpeedQuizScoreEntry[]>; // Top scores keyed by grade
+
+const SPEED_QUIZ_LEADERBOARD_SIZE = 5;
+
+const sanitizeSpeedQuizLeaderboard = (raw: Record<string, any>): SpeedQuizLeaderboard => {
+    const leaderboard: SpeedQuizLeaderboard = {};
+    Object.entries(raw).forEach(([grade, entries]) => {
+        if (!Array.isArray(entries)) return;
+        leaderboard[grade] = entries
+            .filter(e => isPlainObject(e) && typeof e.score === 'number')
+            .map(e => ({ score: e.score, correct: Number(e.correct) || 0, bestCombo: Number(e.bestCombo) || 0, date: String(e.date || ''), username: String(e.username || '') }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, SPEED_QUIZ_LEADERBOARD_SIZE);
+    });
+    return leaderboard;
+};
+
+// The board is kept per device rather than per profile, like the textbook catalogue
+const loadSpeedQuizLeaderboard = async (): Promise<SpeedQuizLeaderboard> => {
+    try {
+        const db = await openStorageDb();
+        const stored = await readMeta<Record<string, any>>(db, META_SPEED_QUIZ_LEADERBOARD);
+        return isPlainObject(stored) ? sanitizeSpeedQuizLeaderboard(stored) : {};
+    } catch (error) {
+        console.warn("Could not read speed quiz leaderboard:", error);
+        return {};
+    }
+};
+
+const saveSpeedQuizLeaderboard = async (leaderboard: SpeedQuizLeaderboard) => {
+    const db = await openStorageDb();
+    await writeMeta(db, META_SPEED_QUIZ_LEADERBOARD, leaderboard);
+};
+
+const mergeSpeedQuizLeaderboards = (a: SpeedQuizLeaderboard, b: SpeedQuizLeaderboard): SpeedQuizLeaderboard => {
+    const merged: Record<string, SpeedQuizScoreEntry[]> = {};
+    [a, b].forEach(board => Object.entries(board).forEach(([grade, entries]) => {
+        const seen = new Set((merged[grade] || []).map(e => JSON.stringify(e)));
+        merged[grade] = [...(merged[grade] || []), ...entries.filter(e => !seen.has(JSON.stringify(e)))];
+    }));
+    return sanitizeSpeedQuizLeaderboard(merged);
+};
+
+// Records a finished game. Returns the grade's updated board and the game's 1-based rank, or null if it did not make the board.
+const addSpeedQuizScore = async (grade: string, entry: SpeedQuizScoreEntry): Promise<{ entries: SpeedQuizScoreEntry[]; rank: number | null }> => {
+    const leaderboard = await loadSpeedQuizLeaderboard();
+    const gradeEntries = [...(leaderboard[grade] || []), entry].sort((a, b) => b.score - a.score).slice(0, SPEED_QUIZ_LEADERBOARD_SIZE);
+    await saveSpeedQuizLeaderboard({ ...leaderboard, [grade]: gradeEntries });
+    const rank = gradeEntries.indexOf(entry);
+    return { entries: gradeEntries, rank: rank >= 0 ? rank + 1 : null };
+};
+
+interface SpeedQuizGameProps extends ScreenProps {
+    words: Word[];
+    wordStats: Record<string | number, WordStat>;
+    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    onWordReviewed: (wordId: string | number, quality: number, source: ReviewSource) => void;
+}
+
+interface SpeedQuizQuestion {
+    word: Word;
+    direction: 'termToMeaning' | 'meaningToTerm';
+    options: string[];
+}
+
+const SPEED_QUIZ_DURATION_SECONDS = 60;
+const SPEED_QUIZ_TIME_BONUS_SECONDS = 2; // Added for every correct answer
+const SPEED_QUIZ_COMBO_STEP = 3; // The multiplier grows every 3 correct answers in a row
+const SPEED_QUIZ_MAX_MULTIPLIER = 3;
+const SPEED_QUIZ_BASE_POINTS = 10;
+const SPEED_QUIZ_MIN_WORDS = 4;
+
+const getSpeedQuizMultiplier = (combo: number) => Math.min(SPEED_QUIZ_MAX_MULTIPLIER, 1 + Math.floor(combo / SPEED_QUIZ_COMBO_STEP) * 0.5);
+
+const SpeedQuizGame: React.FC<SpeedQuizGameProps> = ({ userSettings, words, wordStats, updateWordStat, onWordReviewed, onNavigate, addToast }) => {
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [question, setQuestion] = useState<SpeedQuizQuestion | null>(null);
+    const [timeLeft, setTimeLeft] = useState(SPEED_QUIZ_DURATION_SECONDS);
+    const [score, setScore] = useState(0);
+    const [combo, setCombo] = useState(0);
+    const [answerFlash, setAnswerFlash] = useState<{ option: string; isCorrect: boolean } | null>(null);
+    const [leaderboard, setLeaderboard] = useState<SpeedQuizScoreEntry[]>([]);
+
+    const statsRef = useRef({ correct: 0, incorrect: 0, bestCombo: 0, score: 0 });
+    const startTimeRef = useRef(0);
+    const isFinishedRef = useRef(false);
+    const lastWordIdRef = useRef<string | number | null>(null);
+    const nextQuestionTimeoutRef = useRef<number | null>(null);
+    const isMountedRef = useRef(true);
+
+    useEffect(() => {
+        let isActive = true;
+        loadSpeedQuizLeaderboard().then(board => { if (isActive) setLeaderboard(board[userSettings.grade] || []); });
+        return () => { isActive = false; };
+    }, [userSettings.grade]);
+
+    // Leaving mid-game ends it: no pending question, score saving toast or navigation runs afterwards
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            isFinishedRef.current = true;
+            if (nextQuestionTimeoutRef.current !== null) clearTimeout(nextQuestionTimeoutRef.current);
+        };
+    }, []);
+
+    const gradeWords = useMemo(() => words.filter(w => w.gradeLevel === userSettings.grade), [words, userSettings.grade]);
+
+    const nextQuestion = useCallback(() => {
+        const candidates = gradeWords.length > 1 ? gradeWords.filter(w => w.id !== lastWordIdRef.current) : gradeWords;
+        const word = candidates[Math.floor(Math.random() * candidates.length)];
+        if (!word) return;
+        lastWordIdRef.current = word.id;
+        const direction = Math.random() < 0.5 ? 'termToMeaning' : 'meaningToTerm';
+        setQuestion({
+            word,
+            direction,
+            options: buildMultipleChoiceOptions(word, gradeWords, direction === 'termToMeaning' ? 'meaning' : 'term'),
+        });
+    }, [gradeWords]);
+
+    const startGame = () => {
+        if (gradeWords.length < SPEED_QUIZ_MIN_WORDS) {
+            addToast(`스피드 퀴즈를 시작하기에 단어가 부족합니다. (최소 ${SPEED_QUIZ_MIN_WORDS}개 필요)`, "warning");
+            return;
+        }
+        statsRef.current = { correct: 0, incorrect: 0, bestCombo: 0, score: 0 };
+        startTimeRef.current = Date.now();
+        isFinishedRef.current = false;
+        setScore(0);
+        setCombo(0);
+        setAnswerFlash(null);
+        setTimeLeft(SPEED_QUIZ_DURATION_SECONDS);
+        setIsPlaying(true);
+        nextQuestion();
+    };
+
+    const finishGame = useCallback(() => {
+        if (isFinishedRef.current) return;
+        isFinishedRef.current = true;
+        setIsPlaying(false);
+        const { correct, incorrect, bestCombo, score: finalScore } = statsRef.current;
+        const timeTaken = Math.round((Date.now() - startTimeRef.current) / 1000);
+        addSpeedQuizScore(userSettings.grade, { score: finalScore, correct, bestCombo, date: new Date().toISOString(), username: userSettings.username })
+            .catch(error => {
+                console.error("Failed to save speed quiz score:", error);
+                return { entries: null, rank: null };
+            })
+            .then(({ entries, rank }) => {
+                if (!isMountedRef.current) return;
+                if (entries) setLeaderboard(entries);
+                if (rank === 1 && finalScore > 0) {
+                    addToast(`🏆 ${userSettings.grade} 스피드 퀴즈 최고 기록 달성! (${finalScore}점)`, "success");
+                } else if (rank) {
+                    addToast(`스피드 퀴즈 순위표 ${rank}위에 올랐습니다!`, "info");
+                }
+                onNavigate('gameResult', { score: finalScore, correct, incorrect, timeTaken, gameName: '스피드 퀴즈', bestCombo, leaderboardRank: rank ?? undefined });
+            });
+    }, [userSettings.grade, userSettings.username, onNavigate, addToast]);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        const timerId = window.setInterval(() => {
+            setTimeLeft(prev => Math.max(0, prev - 1));
+        }, 1000);
+        return () => clearInterval(timerId);
+    }, [isPlaying]);
+
+    useEffect(() => {
+        if (isPlaying && timeLeft === 0) finishGame();
+    }, [isPlaying, timeLeft, finishGame]);
+
+    const handleAnswer = (option: string) => {
+        if (!question || answerFlash || isFinishedRef.current) return;
+        const correctValue = question.direction === 'termToMeaning' ? question.word.meaning : question.word.term;
+        const isCorrect = option === correctValue;
+        const stats = statsRef.current;
+
+        if (isCorrect) {
+            const newCombo = combo + 1;
+            const points = Math.round(SPEED_QUIZ_BASE_POINTS * getSpeedQuizMultiplier(newCombo));
+            stats.correct++;
+            stats.bestCombo = Math.max(stats.bestCombo, newCombo);
+            stats.score += points;
+            setCombo(newCombo);
+            setScore(stats.score);
+            setTimeLeft(prev => prev + SPEED_QUIZ_TIME_BONUS_SECONDS);
+            onWordReviewed(question.word.id, 4, 'speedQuizGame');
+        } else {
+            stats.incorrect++;
+            setCombo(0);
+            const currentStat = wordStats[question.word.id] || getDefaultWordStat(question.word.id);
+            updateWordStat(question.word.id, { quizIncorrectCount: currentStat.quizIncorrectCount + 1 });
+            onWordReviewed(question.word.id, 1, 'speedQuizGame');
+        }
+
+        setAnswerFlash({ option, isCorrect });
+        nextQuestionTimeoutRef.current = window.setTimeout(() => {
+            nextQuestionTimeoutRef.current = null;
+            setAnswerFlash(null);
+            if (!isFinishedRef.current) nextQuestion();
+        }, isCorrect ? 250 : 700);
+    };
+
+    if (!isPlaying || !question) {
+        return (
+            <div className="p-4 sm:p-6 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2">⏱️ 스피드 퀴즈</h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 text-center">
+                    {SPEED_QUIZ_DURATION_SECONDS}초 안에 최대한 많은 문제를 맞혀보세요! 정답마다 +{SPEED_QUIZ_TIME_BONUS_SECONDS}초, {SPEED_QUIZ_COMBO_STEP}연속 정답마다 점수 배율이 올라갑니다.
+                </p>
+                <button
+                    onClick={startGame}
+                    className="py-3 px-8 bg-orange-500 hover:bg-orange-600 text-white text-lg font-bold rounded-lg shadow-md mb-8"
+                >
+                    시작하기
+                </button>
+                <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                    <h2 className="text-lg font-semibold text-cyan-700 dark:text-cyan-300 mb-3">🏆 {userSettings.grade.replace('middle', '중')} 순위표</h2>
+                    {leaderboard.length > 0 ? (
+                        <ol className="space-y-1 text-sm">
+                            {leaderboard.map((entry, index) => (
+                                <li key={`${entry.date}-${index}`} className="flex justify-between p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                    <span className="text-slate-700 dark:text-slate-300">{index + 1}. {entry.username} <span className="text-xs text-slate-500 dark:text-slate-400">({new Date(entry.date).toLocaleDateString()}, 최대 {entry.bestCombo}콤보)</span></span>
+                                    <span className="font-semibold text-yellow-600 dark:text-yellow-400">{entry.score}점</span>
+                                </li>
+                            ))}
+                        </ol>
+                    ) : (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">아직 기록이 없습니다. 첫 기록을 세워보세요!</p>
+                    )}
+                </div>
+                <button onClick={() => onNavigate('gameSelection')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">다른 게임 선택</button>
+            </div>
+        );
+    }
+
+    const correctValue = question.direction === 'termToMeaning' ? question.word.meaning : question.word.term;
+    const multiplier = getSpeedQuizMultiplier(combo);
+
+    return (
+        <div className="p-4 sm:p-6 flex flex-col items-center">
+            <div className="w-full max-w-xl flex justify-between items-center mb-3 text-sm font-semibold">
+                <span className={`text-lg ${timeLeft <= 10 ? 'text-red-500 animate-pulse' : 'text-slate-700 dark:text-slate-200'}`}>⏱️ {timeLeft}초</span>
+                <span className="text-yellow-600 dark:text-yellow-400 text-lg">{score}점</span>
+                <span className={combo >= SPEED_QUIZ_COMBO_STEP ? 'text-orange-500' : 'text-slate-500 dark:text-slate-400'}>🔥 {combo}콤보 (x{multiplier})</span>
+            </div>
+            <div className="w-full max-w-xl bg-slate-200 dark:bg-slate-600 rounded-full h-2 mb-6 overflow-hidden">
+                <div className="bg-orange-500 h-full transition-all duration-1000 ease-linear" style={{ width: `${Math.min(100, (timeLeft / SPEED_QUIZ_DURATION_SECONDS) * 100)}%` }}></div>
+            </div>
+
+            <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8">
+                <p className="text-center text-slate-500 dark:text-slate-400 text-sm mb-1">
+                    {question.direction === 'termToMeaning' ? '뜻을 고르세요' : '영어 단어를 고르세요'}
+                </p>
+                <h2 className="text-center text-3xl sm:text-4xl font-bold text-slate-800 dark:text-white mb-6">
+                    {question.direction === 'termToMeaning' ? question.word.term : question.word.meaning}
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {question.options.map((option, index) => (
+                        <button
+                            key={option + '-' + index}
+                            onClick={() => handleAnswer(option)}
+                            disabled={!!answerFlash}
+                            className={`w-full p-3 sm:p-4 rounded-lg shadow-md text-left transition-colors duration-100
+                                ${answerFlash
+                                    ? option === correctValue
+                                        ? 'bg-green-500 text-white'
+                                        : option === answerFlash.option
+                                            ? 'bg-red-500 text-white'
+                                            : 'bg-slate-200 dark:bg-slate-600 text-slate-500 dark:text-slate-300 opacity-70'
+                                    : 'bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-white hover:bg-orange-500 dark:hover:bg-orange-500 hover:text-white'
+                                }`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
             </div>
-             <button onClick={() => onNavigate('gameSelection')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">다른 게임 선택</button>
+            <button onClick={finishGame} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">게임 종료</button>
         </div>
     );
 };
 
-
-// GameResultScreen
-interface GameResultScreenProps extends ScreenProps {
-    routeParams?: { score: number; correct: number; incorrect: number; timeTaken: number; gameName: string };
+// PronunciationGame
+interface PronunciationGameProps extends ScreenProps {
+    words: Word[];
+    onWordPracticed: (wordId: string | number, quality: number, source: LearningReviewSource) => void;
 }
-const GameResultScreen: React.FC<GameResultScreenProps> = ({ onNavigate, routeParams, userSettings, addXp }) => {
-    const { score = 0, correct = 0, incorrect = 0, timeTaken = 0, gameName = "게임" } = routeParams || {};
 
-    useEffect(() => {
-        if(score > 0) {
-            addXp(score); // Add score as XP
+const PRONUNCIATION_GAME_WORD_COUNT = 8;
+
+const PronunciationGame: React.FC<PronunciationGameProps> = ({ userSettings, words, onWordPracticed, onNavigate, addToast }) => {
+    const [target, setTarget] = useState<PronunciationTarget | null>(null); // Chosen on the start screen
+    const [gameWords, setGameWords] = useState<Word[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [results, setResults] = useState<PronunciationRoundResult[]>([]);
+    const startTimeRef = useRef<number>(Date.now());
+    const isSupported = getSpeechRecognizer().isSupported();
+
+    const currentWord = gameWords[currentIndex];
+    const currentRoundResult = results.find(r => r.wordId === currentWord?.id);
+
+    const startGame = (chosenTarget: PronunciationTarget) => {
+        const candidates = words.filter(w => w.gradeLevel === userSettings.grade && (chosenTarget === 'term' || w.exampleSentence.trim()));
+        if (candidates.length === 0) {
+            addToast("발음 연습을 위한 단어가 현재 학년에 없습니다.", "warning");
+            onNavigate('gameSelection');
+            return;
         }
-    }, [score, addXp]);
+        setGameWords(shuffleArray(candidates).slice(0, PRONUNCIATION_GAME_WORD_COUNT));
+        setCurrentIndex(0);
+        setResults([]);
+        setTarget(chosenTarget);
+        startTimeRef.current = Date.now();
+    };
+
+    const handleRoundComplete = (result: PronunciationRoundResult) => {
+        setResults(prev => [...prev, result]);
+        onWordPracticed(result.wordId, result.quality, 'pronunciation');
+    };
 
+    const finishGame = () => {
+        const passedCount = results.filter(r => r.passed).length;
+        const averageScore = results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.bestScore, 0) / results.length) : 0;
+        const timeTaken = Math.max(1, Math.round((Date.now() - startTimeRef.current) / 1000));
+        const score = Math.round(results.reduce((sum, r) => sum + r.bestScore, 0) / 10) + passedCount * 2;
+        onNavigate('gameResult', { score, correct: passedCount, incorrect: results.length - passedCount, timeTaken, gameName: '발음 연습 게임', accuracy: averageScore });
+    };
+
+    const handleNext = () => {
+        if (currentIndex + 1 < gameWords.length) setCurrentIndex(currentIndex + 1);
+        else finishGame();
+    };
+
+    if (!target) {
+        return (
+            <div className="p-4 sm:p-6 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2">🎤 발음 연습 게임</h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 text-center">영어를 소리 내어 말하면 얼마나 정확한지 점수로 알려줘요. 한 단어에 {PRONUNCIATION_MAX_ATTEMPTS}번까지 도전할 수 있어요.</p>
+                {isSupported ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-md">
+                        <button onClick={() => startGame('term')} className="py-4 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md">단어 말하기</button>
+                        <button onClick={() => startGame('sentence')} className="py-4 px-4 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg shadow-md">예문 읽기</button>
+                    </div>
+                ) : (
+                    <p className="text-yellow-600 dark:text-yellow-400 text-center">{SPEECH_RECOGNITION_ERROR_MESSAGES['not-supported']}</p>
+                )}
+                <button onClick={() => onNavigate('gameSelection')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">게임 선택으로</button>
+            </div>
+        );
+    }
+
+    if (!currentWord) {
+        return <div className="p-8 text-center text-slate-600 dark:text-slate-300">게임 데이터 로딩 중...</div>;
+    }
 
     return (
-        <div className="p-4 sm:p-8 text-center flex flex-col items-center justify-center min-h-[calc(100vh-150px)] sm:min-h-0">
-            <h1 className="text-3xl sm:text-4xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">🎉 {gameName} 완료! 🎉</h1>
-            <div className="bg-slate-100 dark:bg-slate-700 p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-md space-y-3">
-                <p className="text-5xl font-bold text-yellow-500 dark:text-yellow-400">{score}점</p>
-                <p className="text-lg text-slate-700 dark:text-slate-200">맞춘 개수: <span className="font-semibold text-green-500">{correct}</span></p>
-                <p className="text-lg text-slate-700 dark:text-slate-200">틀린 횟수: <span className="font-semibold text-red-500">{incorrect}</span></p>
-                <p className="text-lg text-slate-700 dark:text-slate-200">걸린 시간: <span className="font-semibold">{timeTaken}초</span></p>
-                {score > 0 && <p className="text-md text-yellow-600 dark:text-yellow-300">✨ XP +{score} ✨</p>}
+        <div className="p-4 sm:p-6 flex flex-col items-center">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-2">🎤 발음 연습 게임</h1>
+            <div className="flex space-x-4 text-sm text-slate-500 dark:text-slate-400 mb-4">
+                <span>단어 {currentIndex + 1} / {gameWords.length}</span>
+                <span>통과: {results.filter(r => r.passed).length}</span>
             </div>
-            <div className="mt-8 space-x-4">
-                <button
-                    onClick={() => onNavigate('gameSelection')}
-                    className="py-2 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
-                >
-                    다른 게임하기
-                </button>
-                <button
-                    onClick={() => onNavigate('dashboard')}
-                    className="py-2 px-6 bg-slate-500 hover:bg-slate-600 dark:bg-slate-600 dark:hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
-                >
-                    대시보드로
-                </button>
+            <div className="w-full max-w-xl">
+                <p className="text-center text-slate-600 dark:text-slate-300 mb-3">
+                    <span className="font-semibold">{currentWord.meaning}</span> ({currentWord.partOfSpeech})
+                    {target === 'sentence' && currentWord.exampleSentenceMeaning && <span className="block text-sm text-slate-500 dark:text-slate-400">{currentWord.exampleSentenceMeaning}</span>}
+                </p>
+                <PronunciationPracticePanel word={currentWord} target={target} speechRate={userSettings.speechRate} onRoundComplete={handleRoundComplete} />
+                {currentRoundResult && (
+                    <button onClick={handleNext} className="mt-4 w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md">
+                        {currentIndex + 1 < gameWords.length ? '다음 단어 ▶' : '결과 보기'}
+                    </button>
+                )}
             </div>
+            <button onClick={finishGame} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">게임 종료</button>
         </div>
     );
 };
 
 
-// TypingPracticeGame and SpeedQuizGame - Placeholder
-const TypingPracticeGame: React.FC<ScreenProps> = ({ onNavigate }) => (
-    <div className="p-8 text-center">
-        <h1 className="text-2xl font-bold text-cyan-500 mb-4">⌨️ 타자 연습 게임 (준비 중)</h1>
-        <p className="text-slate-600 dark:text-slate-300 mb-6">이 게임은 현재 개발 중입니다. 곧 만나보실 수 있습니다!</p>
-        <button onClick={() => onNavigate('gameSelection')} className="px-6 py-2 bg-cyan-500 text-white rounded hover:bg-cyan-600">게임 선택으로 돌아가기</button>
-    </div>
-);
-
-const SpeedQuizGame: React.FC<ScreenProps> = ({ onNavigate }) => (
-     <div className="p-8 text-center">
-        <h1 className="text-2xl font-bold text-cyan-500 mb-4">⏱️ 스피드 퀴즈 (준비 중)</h1>
-        <p className="text-slate-600 dark:text-slate-300 mb-6">이 게임은 현재 개발 중입니다. 곧 만나보실 수 있습니다!</p>
-        <button onClick={() => onNavigate('gameSelection')} className="px-6 py-2 bg-cyan-500 text-white rounded hover:bg-cyan-600">게임 선택으로 돌아가기</button>
-    </div>
-);
-
 // --- AI Tutor Chat Screen ---
 interface TutorChatScreenProps extends ScreenProps {
     words: Word[];
@@ -3142,6 +8585,10 @@ interface ChatMessage {
 }
 
 let chatInstance: Chat | null = null;
+// Per-request config replaces the chat's own in `sendMessage`, so each request repeats the system instruction
+let chatSystemInstruction = '';
+
+const TUTOR_CHAT_MODEL = 'gemini-2.5-flash-preview-04-17';
 
 const TutorChatScreen: React.FC<TutorChatScreenProps> = ({ userSettings, addToast, setGlobalLoading, words }) => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -3149,6 +8596,9 @@ const TutorChatScreen: React.FC<TutorChatScreenProps> = ({ userSettings, addToas
     const [isSending, setIsSending] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const [isChatLoading, setIsChatLoading] = useState(false); // Used for initial AI greeting
+    const isOnline = useOnlineStatus();
+    const chatSessionKeyRef = useRef<string | null>(null); // grade/username the current chat was started for
+    const getAbortSignal = useAbortOnUnmount();
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -3156,9 +8606,19 @@ const TutorChatScreen: React.FC<TutorChatScreenProps> = ({ userSettings, addToas
 
     useEffect(scrollToBottom, [messages]);
     
-    // Initialize or re-initialize chat instance if user settings change (especially grade)
+    // Initialize or re-initialize chat instance if user settings change (especially grade).
+    // Offline, the chat waits and starts once the connection is back; an ongoing chat is kept as it is.
     useEffect(() => {
-        if (ai) {
+        const chatSessionKey = `${userSettings.grade}|${userSettings.username}`;
+        if (ai && !isOnline) {
+            setMessages(prev => prev.length > 0 ? prev : [{
+                id: `ai-offline-${Date.now()}`,
+                text: "오프라인 상태라 AI 튜터와 대화할 수 없어요. 인터넷에 연결되면 자동으로 시작돼요.",
+                sender: 'ai',
+                timestamp: Date.now()
+            }]);
+        } else if (ai && chatSessionKeyRef.current !== chatSessionKey) {
+            chatSessionKeyRef.current = chatSessionKey;
             setIsChatLoading(true);
             setGlobalLoading(true); // For initial setup
 
@@ -3173,30 +8633,34 @@ Start the conversation by greeting the student and asking how you can help them
 Respond in Korean, but use English words when discussing vocabulary terms. Example: "안녕하세요, ${userSettings.username}님! 'apple'이라는 단어에 대해 더 알고 싶으신가요?"
 Do not use markdown formatting like **bold** or *italics* in your responses. Keep it plain text.`;
             
-            chatInstance = ai.chats.create({
-                model: 'gemini-2.5-flash-preview-04-17',
-                config: { systemInstruction }
-            });
-
-            // Send an initial (empty or greeting) message to get the AI's first response.
-            // This is a common pattern to "prime" the chat.
-            chatInstance.sendMessage({ message: "Hello" }) // Could be an empty string, or a specific priming message
-                .then(response => {
-                    const aiGreeting: ChatMessage = {
-                        id: `ai-${Date.now()}`,
-                        text: response.text.trim() || `안녕하세요, ${userSettings.username}님! 오늘 영어 단어 학습에 대해 무엇을 도와드릴까요?`,
-                        sender: 'ai',
-                        timestamp: Date.now()
-                    };
-                    setMessages([aiGreeting]);
-                })
-                .catch(error => {
-                    console.error("Error initializing AI Tutor chat:", error);
-                    const { displayErrorMsg } = parseGeminiError(error);
-                    addToast(`AI 튜터 초기화 중 오류 발생: ${displayErrorMsg}`, "error");
+            // Creating the chat and its first (greeting) message go through the request queue together
+            runGeminiRequest({
+                featureDescription: "AI 튜터 시작",
+                addToast,
+                signal: getAbortSignal(),
+                execute: async (client, abortSignal) => {
+                    const chat = client.chats.create({ model: TUTOR_CHAT_MODEL, config: { systemInstruction } });
+                    const response = await chat.sendMessage({ message: "Hello", config: { systemInstruction, abortSignal } });
+                    return { chat, greeting: response.text?.trim() || '' };
+                },
+            })
+                .then(result => {
+                    if (getAbortSignal()?.aborted) return;
+                    if (!result) {
+                        chatSessionKeyRef.current = null; // Try again when the connection comes back
+                        setMessages([{
+                            id: `ai-error-${Date.now()}`,
+                            text: "AI 튜터와 연결 중 문제가 발생했어요. 잠시 후 다시 시도해주세요.",
+                            sender: 'ai',
+                            timestamp: Date.now()
+                        }]);
+                        return;
+                    }
+                    chatInstance = result.chat;
+                    chatSystemInstruction = systemInstruction;
                     setMessages([{
-                        id: `ai-error-${Date.now()}`,
-                        text: "AI 튜터와 연결 중 문제가 발생했어요. 잠시 후 다시 시도해주세요.",
+                        id: `ai-${Date.now()}`,
+                        text: result.greeting || `안녕하세요, ${userSettings.username}님! 오늘 영어 단어 학습에 대해 무엇을 도와드릴까요?`,
                         sender: 'ai',
                         timestamp: Date.now()
                     }]);
@@ -3205,7 +8669,7 @@ Do not use markdown formatting like **bold** or *italics* in your responses. Kee
                     setIsChatLoading(false);
                     setGlobalLoading(false);
                 });
-        } else {
+        } else if (!ai) {
              setMessages([{
                 id: `ai-error-noapikey-${Date.now()}`,
                 text: "AI 튜터 기능을 사용하려면 API 키가 필요합니다. 설정을 확인해주세요.",
@@ -3214,7 +8678,7 @@ Do not use markdown formatting like **bold** or *italics* in your responses. Kee
             }]);
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [userSettings.grade, userSettings.username]); // Re-initialize if grade/username changes. `addToast` and `setGlobalLoading` are stable.
+    }, [userSettings.grade, userSettings.username, isOnline]); // Re-initialize if grade/username changes. `addToast` and `setGlobalLoading` are stable.
 
 
     const handleSendMessage = async () => {
@@ -3223,6 +8687,10 @@ Do not use markdown formatting like **bold** or *italics* in your responses. Kee
             if (!chatInstance && process.env.API_KEY) addToast("AI 튜터가 아직 준비되지 않았습니다. 잠시만 기다려주세요.", "warning");
             else if (!process.env.API_KEY) addToast("AI 튜터 기능을 사용하려면 API 키가 필요합니다.", "error");
             return;
+        }
+         if (!isOnline) {
+            addToast("오프라인 상태라 메시지를 보낼 수 없습니다. 인터넷에 연결되면 다시 보내주세요.", "warning");
+            return;
         }
          if (isCurrentlyGeminiQuotaExhausted) {
             addToast("Gemini API 할당량이 소진되어 메시지를 보낼 수 없습니다.", "error");
@@ -3243,32 +8711,23 @@ Do not use markdown formatting like **bold** or *italics* in your responses. Kee
         const aiLoadingMessageId = `ai-loading-${Date.now()}`;
         setMessages(prev => [...prev, { id: aiLoadingMessageId, text: "AI가 응답을 생각 중이에요...", sender: 'ai', timestamp: Date.now(), isLoading: true }]);
 
+        const chat = chatInstance;
         try {
-            const response = await chatInstance.sendMessage({ message: trimmedInput });
-            const aiResponse: ChatMessage = {
-                id: `ai-${Date.now()}`,
-                text: response.text.trim(),
-                sender: 'ai',
-                timestamp: Date.now()
-            };
-            setMessages(prev => prev.filter(m => m.id !== aiLoadingMessageId)); // Remove loading
-            setMessages(prev => [...prev, aiResponse]); // Add actual response
-
-        } catch (error: any) {
-            console.error("Error sending message to AI Tutor:", error);
-            const { isQuotaExhaustedError, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-            const featureDescription = "AI 튜터 채팅";
-
-            if (isQuotaExhaustedError) {
-                setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                 setMessages(prev => prev.filter(m => m.id !== aiLoadingMessageId));
-                 setMessages(prev => [...prev, { id: `ai-error-${Date.now()}`, text: `Gemini API 할당량 초과로 응답을 받을 수 없습니다. (에러: ${displayErrorMsg})`, sender: 'ai', timestamp: Date.now() }]);
-            } else {
-                 addToast(`AI 튜터 응답 중 오류: ${displayErrorMsg}`, "error");
-                 setMessages(prev => prev.filter(m => m.id !== aiLoadingMessageId));
-                 setMessages(prev => [...prev, { id: `ai-error-${Date.now()}`, text: `죄송해요, 답변 중 오류가 발생했어요. (에러: ${displayErrorMsg})`, sender: 'ai', timestamp: Date.now() }]);
-            }
-             console.error(`Error during ${featureDescription}. Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
+            const responseText = await runGeminiRequest({
+                featureDescription: "AI 튜터 채팅",
+                addToast,
+                signal: getAbortSignal(),
+                execute: async (_client, abortSignal) => (await chat.sendMessage({ message: trimmedInput, config: { systemInstruction: chatSystemInstruction, abortSignal } })).text?.trim() || '',
+                isComplete: text => text.length > 0,
+            });
+            if (getAbortSignal()?.aborted) return;
+            setMessages(prev => [
+                ...prev.filter(m => m.id !== aiLoadingMessageId),
+                responseText
+                    ? { id: `ai-${Date.now()}`, text: responseText, sender: 'ai', timestamp: Date.now() }
+                    // The queue has already told the student why (quota, offline, repeated errors)
+                    : { id: `ai-error-${Date.now()}`, text: "죄송해요, 답변을 받지 못했어요. 잠시 후 다시 보내주세요.", sender: 'ai', timestamp: Date.now() },
+            ]);
         } finally {
             setIsSending(false);
             setGlobalLoading(false);
@@ -3310,172 +8769,392 @@ Do not use markdown formatting like **bold** or *italics* in your responses. Kee
                         onKeyPress={(e) => e.key === 'Enter' && !isSending && handleSendMessage()}
                         placeholder={isSending || !chatInstance || isChatLoading ? "잠시 기다려주세요..." : "메시지를 입력하세요..."}
                         className="flex-grow p-3 bg-white dark:bg-slate-600 text-slate-900 dark:text-white rounded-lg border border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                        disabled={isSending || !chatInstance || isChatLoading || isCurrentlyGeminiQuotaExhausted}
+                        disabled={isSending || !chatInstance || isChatLoading || !isOnline || isCurrentlyGeminiQuotaExhausted}
                         aria-label="채팅 메시지 입력"
                     />
                     <button
                         onClick={handleSendMessage}
-                        disabled={isSending || !chatInstance || !inputText.trim() || isChatLoading || isCurrentlyGeminiQuotaExhausted}
+                        disabled={isSending || !chatInstance || !inputText.trim() || isChatLoading || !isOnline || isCurrentlyGeminiQuotaExhausted}
                         className="px-6 py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         전송
                     </button>
                 </div>
-                 {isCurrentlyGeminiQuotaExhausted && <p className="text-xs text-red-500 dark:text-red-400 text-center mt-1">Gemini API 할당량 초과로 메시지를 보낼 수 없습니다.</p>}
+                 {!isOnline && <p className="text-xs text-yellow-600 dark:text-yellow-400 text-center mt-1">오프라인 상태라 메시지를 보낼 수 없습니다.</p>}
+                 {isOnline && isCurrentlyGeminiQuotaExhausted && <p className="text-xs text-red-500 dark:text-red-400 text-center mt-1">Gemini API 할당량 초과로 메시지를 보낼 수 없습니다.</p>}
             </div>
         </div>
     );
 };
 
 
+// --- Hash Routing ---
+// Every screen has a URL in the fragment (`#/quiz?unit=5&mode=listening`, `#/game/result?...`), so the browser's
+// back and forward buttons move between screens, a reload reopens the current screen and screens can be bookmarked.
+// Fragments that are not routes, such as shared word-pack links (`#wordpack=...`), are left to their own handlers.
+type AppRoute = { [S in AppScreen]: { screen: S; params?: RouteParams<S> } }[AppScreen];
+
+type RouteQuery = Record<string, string | number | undefined>;
+
+interface RouteDefinition<S extends AppScreen> {
+    path: string;
+    toQuery?: (params: NonNullable<RouteParams<S>>) => RouteQuery;
+    fromQuery?: (query: URLSearchParams) => RouteParams<S>;
+}
+
+const readRouteNumber = (query: URLSearchParams, key: string) => {
+    const value = query.get(key);
+    return value !== null && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+};
+
+const isQuizQuestionType = (value: string): value is QuizQuestionType => QUIZ_QUESTION_TYPES.some(({ type }) => type === value);
+
+const APP_ROUTES: { [S in AppScreen]: RouteDefinition<S> } = {
+    dashboard: { path: '/' },
+    learnWords: {
+        path: '/learn',
+        toQuery: ({ unitId }) => ({ unit: unitId }),
+        fromQuery: query => ({ unitId: query.get('unit') || undefined }),
+    },
+    // `mode` lists the quiz mode and question types together: `mode=listening`, `mode=review,spelling`
+    quiz: {
+        path: '/quiz',
+        toQuery: ({ mode, unitId, questionTypes = [] }) => ({
+            unit: unitId,
+            mode: [...(mode === 'review' ? ['review'] : []), ...questionTypes].join(',') || undefined,
+        }),
+        fromQuery: query => {
+            const modeValues = (query.get('mode') || '').split(',');
+            const questionTypes = modeValues.filter(isQuizQuestionType);
+            return {
+                mode: modeValues.includes('review') ? 'review' : undefined,
+                unitId: query.get('unit') || undefined,
+                questionTypes: questionTypes.length > 0 ? questionTypes : undefined,
+            };
+        },
+    },
+    allWords: { path: '/words' },
+    wordsByUnit: { path: '/units' },
+    stats: { path: '/stats' },
+    manageWords: { path: '/manage' },
+    tutorChat: { path: '/tutor' },
+    gameSelection: { path: '/game' },
+    wordMatchGame: { path: '/game/match' },
+    typingPracticeGame: { path: '/game/typing' },
+    speedQuizGame: { path: '/game/speed-quiz' },
+    pronunciationGame: { path: '/game/pronunciation' },
+    gameResult: {
+        path: '/game/result',
+        toQuery: result => ({
+            game: result.gameName,
+            score: result.score,
+            correct: result.correct,
+            incorrect: result.incorrect,
+            time: result.timeTaken,
+            wpm: result.wpm,
+            accuracy: result.accuracy,
+            combo: result.bestCombo,
+            rank: result.leaderboardRank,
+        }),
+        fromQuery: query => ({
+            gameName: query.get('game') || "게임",
+            score: readRouteNumber(query, 'score') ?? 0,
+            correct: readRouteNumber(query, 'correct') ?? 0,
+            incorrect: readRouteNumber(query, 'incorrect') ?? 0,
+            timeTaken: readRouteNumber(query, 'time') ?? 0,
+            wpm: readRouteNumber(query, 'wpm'),
+            accuracy: readRouteNumber(query, 'accuracy'),
+            bestCombo: readRouteNumber(query, 'combo'),
+            leaderboardRank: readRouteNumber(query, 'rank'),
+        }),
+    },
+    profileSelect: { path: '/profiles' },
+    loginSetup: { path: '/setup' },
+};
+
+const formatRouteHash = <S extends AppScreen>(screen: S, params?: RouteParams<S>): string => {
+    const route = APP_ROUTES[screen] as RouteDefinition<AppScreen>;
+    const query = new URLSearchParams();
+    if (params && route.toQuery) {
+        Object.entries(route.toQuery(params)).forEach(([key, value]) => {
+            if (value !== undefined && value !== '') query.set(key, String(value));
+        });
+    }
+    const queryString = query.toString().replace(/%2C/g, ','); // Lists such as `mode=review,listening` stay readable
+    return `#${route.path}${queryString ? `?${queryString}` : ''}`;
+};
+
+// Returns null for fragments that are not routes, including unknown paths
+const parseRouteHash = (hash: string): AppRoute | null => {
+    if (!hash.startsWith('#/')) return null;
+    const [path, queryString = ''] = hash.slice(1).split('?');
+    const screen = (Object.keys(APP_ROUTES) as AppScreen[]).find(candidate => APP_ROUTES[candidate].path === path);
+    if (!screen) return null;
+    const route = APP_ROUTES[screen] as RouteDefinition<AppScreen>;
+    return { screen, params: route.fromQuery?.(new URLSearchParams(queryString)) } as AppRoute;
+};
+
+// Leaves the address bar alone while it holds a fragment that is not a route, so its handler can still read it
+const writeRouteHash = (hash: string, historyMode: 'push' | 'replace') => {
+    const currentHash = window.location.hash;
+    if (currentHash === hash || (currentHash !== '' && !currentHash.startsWith('#/'))) return;
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (historyMode === 'push') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+};
+
+// Setup and the profile picker are reached through the profile flow, never restored from a link
+const isProfileScreenRoute = (route: AppRoute) => route.screen === 'loginSetup' || route.screen === 'profileSelect';
+
 // --- Main App Component ---
 const App: React.FC = () => {
     const { addToast } = useToasts();
     const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
+    const [profiles, setProfiles] = useState<StudentProfile[]>([]);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+    const [isStorageReady, setIsStorageReady] = useState(false);
     const [currentScreen, setCurrentScreen] = useState<AppScreen>('loginSetup');
     const [allWords, setAllWords] = useState<Word[]>([]); 
     const [wordStats, setWordStats] = useState<Record<string | number, WordStat>>({});
     const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
     const [globalLoading, setGlobalLoading] = useState(false);
-    const [routeParams, setRouteParams] = useState<any>(null); // For passing params between screens
+    const [routeParams, setRouteParams] = useState<RouteParams<AppScreen>>(); // For passing params between screens
+    const [isRouteRestored, setIsRouteRestored] = useState(false); // The screen was reopened from the address bar or history rather than navigated to
+    // The route in the address bar when the app opened; shown once a profile has loaded
+    const initialRouteRef = useRef(parseRouteHash(window.location.hash));
 
     // Learning Stats
     const [learnedWordsTodayCount, setLearnedWordsTodayCount] = useState(0);
     const [totalWordsLearnedOverall, setTotalWordsLearnedOverall] = useState(0);
-    const [learningStreak, setLearningStreak] = useState({ currentStreak: 0, bestStreak: 0, lastLearnedDate: '' });
-    const [quizHistory, setQuizHistory] = useState<{ score: number, total: number, date: string }[]>([]);
+    const [learningStreak, setLearningStreak] = useState<LearningStreak>({ currentStreak: 0, bestStreak: 0, lastLearnedDate: '' });
+    const [quizHistory, setQuizHistory] = useState<QuizHistoryEntry[]>([]);
     const [quizTakenToday, setQuizTakenToday] = useState(false);
+    const [activityLog, setActivityLog] = useState<DailyActivity[]>([]);
+    const [units, setUnits] = useState<Unit[]>([]);
+    const [unitImportJobs, setUnitImportJobs] = useState<Record<string, UnitImportJob>>({});
+    const [textbookCatalogue, setTextbookCatalogue] = useState<TextbookPack[]>([]);
+    const [pendingWordPack, setPendingWordPack] = useState<WordPack | null>(null);
+    const isOnline = useOnlineStatus(); // Also re-renders the screens so their AI buttons show the offline state
 
 
-    const calculateXPLevel = (xp: number) => {
-        let level = 1;
-        let xpForNext = 100;
-        let cumulativeXpForLevel = 0;
-        while (xp >= cumulativeXpForLevel + xpForNext) {
-            cumulativeXpForLevel += xpForNext;
-            level++;
-            xpForNext = level * 100; 
-        }
-        return { level, currentLevelXp: xp - cumulativeXpForLevel, xpForNextLevel: xpForNext };
-    };
-    
+    const recordActivity = useCallback((counts: DailyActivityCounts) => {
+        setActivityLog(prev => addDailyActivity(prev, getTodayDateString(), counts));
+    }, []);
+
     const addXp = useCallback((amount: number) => {
+        recordActivity({ xpEarned: amount });
         setUserSettings(prevSettings => {
             if (!prevSettings) return null;
             const newXp = (prevSettings.xp || 0) + amount;
             const { level: newLevel } = calculateXPLevel(newXp);
-            
+
             if (newLevel > prevSettings.level) {
                  addToast(`레벨 업! ${newLevel}레벨 달성! 🎉`, "success");
             }
             return { ...prevSettings, xp: newXp, level: newLevel };
         });
+    }, [addToast, recordActivity]);
+
+    // Storage writes run in the background; failures are reported without interrupting the student
+    const lastStorageErrorToastRef = useRef(0);
+    const persist = useCallback((write: Promise<void>) => {
+        write.catch(error => {
+            console.error("Failed to save learning data:", error);
+            if (Date.now() - lastStorageErrorToastRef.current < 60 * 1000) return; // One toast per minute at most
+            lastStorageErrorToastRef.current = Date.now();
+            addToast(isStorageQuotaError(error)
+                ? "저장 공간이 부족하여 학습 기록을 저장하지 못했습니다. 사용하지 않는 프로필이나 단어를 정리해주세요."
+                : "학습 기록을 저장하는 중 오류가 발생했습니다.", "error");
+        });
     }, [addToast]);
 
+    // What was last written (or loaded) for the active profile, so only changed records are saved
+    const savedWordsRef = useRef<{ profileId: string | null; words: Word[] }>({ profileId: null, words: [] });
+    const savedWordStatsRef = useRef<{ profileId: string | null; stats: Record<string, WordStat> }>({ profileId: null, stats: {} });
 
-    // Load data from localStorage on mount
+    // speak() plays with the active profile's accent and voices
     useEffect(() => {
-        const storedSettings = localStorage.getItem('userSettings');
-        if (storedSettings) {
-            const parsedSettings = JSON.parse(storedSettings) as UserSettings;
-            // Ensure level and xp are initialized if not present
-            if (parsedSettings.xp === undefined) parsedSettings.xp = 0;
-            if (parsedSettings.level === undefined) parsedSettings.level = calculateXPLevel(parsedSettings.xp).level;
-            
-            setUserSettings(parsedSettings);
-            setCurrentScreen('dashboard'); 
-            if (parsedSettings.theme === 'dark') {
-                document.documentElement.classList.add('dark');
-            } else {
-                document.documentElement.classList.remove('dark');
-            }
-        }
-
-        const storedAllWords = localStorage.getItem('allWords');
-        setAllWords(storedAllWords ? JSON.parse(storedAllWords) : [...sampleWords]);
+        if (userSettings) applySpeechVoiceSettings(userSettings);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [userSettings?.englishAccent, userSettings?.voiceURIs]);
 
-        const storedWordStats = localStorage.getItem('wordStats');
-        setWordStats(storedWordStats ? JSON.parse(storedWordStats) : {});
-        
-        // Load learning stats
-        const storedLearnedToday = localStorage.getItem('learnedWordsTodayCount');
-        const storedTotalLearned = localStorage.getItem('totalWordsLearnedOverall');
-        const storedStreak = localStorage.getItem('learningStreak');
-        const storedQuizHistory = localStorage.getItem('quizHistory');
-        const storedQuizTakenToday = localStorage.getItem('quizTakenToday');
 
-        const today = getTodayDateString();
-        
-        if (storedLearnedToday && JSON.parse(storedLearnedToday).date === today) {
-            setLearnedWordsTodayCount(JSON.parse(storedLearnedToday).count);
+    const applyThemeClass = (theme: UserSettings['theme'] | undefined) => {
+        if (theme === 'dark') {
+            document.documentElement.classList.add('dark');
         } else {
-            localStorage.setItem('learnedWordsTodayCount', JSON.stringify({ count: 0, date: today }));
+            document.documentElement.classList.remove('dark');
         }
+    };
+
+    // Clears everything that belongs to a profile (used before setting up a new one)
+    const resetProfileState = () => {
+        setUserSettings(null);
+        applyStarterWordList();
+        setWordStats({});
+        setLearnedWordsTodayCount(0);
+        setTotalWordsLearnedOverall(0);
+        setLearningStreak({ currentStreak: 0, bestStreak: 0, lastLearnedDate: '' });
+        setQuizHistory([]);
+        setQuizTakenToday(false);
+        setActivityLog([]);
+        setUnitImportJobs({});
+    };
+
+    const applyStarterWordList = (grade?: string, textbookId = '') => {
+        const starter = createStarterWordList(grade);
+        const pack = textbookCatalogue.find(p => p.id === textbookId);
+        const initial = pack ? applyTextbookPack(pack, starter.words, starter.units) : starter;
+        setAllWords(initial.words);
+        setUnits(initial.units);
+    };
+
+    const commitProfileRegistry = (nextProfiles: StudentProfile[], nextActiveProfileId: string | null) => {
+        setProfiles(nextProfiles);
+        setActiveProfileId(nextActiveProfileId);
+        persist(saveProfileRegistry({ profiles: nextProfiles, activeProfileId: nextActiveProfileId }));
+    };
+
+    // Loads one profile's data from storage. Old data was already upgraded by the storage migrations.
+    const loadProfileState = async (profileId: string) => {
+        const snapshot = await loadProfileSnapshot(profileId);
+        const { words: loadedWords, units: loadedUnits } = snapshot.allWords
+            ? { words: snapshot.allWords, units: snapshot.units || [] }
+            : createStarterWordList(snapshot.userSettings?.grade);
+        savedWordsRef.current = { profileId, words: snapshot.allWords ? loadedWords : [] };
+        savedWordStatsRef.current = { profileId, stats: snapshot.wordStats };
+
+        setUserSettings(snapshot.userSettings);
+        applyThemeClass(snapshot.userSettings?.theme);
+        setAllWords(loadedWords);
+        setUnits(loadedUnits);
+        setWordStats(snapshot.wordStats);
 
-        setTotalWordsLearnedOverall(storedTotalLearned ? parseInt(storedTotalLearned, 10) : 0);
+        const today = getTodayDateString();
+        setLearnedWordsTodayCount(snapshot.learnedWordsTodayCount?.date === today ? snapshot.learnedWordsTodayCount.count : 0);
+        setTotalWordsLearnedOverall(snapshot.totalWordsLearnedOverall ?? 0);
 
+        const storedStreak = snapshot.learningStreak;
         if (storedStreak) {
-            const parsedStreak = JSON.parse(storedStreak);
-            if (parsedStreak.lastLearnedDate !== today) { // Check if streak needs reset or update
+            if (storedStreak.lastLearnedDate !== today) { // Check if streak needs reset or update
                  const yesterday = new Date();
                  yesterday.setDate(yesterday.getDate() - 1);
-                 if (parsedStreak.lastLearnedDate !== yesterday.toISOString().split('T')[0]) {
+                 if (storedStreak.lastLearnedDate !== yesterday.toISOString().split('T')[0]) {
                     // Not learned yesterday, reset current streak
-                    setLearningStreak({ ...parsedStreak, currentStreak: 0 }); 
+                    setLearningStreak({ ...storedStreak, currentStreak: 0 });
                  } else {
-                    setLearningStreak(parsedStreak); // Streak continues from yesterday
+                    setLearningStreak(storedStreak); // Streak continues from yesterday
                  }
             } else {
-                 setLearningStreak(parsedStreak); // Learned today already, keep current streak
+                 setLearningStreak(storedStreak); // Learned today already, keep current streak
             }
         } else {
             setLearningStreak({ currentStreak: 0, bestStreak: 0, lastLearnedDate: '' });
         }
-        
-        setQuizHistory(storedQuizHistory ? JSON.parse(storedQuizHistory) : []);
-        if (storedQuizTakenToday && JSON.parse(storedQuizTakenToday).date === today) {
-            setQuizTakenToday(JSON.parse(storedQuizTakenToday).taken);
+
+        setQuizHistory(snapshot.quizHistory || []);
+        setQuizTakenToday(snapshot.quizTakenToday?.date === today ? snapshot.quizTakenToday.taken : false);
+        setActivityLog(snapshot.activityLog || []);
+        setUnitImportJobs(snapshot.unitImportJobs || {});
+
+        setActiveProfileId(profileId);
+        const initialRoute = initialRouteRef.current;
+        initialRouteRef.current = null;
+        if (snapshot.userSettings && initialRoute && !isProfileScreenRoute(initialRoute)) {
+            setCurrentScreen(initialRoute.screen);
+            setRouteParams(initialRoute.params);
+            setIsRouteRestored(true);
         } else {
-             localStorage.setItem('quizTakenToday', JSON.stringify({ taken: false, date: today }));
+            setCurrentScreen(snapshot.userSettings ? 'dashboard' : 'loginSetup');
         }
+    };
 
-
+    // Load data from storage on mount, migrating older data first
+    useEffect(() => {
+        let isCancelled = false;
+        initializeStorage()
+            .then(loadProfileRegistry)
+            .then(async registry => {
+                if (isCancelled) return;
+                setTextbookCatalogue(await loadTextbookCatalogue());
+                setProfiles(registry.profiles);
+                if (registry.profiles.length > 1) {
+                    // Shared device: let the student pick who is studying. No profile is active until then,
+                    // so nothing gets saved over the previous student's data.
+                    setCurrentScreen('profileSelect');
+                } else if (registry.profiles.length === 1) {
+                    await loadProfileState(registry.profiles[0].id);
+                } else {
+                    applyStarterWordList();
+                }
+            })
+            .catch(error => {
+                console.error("Failed to open learning data storage:", error);
+                applyStarterWordList();
+                addToast("학습 데이터 저장소를 열 수 없습니다. 이번 학습 기록은 저장되지 않을 수 있습니다.", "error");
+            })
+            .finally(() => {
+                if (!isCancelled) setIsStorageReady(true);
+            });
+        return () => { isCancelled = true; };
     }, []);
 
-    // Save data to localStorage whenever it changes
+    // Save data to the active profile whenever it changes
     useEffect(() => {
-        if (userSettings) localStorage.setItem('userSettings', JSON.stringify(userSettings));
-    }, [userSettings]);
+        if (activeProfileId && userSettings) persist(saveProfileValue(activeProfileId, 'userSettings', userSettings));
+    }, [activeProfileId, userSettings, persist]);
 
     useEffect(() => {
-        localStorage.setItem('allWords', JSON.stringify(allWords));
-    }, [allWords]);
+        if (!activeProfileId) return;
+        const saved = savedWordsRef.current;
+        persist(saveWordChanges(activeProfileId, saved.profileId === activeProfileId ? saved.words : [], allWords));
+        savedWordsRef.current = { profileId: activeProfileId, words: allWords };
+    }, [activeProfileId, allWords, persist]);
 
     useEffect(() => {
-        localStorage.setItem('wordStats', JSON.stringify(wordStats));
-    }, [wordStats]);
+        if (!activeProfileId) return;
+        const saved = savedWordStatsRef.current;
+        const stats = wordStats as Record<string, WordStat>;
+        persist(saveWordStatChanges(activeProfileId, saved.profileId === activeProfileId ? saved.stats : {}, stats));
+        savedWordStatsRef.current = { profileId: activeProfileId, stats };
+    }, [activeProfileId, wordStats, persist]);
 
     // Save learning stats
     useEffect(() => {
-        localStorage.setItem('learnedWordsTodayCount', JSON.stringify({ count: learnedWordsTodayCount, date: getTodayDateString() }));
-    }, [learnedWordsTodayCount]);
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'learnedWordsTodayCount', { count: learnedWordsTodayCount, date: getTodayDateString() }));
+    }, [activeProfileId, learnedWordsTodayCount, persist]);
+    useEffect(() => {
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'totalWordsLearnedOverall', totalWordsLearnedOverall));
+    }, [activeProfileId, totalWordsLearnedOverall, persist]);
+    useEffect(() => {
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'learningStreak', learningStreak));
+    }, [activeProfileId, learningStreak, persist]);
+    useEffect(() => {
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'quizHistory', quizHistory));
+    }, [activeProfileId, quizHistory, persist]);
     useEffect(() => {
-        localStorage.setItem('totalWordsLearnedOverall', String(totalWordsLearnedOverall));
-    }, [totalWordsLearnedOverall]);
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'quizTakenToday', { taken: quizTakenToday, date: getTodayDateString() }));
+    }, [activeProfileId, quizTakenToday, persist]);
     useEffect(() => {
-        localStorage.setItem('learningStreak', JSON.stringify(learningStreak));
-    }, [learningStreak]);
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'activityLog', activityLog));
+    }, [activeProfileId, activityLog, persist]);
     useEffect(() => {
-        localStorage.setItem('quizHistory', JSON.stringify(quizHistory));
-    }, [quizHistory]);
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'unitImportJobs', unitImportJobs));
+    }, [activeProfileId, unitImportJobs, persist]);
     useEffect(() => {
-        localStorage.setItem('quizTakenToday', JSON.stringify({ taken: quizTakenToday, date: getTodayDateString() }));
-    }, [quizTakenToday]);
+        if (activeProfileId) persist(saveProfileValue(activeProfileId, 'units', units));
+    }, [activeProfileId, units, persist]);
 
 
     const handleSetupComplete = (settings: UserSettings) => {
+        if (activeProfileId) {
+            commitProfileRegistry(profiles.map(p => p.id === activeProfileId ? { ...p, name: settings.username } : p), activeProfileId);
+        } else {
+            const newProfile: StudentProfile = { id: createProfileId(), name: settings.username, createdAt: new Date().toISOString() };
+            commitProfileRegistry([...profiles, newProfile], newProfile.id);
+        }
         setUserSettings(settings);
-        setAllWords([...sampleWords]); // Initialize with sample words on first setup
+        applyStarterWordList(settings.grade, settings.textbook); // Initialize with sample words (and the chosen textbook) on first setup
         setWordStats({});
         // Reset learning stats on new setup
         setLearnedWordsTodayCount(0);
@@ -3483,19 +9162,146 @@ const App: React.FC = () => {
         setLearningStreak({ currentStreak: 0, bestStreak: 0, lastLearnedDate: ''});
         setQuizHistory([]);
         setQuizTakenToday(false);
+        setActivityLog([]);
+        setUnitImportJobs({});
         setCurrentScreen('dashboard');
         addToast(`환영합니다, ${settings.username}님! 설정이 완료되었습니다.`, "success");
-         if (settings.theme === 'dark') {
-            document.documentElement.classList.add('dark');
-        } else {
-            document.documentElement.classList.remove('dark');
+        applyThemeClass(settings.theme);
+    };
+
+    const handleSelectProfile = (profileId: string) => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (!profile) return;
+        if (profileId === activeProfileId && userSettings) {
+            setCurrentScreen('dashboard');
+            return;
         }
+        loadProfileState(profileId)
+            .then(() => {
+                commitProfileRegistry(profiles, profileId);
+                addToast(`${profile.name} 프로필로 전환했습니다.`, "info");
+            })
+            .catch(error => {
+                console.error(`Failed to load profile ${profileId}:`, error);
+                addToast(`'${profile.name}' 프로필을 불러오지 못했습니다.`, "error");
+            });
     };
-    
-    const handleNavigate = (screen: AppScreen, params?: any) => {
+
+    const handleAddProfile = () => {
+        // Detach from the current profile first so the setup screen's fresh state is not saved over it
+        resetProfileState();
+        setActiveProfileId(null);
+        setCurrentScreen('loginSetup');
+    };
+
+    const handleDeleteProfile = (profileId: string) => {
+        const deletedProfile = profiles.find(p => p.id === profileId);
+        persist(deleteProfileStorage(profileId));
+        const remainingProfiles = profiles.filter(p => p.id !== profileId);
+        const isActiveProfile = profileId === activeProfileId;
+        if (isActiveProfile) resetProfileState();
+        commitProfileRegistry(remainingProfiles, isActiveProfile ? null : activeProfileId);
+        if (remainingProfiles.length === 0) setCurrentScreen('loginSetup');
+        if (deletedProfile) addToast(`'${deletedProfile.name}' 프로필을 삭제했습니다.`, "info");
+    };
+
+    const handleNavigate = useCallback<NavigateFunction>((screen, params, options) => {
+        writeRouteHash(formatRouteHash(screen, params), options?.replace ? 'replace' : 'push');
         setCurrentScreen(screen);
         setRouteParams(params);
-        window.scrollTo(0, 0); // Scroll to top on navigation
+        setIsRouteRestored(false);
+        if (!options?.replace) window.scrollTo(0, 0); // Scroll to top on navigation
+    }, []);
+
+    // Screens changed without handleNavigate (profile loading, setup, resets) replace the current history entry
+    const currentRouteHash = formatRouteHash(currentScreen, routeParams);
+    const currentRouteHashRef = useRef(currentRouteHash);
+    currentRouteHashRef.current = currentRouteHash;
+    useEffect(() => {
+        if (isStorageReady) writeRouteHash(currentRouteHash, 'replace');
+    }, [isStorageReady, currentRouteHash]);
+
+    // Back/forward and edits to the address bar
+    const hasUserSettings = !!userSettings;
+    const hasProfiles = profiles.length > 0;
+    useEffect(() => {
+        if (!isStorageReady) return;
+        const handlePopState = () => {
+            const route = parseRouteHash(window.location.hash);
+            if (!route) return; // Not a route, e.g. a word-pack link
+            const canShowRoute = route.screen === 'profileSelect' ? hasProfiles : hasUserSettings && !isProfileScreenRoute(route);
+            if (!canShowRoute) {
+                window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${currentRouteHashRef.current}`);
+                return;
+            }
+            setCurrentScreen(route.screen);
+            setRouteParams(route.params);
+            setIsRouteRestored(true);
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, [isStorageReady, hasUserSettings, hasProfiles]);
+
+    // A shared word-pack link opens the import dialog once a profile is active, and is then replaced by the current route
+    useEffect(() => {
+        if (!isStorageReady || !hasUserSettings) return;
+        const openWordPackFromUrl = () => {
+            readWordPackFromUrlFragment(window.location.hash)
+                .then(pack => {
+                    if (!pack) return;
+                    setPendingWordPack(pack);
+                    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${currentRouteHashRef.current}`);
+                })
+                .catch(error => {
+                    console.error("Failed to read word pack link:", error);
+                    addToast(error instanceof Error ? error.message : "단어 팩 링크를 읽지 못했습니다.", "error");
+                    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${currentRouteHashRef.current}`);
+                });
+        };
+        openWordPackFromUrl();
+        window.addEventListener('hashchange', openWordPackFromUrl);
+        return () => window.removeEventListener('hashchange', openWordPackFromUrl);
+    }, [isStorageReady, hasUserSettings, addToast]);
+
+    const handleImportWordPack = (duplicateMode: WordPackDuplicateMode, includeImages: boolean) => {
+        if (!pendingWordPack) return;
+        const plan = planWordPackImport(pendingWordPack, allWords, units, duplicateMode);
+        setAllWords(plan.words);
+        setUnits(plan.units);
+        if (includeImages && plan.images.length > 0) {
+            persist((async () => {
+                for (const { wordId, image } of plan.images) await saveAiContent(wordId, { kind: 'image', image: await dataUrlToBlob(image) });
+            })());
+        }
+        addToast(`'${pendingWordPack.metadata.title}' 단어 팩을 가져왔습니다. (추가 ${plan.addedWords.length}개${plan.updatedWords.length > 0 ? `, 업데이트 ${plan.updatedWords.length}개` : ''}${plan.skippedTerms.length > 0 ? `, 건너뜀 ${plan.skippedTerms.length}개` : ''})`, plan.addedWords.length + plan.updatedWords.length > 0 ? "success" : "info");
+        setPendingWordPack(null);
+    };
+
+    // Installs or updates a pack in the device's catalogue. A profile already following the textbook gets its new units and words.
+    const handleImportTextbookPack = async (file: File): Promise<TextbookPack | null> => {
+        let pack: TextbookPack;
+        try {
+            pack = parseTextbookPack(await file.text());
+        } catch (error) {
+            console.error("Failed to read textbook pack:", error);
+            addToast(error instanceof Error ? error.message : "교과서 팩 파일을 읽지 못했습니다.", "error");
+            return null;
+        }
+        const isUpdate = textbookCatalogue.some(p => p.id === pack.id);
+        const nextCatalogue = [...textbookCatalogue.filter(p => p.id !== pack.id), pack];
+        setTextbookCatalogue(nextCatalogue);
+        persist(saveTextbookCatalogue(nextCatalogue));
+        const wordCount = pack.units.reduce((sum, unit) => sum + unit.words.length, 0);
+        addToast(`'${getTextbookLabel(pack)}' 교과서 팩을 ${isUpdate ? '업데이트' : '추가'}했습니다. (단원 ${pack.units.length}개, 단어 ${wordCount}개)`, "success");
+        if (userSettings?.textbook === pack.id) applyTextbookToProfile(pack);
+        return pack;
+    };
+
+    const applyTextbookToProfile = (pack: TextbookPack) => {
+        const applied = applyTextbookPack(pack, allWords, units);
+        setAllWords(applied.words);
+        setUnits(applied.units);
+        if (applied.addedWordCount > 0) addToast(`'${getTextbookLabel(pack)}' 교과서의 단어 ${applied.addedWordCount}개를 추가했습니다.`, "info");
     };
 
     const handleSaveSettings = (newSettings: UserSettings) => {
@@ -3504,45 +9310,92 @@ const App: React.FC = () => {
         setIsSettingsModalOpen(false);
         addToast("설정이 성공적으로 저장되었습니다.", "success");
 
+        const newTextbookPack = newSettings.textbook !== userSettings?.textbook && textbookCatalogue.find(p => p.id === newSettings.textbook);
+        if (newTextbookPack) applyTextbookToProfile(newTextbookPack);
+
+        if (activeProfileId && newSettings.username !== userSettings?.username) {
+            commitProfileRegistry(profiles.map(p => p.id === activeProfileId ? { ...p, name: newSettings.username } : p), activeProfileId);
+        }
         if (newSettings.theme !== oldTheme) {
-            if (newSettings.theme === 'dark') {
-                document.documentElement.classList.add('dark');
-            } else {
-                document.documentElement.classList.remove('dark');
-            }
+            applyThemeClass(newSettings.theme);
         }
     };
-    
+
+    // Only wipes the active profile; other students on this device keep their data
     const handleResetAllData = () => {
-        if (window.confirm("정말로 모든 학습 데이터와 설정을 초기화하시겠습니까? 이 작업은 되돌릴 수 없습니다.")) {
-            localStorage.clear();
-            setUserSettings(null);
-            setAllWords([...sampleWords]);
-            setWordStats({});
-            setLearnedWordsTodayCount(0);
-            setTotalWordsLearnedOverall(0);
-            setLearningStreak({ currentStreak: 0, bestStreak: 0, lastLearnedDate: '' });
-            setQuizHistory([]);
-            setQuizTakenToday(false);
+        if (window.confirm("정말로 현재 프로필의 모든 학습 데이터와 설정을 초기화하시겠습니까? 이 작업은 되돌릴 수 없습니다.")) {
+            const remainingProfiles = profiles.filter(p => p.id !== activeProfileId);
+            if (activeProfileId) persist(deleteProfileStorage(activeProfileId));
+            commitProfileRegistry(remainingProfiles, null);
+            resetProfileState();
             if (quotaCooldownTimeoutId) clearTimeout(quotaCooldownTimeoutId);
             isCurrentlyGeminiQuotaExhausted = false;
             quotaCooldownTimeoutId = null;
             document.documentElement.classList.remove('dark'); // Default to light on reset or ensure it matches default
-            setCurrentScreen('loginSetup');
-            addToast("모든 데이터가 초기화되었습니다.", "info");
+            setCurrentScreen(remainingProfiles.length > 0 ? 'profileSelect' : 'loginSetup');
+            addToast("현재 프로필의 데이터가 초기화되었습니다.", "info");
         }
     };
 
 
-    const onWordLearned = (wordId: string | number, isQuickReview: boolean = false) => {
+    const createBackup = async (): Promise<LearningDataBackup> => {
+        const today = getTodayDateString();
+        return {
+            app: BACKUP_APP_ID,
+            version: BACKUP_FORMAT_VERSION,
+            exportedAt: new Date().toISOString(),
+            data: {
+                userSettings,
+                allWords,
+                units,
+                wordStats: wordStats as Record<string, WordStat>,
+                learnedWordsTodayCount: { count: learnedWordsTodayCount, date: today },
+                totalWordsLearnedOverall,
+                learningStreak,
+                quizHistory,
+                quizTakenToday: { taken: quizTakenToday, date: today },
+                speedQuizLeaderboard: await loadSpeedQuizLeaderboard(),
+                activityLog,
+            },
+        };
+    };
+
+    const handleRestoreBackup = async (backup: LearningDataBackup, mode: BackupRestoreMode) => {
+        const today = getTodayDateString();
+        const restored = mode === 'replace' ? backup.data : mergeLearningData((await createBackup()).data, backup.data);
+        const restoredSettings = restored.userSettings || userSettings;
+
+        setUserSettings(restoredSettings);
+        setAllWords(restored.allWords);
+        setUnits(restored.units);
+        setWordStats(restored.wordStats);
+        setLearnedWordsTodayCount(restored.learnedWordsTodayCount.date === today ? restored.learnedWordsTodayCount.count : 0);
+        setTotalWordsLearnedOverall(restored.totalWordsLearnedOverall);
+        setLearningStreak(restored.learningStreak);
+        setQuizHistory(restored.quizHistory);
+        setQuizTakenToday(restored.quizTakenToday.date === today && restored.quizTakenToday.taken);
+        setActivityLog(restored.activityLog);
+        // The leaderboard is shared by every profile on this device, so a restore never drops other students' scores
+        persist(loadSpeedQuizLeaderboard().then(current => saveSpeedQuizLeaderboard(mergeSpeedQuizLeaderboards(current, restored.speedQuizLeaderboard))));
+        if (activeProfileId && restoredSettings) {
+            commitProfileRegistry(profiles.map(p => p.id === activeProfileId ? { ...p, name: restoredSettings.username } : p), activeProfileId);
+        }
+        applyThemeClass(restoredSettings?.theme);
+        addToast(mode === 'replace' ? "백업 데이터로 모든 학습 데이터를 교체했습니다." : "백업 데이터를 현재 학습 데이터와 병합했습니다.", "success");
+    };
+
+    // Learning a card, practicing its pronunciation or hearing it in listen mode counts toward the daily goal; quick reviews only earn XP
+    const onWordLearned = (wordId: string | number, quality: number, source: LearningReviewSource = 'learn') => {
         const today = getTodayDateString();
         const stat = wordStats[wordId] || getDefaultWordStat(wordId);
+        const isQuickReview = source === 'quickReview';
         
         const wasLearnedTodayForTheFirstTime = !stat.lastReviewed || stat.lastReviewed.split('T')[0] !== today;
 
-        updateWordStat(wordId, { lastReviewed: new Date().toISOString() });
+        recordWordReview(wordId, quality, source);
 
         if (wasLearnedTodayForTheFirstTime && !isQuickReview) {
+            recordActivity({ wordsLearned: 1 });
             setLearnedWordsTodayCount(prev => prev + 1);
             setTotalWordsLearnedOverall(prev => prev + 1);
             addXp(5); // XP for learning a new word
@@ -3565,10 +9418,11 @@ const App: React.FC = () => {
         }
     };
     
-    const onQuizComplete = (finalScore: number, totalQuestions: number, incorrectWords: Word[]) => {
+    const onQuizComplete = (finalScore: number, totalQuestions: number, incorrectWords: Word[], resultsByType?: Partial<Record<QuizQuestionType, QuizTypeResult>>) => {
         const today = getTodayDateString();
-        setQuizHistory(prev => [...prev, { score: finalScore, total: totalQuestions, date: today }]);
+        setQuizHistory(prev => [...prev, { score: finalScore, total: totalQuestions, date: today, ...(resultsByType && { byType: resultsByType }) }]);
         setQuizTakenToday(true);
+        recordActivity({ quizzes: 1, quizCorrect: finalScore, quizQuestions: totalQuestions });
         addToast(`퀴즈 완료! ${totalQuestions}문제 중 ${finalScore}문제 정답!`, "success");
         addXp(Math.round(finalScore * 1.5)); // XP based on quiz score (e.g., 1.5 XP per correct answer)
     };
@@ -3583,8 +9437,17 @@ const App: React.FC = () => {
             }
         }));
     };
+
+    // Feeds one answer (learning card, quiz question, game round...) into the word's SRS schedule
+    const recordWordReview = useCallback((wordId: string | number, quality: number, source: ReviewSource) => {
+        setWordStats(prevStats => ({
+            ...prevStats,
+            [wordId]: applySrsReview(prevStats[wordId] || getDefaultWordStat(wordId), quality, source),
+        }));
+        if (!SRS_EXPOSURE_ONLY_SOURCES.includes(source)) recordActivity({ reviews: 1 });
+    }, [recordActivity]);
     
-    const onSaveCustomWord = async (wordData: Partial<Word>, gradeLevelForNew = userSettings?.grade, unitNumber?: number): Promise<boolean> => {
+    const onSaveCustomWord = async (wordData: Partial<Word>, gradeLevelForNew = userSettings?.grade, unitId?: string): Promise<boolean> => {
         if (!wordData.term?.trim() || !wordData.meaning?.trim() || !wordData.partOfSpeech?.trim() || !wordData.exampleSentence?.trim()) {
             addToast("단어, 뜻, 품사, 예문은 필수 항목입니다.", "error");
             return false;
@@ -3595,7 +9458,7 @@ const App: React.FC = () => {
         if (wordData.id) { // Editing existing custom word
             const wordIndex = allWords.findIndex(w => w.id === wordData.id && w.isCustom);
             if (wordIndex > -1) {
-                const updatedWord = { ...allWords[wordIndex], ...wordData, term: termToSave, unit: unitNumber !== undefined ? String(unitNumber) : allWords[wordIndex].unit };
+                const updatedWord = { ...allWords[wordIndex], ...wordData, term: termToSave, ...(unitId !== undefined ? { unitId } : {}) };
                 const newAllWords = [...allWords];
                 newAllWords[wordIndex] = updatedWord;
                 setAllWords(newAllWords);
@@ -3608,18 +9471,19 @@ const App: React.FC = () => {
             addToast("수정할 단어를 찾지 못했습니다.", "error");
             return false;
         } else { // Adding new word
-            const existingWordGlobal = allWords.find(w => w.term.toLowerCase() === termToSave.toLowerCase());
+            const existingWordGlobal = findWordByTerm(allWords, termToSave);
+            const unitTitle = units.find(u => u.id === unitId)?.title;
             if (existingWordGlobal) {
                 if (!existingWordGlobal.isCustom) {
-                    addToast(`'${termToSave}'은(는) 이미 기본 단어 목록에 존재합니다. 단원 ${unitNumber ? unitNumber + '에 ' : ''}새로 추가되지 않습니다.`, "info");
+                    addToast(`'${termToSave}'은(는) 이미 기본 단어 목록에 존재합니다. ${unitTitle ? `'${unitTitle}' 단원에 ` : ''}새로 추가되지 않습니다.`, "info");
                 } else {
-                    addToast(`'${termToSave}'은(는) 이미 나의 단어 목록에 존재합니다. 단원 ${unitNumber ? unitNumber + '에 ' : ''}새로 추가되지 않습니다.`, "info");
+                    addToast(`'${termToSave}'은(는) 이미 나의 단어 목록에 존재합니다. ${unitTitle ? `'${unitTitle}' 단원에 ` : ''}새로 추가되지 않습니다.`, "info");
                 }
                 return false; 
             }
 
             const newWord: Word = {
-                id: Date.now().toString(), 
+                id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, // Unique even when several words are saved at once
                 term: termToSave,
                 pronunciation: wordData.pronunciation || '',
                 partOfSpeech: wordData.partOfSpeech,
@@ -3628,7 +9492,7 @@ const App: React.FC = () => {
                 exampleSentenceMeaning: wordData.exampleSentenceMeaning || '',
                 gradeLevel: gradeLevelForNew || userSettings?.grade || 'middle1',
                 isCustom: true,
-                unit: unitNumber !== undefined ? String(unitNumber) : undefined
+                unitId,
             };
             setAllWords(prevWords => [...prevWords, newWord]);
             if (!wordStats[newWord.id]) { // Initialize stats for the new word
@@ -3649,6 +9513,7 @@ const App: React.FC = () => {
                 delete newStats[wordId];
                 return newStats;
             });
+            deleteAiContentForWord(wordId).catch(error => console.warn(`Could not delete cached AI content for word ${wordId}:`, error));
             addToast(`'${wordToDelete.term}' 단어가 삭제되었습니다.`, "success");
         } else if (wordToDelete && !wordToDelete.isCustom) {
              addToast("기본 제공 단어는 삭제할 수 없습니다.", "warning");
@@ -3657,12 +9522,63 @@ const App: React.FC = () => {
         }
     };
     
+    // Moves the source unit's words and import job into the target unit, then removes the source unit
+    const handleMergeUnits = (sourceUnitId: string, targetUnitId: string) => {
+        if (sourceUnitId === targetUnitId) return;
+        setAllWords(prevWords => prevWords.map(w => w.unitId === sourceUnitId ? { ...w, unitId: targetUnitId } : w));
+        setUnitImportJobs(prevJobs => {
+            const { [sourceUnitId]: sourceJob, ...remainingJobs } = prevJobs;
+            if (!sourceJob) return prevJobs;
+            const targetJob = { ...initialUnitImportJob(), ...remainingJobs[targetUnitId] };
+            const targetTerms = new Set(targetJob.extractedWords.map(w => w.text.toLowerCase()));
+            remainingJobs[targetUnitId] = {
+                ...targetJob,
+                extractedWords: [...targetJob.extractedWords, ...sourceJob.extractedWords.filter(w => !targetTerms.has(w.text.toLowerCase()))],
+                history: [...targetJob.history, ...sourceJob.history]
+                    .sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+                    .slice(0, UNIT_IMPORT_HISTORY_MAX_ENTRIES),
+                summary: targetJob.summary ?? sourceJob.summary,
+                fileName: targetJob.fileName ?? sourceJob.fileName,
+            };
+            return remainingJobs;
+        });
+        setUnits(prevUnits => prevUnits.filter(unit => unit.id !== sourceUnitId));
+    };
+
+    // Deleting a unit keeps its words; they simply no longer belong to a unit
+    const handleDeleteUnit = (unitId: string) => {
+        setAllWords(prevWords => prevWords.map(w => {
+            if (w.unitId !== unitId) return w;
+            const { unitId: _removedUnitId, ...wordWithoutUnit } = w;
+            return wordWithoutUnit;
+        }));
+        setUnitImportJobs(prevJobs => {
+            const { [unitId]: _removedJob, ...remainingJobs } = prevJobs;
+            return remainingJobs;
+        });
+        setUnits(prevUnits => prevUnits.filter(unit => unit.id !== unitId));
+    };
+
     const averageQuizScore = quizHistory.length > 0 
         ? quizHistory.reduce((acc, curr) => acc + (curr.score / Math.max(1, curr.total)), 0) / quizHistory.length * 100 
         : 0;
 
     const hasIncorrectWordsToReview = Object.values(wordStats).some(stat => stat.quizIncorrectCount > 0 && !stat.isMastered);
 
+    const unitSummaries = useMemo(() => Object.entries(unitImportJobs).reduce((summaries, [unit, job]) => {
+        if (job.summary) summaries[unit] = job.summary;
+        return summaries;
+    }, {} as Record<string, string>), [unitImportJobs]);
+
+    const dueWordsCount = useMemo(() => {
+        if (!userSettings) return 0;
+        const today = getTodayDateString();
+        return allWords.filter(w => {
+            const stat = wordStats[w.id];
+            return w.gradeLevel === userSettings.grade && stat && isWordDue(stat, today);
+        }).length;
+    }, [allWords, wordStats, userSettings]);
+
 
     const screenProps: ScreenProps = { 
         userSettings: userSettings!, 
@@ -3674,31 +9590,45 @@ const App: React.FC = () => {
         addXp,
     };
 
+    if (!isStorageReady) {
+        return <GlobalSpinner isLoading={true} />;
+    }
+
+    if (currentScreen === 'profileSelect') {
+        return <ProfileSelectScreen profiles={profiles} activeProfileId={activeProfileId} onSelectProfile={handleSelectProfile} onAddProfile={handleAddProfile} onDeleteProfile={handleDeleteProfile} />;
+    }
+
     if (!userSettings) {
-        return <LoginSetupScreen onSetupComplete={handleSetupComplete} onNavigate={handleNavigate} addToast={addToast} />;
+        return <LoginSetupScreen onSetupComplete={handleSetupComplete} onNavigate={handleNavigate} addToast={addToast} onCancel={profiles.length > 0 ? () => setCurrentScreen('profileSelect') : undefined} textbookCatalogue={textbookCatalogue} onImportTextbookPack={handleImportTextbookPack} />;
     }
     
     let CurrentScreenComponent;
     switch (currentScreen) {
-        case 'dashboard': CurrentScreenComponent = <DashboardScreen {...screenProps} allWords={allWords} wordStats={wordStats} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} learningStreak={learningStreak} averageQuizScore={averageQuizScore} quizTakenToday={quizTakenToday} hasIncorrectWordsToReview={hasIncorrectWordsToReview}/>; break;
-        case 'learnWords': CurrentScreenComponent = <LearnWordsScreen {...screenProps} words={allWords} wordStats={wordStats} onWordLearned={onWordLearned} />; break;
-        case 'quiz': CurrentScreenComponent = <QuizScreen {...screenProps} words={allWords} wordStats={wordStats} onQuizComplete={onQuizComplete} updateWordStat={updateWordStat} />; break;
-        case 'allWords': CurrentScreenComponent = <AllWordsScreen {...screenProps} allWords={allWords} wordStats={wordStats} onDeleteCustomWord={onDeleteCustomWord} onSaveCustomWord={onSaveCustomWord} updateWordStat={updateWordStat}/>; break;
-        case 'wordsByUnit': CurrentScreenComponent = <WordsByUnitScreen {...screenProps} allWords={allWords} onSaveCustomWord={onSaveCustomWord} />; break;
-        case 'stats': CurrentScreenComponent = <StatsScreen {...screenProps} allWords={allWords} wordStats={wordStats} learnedWordsTodayCount={learnedWordsTodayCount} learningStreak={learningStreak} averageQuizScore={averageQuizScore} />; break;
-        case 'manageWords': CurrentScreenComponent = <ManageWordsScreen {...screenProps} allWords={allWords} onSaveCustomWord={onSaveCustomWord} onDeleteCustomWord={onDeleteCustomWord} />; break;
+        case 'dashboard': CurrentScreenComponent = <DashboardScreen {...screenProps} allWords={allWords} wordStats={wordStats} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} learningStreak={learningStreak} averageQuizScore={averageQuizScore} quizTakenToday={quizTakenToday} hasIncorrectWordsToReview={hasIncorrectWordsToReview} dueWordsCount={dueWordsCount}/>; break;
+        case 'learnWords': CurrentScreenComponent = <LearnWordsScreen key={currentRouteHash} {...screenProps} routeParams={routeParams as RouteParams<'learnWords'>} words={allWords} units={units} wordStats={wordStats} unitSummaries={unitSummaries} onWordLearned={onWordLearned} />; break;
+        case 'quiz': CurrentScreenComponent = <QuizScreen {...screenProps} routeParams={routeParams as RouteParams<'quiz'>} words={allWords} units={units} wordStats={wordStats} unitSummaries={unitSummaries} onQuizComplete={onQuizComplete} updateWordStat={updateWordStat} onWordReviewed={recordWordReview} />; break;
+        case 'allWords': CurrentScreenComponent = <AllWordsScreen {...screenProps} allWords={allWords} units={units} wordStats={wordStats} onDeleteCustomWord={onDeleteCustomWord} onSaveCustomWord={onSaveCustomWord} updateWordStat={updateWordStat} onOpenWordPack={setPendingWordPack}/>; break;
+        case 'wordsByUnit': CurrentScreenComponent = <WordsByUnitScreen {...screenProps} allWords={allWords} onSaveCustomWord={onSaveCustomWord} units={units} onUnitsChange={setUnits} onMergeUnits={handleMergeUnits} onDeleteUnit={handleDeleteUnit} unitImportJobs={unitImportJobs} onUnitImportJobsChange={setUnitImportJobs} />; break;
+        case 'stats': CurrentScreenComponent = <StatsScreen {...screenProps} allWords={allWords} units={units} wordStats={wordStats} learnedWordsTodayCount={learnedWordsTodayCount} learningStreak={learningStreak} averageQuizScore={averageQuizScore} activityLog={activityLog} onCreateBackup={createBackup} onRestoreBackup={handleRestoreBackup} />; break;
+        case 'manageWords': CurrentScreenComponent = <ManageWordsScreen {...screenProps} allWords={allWords} units={units} onSaveCustomWord={onSaveCustomWord} onDeleteCustomWord={onDeleteCustomWord} />; break;
         case 'tutorChat': CurrentScreenComponent = <TutorChatScreen {...screenProps} words={allWords} />; break;
         case 'gameSelection': CurrentScreenComponent = <GameSelectionScreen {...screenProps} />; break;
-        case 'wordMatchGame': CurrentScreenComponent = <WordMatchGame {...screenProps} words={allWords} onGameComplete={(score, correct, incorrect, timeTaken) => addXp(score)} />; break;
-        case 'typingPracticeGame': CurrentScreenComponent = <TypingPracticeGame {...screenProps} />; break;
-        case 'speedQuizGame': CurrentScreenComponent = <SpeedQuizGame {...screenProps} />; break;
-        case 'gameResult': CurrentScreenComponent = <GameResultScreen {...screenProps} routeParams={routeParams} />; break;
-        default: CurrentScreenComponent = <DashboardScreen {...screenProps} allWords={allWords} wordStats={wordStats} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} learningStreak={learningStreak} averageQuizScore={averageQuizScore} quizTakenToday={quizTakenToday} hasIncorrectWordsToReview={hasIncorrectWordsToReview} />;
+        case 'wordMatchGame': CurrentScreenComponent = <WordMatchGame {...screenProps} words={allWords} onGameComplete={(score, correct, incorrect, timeTaken) => addXp(score)} onWordReviewed={recordWordReview} />; break;
+        case 'typingPracticeGame': CurrentScreenComponent = <TypingPracticeGame {...screenProps} words={allWords} wordStats={wordStats} updateWordStat={updateWordStat} onWordReviewed={recordWordReview} />; break;
+        case 'speedQuizGame': CurrentScreenComponent = <SpeedQuizGame {...screenProps} words={allWords} wordStats={wordStats} updateWordStat={updateWordStat} onWordReviewed={recordWordReview} />; break;
+        case 'pronunciationGame': CurrentScreenComponent = <PronunciationGame {...screenProps} words={allWords} onWordPracticed={onWordLearned} />; break;
+        case 'gameResult': CurrentScreenComponent = <GameResultScreen {...screenProps} routeParams={routeParams as RouteParams<'gameResult'>} isRestored={isRouteRestored} />; break;
+        default: CurrentScreenComponent = <DashboardScreen {...screenProps} allWords={allWords} wordStats={wordStats} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} learningStreak={learningStreak} averageQuizScore={averageQuizScore} quizTakenToday={quizTakenToday} hasIncorrectWordsToReview={hasIncorrectWordsToReview} dueWordsCount={dueWordsCount} />;
     }
 
     return (
         <>
-            <NavBar currentScreen={currentScreen} onNavigate={handleNavigate} userSettings={userSettings} onOpenSettings={() => setIsSettingsModalOpen(true)} />
+            <NavBar currentScreen={currentScreen} onNavigate={handleNavigate} userSettings={userSettings} onOpenSettings={() => setIsSettingsModalOpen(true)} onSwitchProfile={() => handleNavigate('profileSelect')} />
+            {!isOnline && (
+                <div role="status" className="px-4 py-2 text-sm text-center bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200">
+                    📴 오프라인 모드입니다. 학습, 퀴즈, 게임은 그대로 사용할 수 있고, AI 기능은 인터넷에 연결되면 다시 사용할 수 있어요.
+                </div>
+            )}
             <main className="flex-grow overflow-y-auto custom-scrollbar bg-white dark:bg-slate-800">
                 {CurrentScreenComponent}
             </main>
@@ -3710,13 +9640,20 @@ const App: React.FC = () => {
                     onCancel={() => setIsSettingsModalOpen(false)}
                     onResetData={handleResetAllData}
                     addToast={addToast}
+                    textbookCatalogue={textbookCatalogue}
+                    onImportTextbookPack={handleImportTextbookPack}
                 />
             )}
+            {pendingWordPack && (
+                <WordPackImportModal pack={pendingWordPack} allWords={allWords} onImport={handleImportWordPack} onCancel={() => setPendingWordPack(null)} />
+            )}
             <GlobalSpinner isLoading={globalLoading} />
         </>
     );
 };
 
+registerServiceWorker();
+
 const rootElement = document.getElementById('root');
 if (rootElement) {
     const root = ReactDOM.createRoot(rootElement);
@@ -0,0 +1,102 @@
+// Service worker for offline use.
+// The app shell is served network-first so a deploy is picked up as soon as the device is online, while
+// dependencies from the CDNs (Tailwind, fonts, the esm.sh modules in the import map) are versioned and served
+// from the cache first. Gemini API calls are never cached; the app shows an offline state for them instead.
+const CACHE_NAME = 'ai-vocab-v1';
+
+const APP_SHELL_URLS = [
+    '/',
+    '/index.html',
+    '/index.css',
+    '/manifest.webmanifest',
+    '/icon.svg',
+    '/icon-maskable.svg',
+];
+
+// Keep in sync with the import map and the pdf.js worker in index.html / index.tsx
+const DEPENDENCY_URLS = [
+    'https://cdn.tailwindcss.com',
+    'https://fonts.googleapis.com/css2?family=Noto+Sans+KR:wght@300;400;500;700&display=swap',
+    'https://esm.sh/react@^19.1.0',
+    'https://esm.sh/react-dom@^19.1.0/client',
+    'https://esm.sh/pdfjs-dist@4.3.136',
+    'https://esm.sh/pdfjs-dist@4.3.136/build/pdf.worker.mjs',
+    'https://esm.sh/xlsx@0.18.5',
+    'https://esm.sh/@google/genai',
+];
+
+const DEPENDENCY_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Failures are ignored: one unreachable CDN file must not stop the rest of the app from being cached
+const cacheUrls = async (urls) => {
+    const cache = await caches.open(CACHE_NAME);
+    await Promise.all(urls.map(async (url) => {
+        try {
+            const response = await fetch(url, { mode: new URL(url, self.location.href).origin === self.location.origin ? 'same-origin' : 'cors' });
+            if (response.ok) await cache.put(url, response);
+        } catch (error) {
+            console.warn(`[sw] Could not cache ${url}`, error);
+        }
+    }));
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(cacheUrls([...APP_SHELL_URLS, ...DEPENDENCY_URLS]).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// The first visit loads everything before the worker is active, so the page reports what it loaded
+self.addEventListener('message', (event) => {
+    if (event.data && event.data.type === 'CACHE_URLS' && Array.isArray(event.data.urls)) {
+        const urls = event.data.urls.filter(url => {
+            const { origin, hostname } = new URL(url);
+            return origin === self.location.origin || DEPENDENCY_HOSTS.includes(hostname);
+        });
+        event.waitUntil(cacheUrls(urls));
+    }
+});
+
+const networkFirst = async (request) => {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+        if (cached) return cached;
+        if (request.mode === 'navigate') {
+            const shell = await cache.match('/');
+            if (shell) return shell;
+        }
+        throw error;
+    }
+};
+
+const cacheFirst = async (request) => {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    // Opaque responses (no-cors stylesheets and scripts) are cached too; their status is not readable
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (url.origin === self.location.origin) {
+        event.respondWith(networkFirst(request));
+    } else if (DEPENDENCY_HOSTS.includes(url.hostname)) {
+        event.respondWith(cacheFirst(request));
+    }
+});
@@ -0,0 +1,206 @@
+// Word lists bundled for offline vocabulary extraction (see `extractVocabularyCandidates` in index.tsx).
+// Lists are whitespace-separated so they stay easy to edit; all entries are lowercase base forms.
+
+const toWordSet = (list: string) => new Set(list.trim().split(/\s+/));
+
+// Function words and very common words that are never worth studying as vocabulary
+export const STOP_WORDS = toWordSet(`
+a about above across after again against ago all almost along already also although always am among an and another any anybody
+anyone anything anywhere are around as at away back be because been before behind being below beside besides between both but by
+can cannot could did do does doing done down during each either else enough etc even ever every everybody everyone everything
+everywhere few for from get got had has have having he her here hers herself him himself his how however i if in inside into is it
+its itself just least less let like many may maybe me might mine more most much must my myself near neither never no nobody none nor
+not nothing now of off often on once one only onto or other others our ours ourselves out outside over own per perhaps please quite
+rather really same shall she should since so some somebody someone something sometimes somewhere soon still such than that the their
+theirs them themselves then there these they this those though through thus till to today together tomorrow too toward towards
+under until up upon us very was we well were what whatever when whenever where wherever whether which while who whoever whom whose
+why will with within without would yes yesterday yet you your yours yourself yourselves
+oh ok okay hey hi hello wow yeah mr mrs ms dr
+zero two three four five six seven eight nine ten eleven twelve hundred thousand million first second third
+unit lesson page chapter part step exercise activity example answer question listen read write speak talk check review
+`);
+
+// Inflected forms the suffix rules cannot recover: irregular verbs, plurals and comparatives
+export const IRREGULAR_FORMS: Record<string, string> = {
+    am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+    has: 'have', had: 'have', does: 'do', did: 'do', done: 'do',
+    arose: 'arise', arisen: 'arise', awoke: 'awake', awoken: 'awake', bore: 'bear', born: 'bear', borne: 'bear',
+    beat: 'beat', beaten: 'beat', became: 'become', began: 'begin', begun: 'begin', bent: 'bend', bet: 'bet',
+    bit: 'bite', bitten: 'bite', bled: 'bleed', blew: 'blow', blown: 'blow', broke: 'break', broken: 'break',
+    bred: 'breed', brought: 'bring', built: 'build', burnt: 'burn', bought: 'buy', caught: 'catch', chose: 'choose',
+    chosen: 'choose', came: 'come', cost: 'cost', crept: 'creep', dealt: 'deal', dug: 'dig', dove: 'dive', drew: 'draw',
+    drawn: 'draw', dreamt: 'dream', drank: 'drink', drunk: 'drink', drove: 'drive', driven: 'drive', ate: 'eat',
+    eaten: 'eat', fell: 'fall', fallen: 'fall', fed: 'feed', felt: 'feel', fought: 'fight', found: 'find', fled: 'flee',
+    flew: 'fly', flown: 'fly', forbade: 'forbid', forbidden: 'forbid', forgot: 'forget', forgotten: 'forget',
+    forgave: 'forgive', forgiven: 'forgive', froze: 'freeze', frozen: 'freeze', gave: 'give', given: 'give',
+    went: 'go', gone: 'go', grew: 'grow', grown: 'grow', hung: 'hang', heard: 'hear', hid: 'hide', hidden: 'hide',
+    held: 'hold', hurt: 'hurt', kept: 'keep', knelt: 'kneel', knew: 'know', known: 'know', laid: 'lay', led: 'lead',
+    leapt: 'leap', learnt: 'learn', left: 'leave', lent: 'lend', lay: 'lie', lain: 'lie', lit: 'light', lost: 'lose',
+    made: 'make', meant: 'mean', met: 'meet', mistook: 'mistake', mistaken: 'mistake', overcame: 'overcome',
+    paid: 'pay', proved: 'prove', proven: 'prove', quit: 'quit', ran: 'run', rang: 'ring', rung: 'ring', rose: 'rise',
+    risen: 'rise', rode: 'ride', ridden: 'ride', said: 'say', saw: 'see', seen: 'see', sought: 'seek', sold: 'sell',
+    sent: 'send', set: 'set', shook: 'shake', shaken: 'shake', shone: 'shine', shot: 'shoot', showed: 'show',
+    shown: 'show', shrank: 'shrink', shrunk: 'shrink', shut: 'shut', sang: 'sing', sung: 'sing', sank: 'sink',
+    sunk: 'sink', sat: 'sit', slept: 'sleep', slid: 'slide', spoke: 'speak', spoken: 'speak', sped: 'speed',
+    spent: 'spend', spilt: 'spill', spun: 'spin', spread: 'spread', sprang: 'spring', sprung: 'spring', stood: 'stand',
+    stole: 'steal', stolen: 'steal', stuck: 'stick', stung: 'sting', struck: 'strike', strove: 'strive', swore: 'swear',
+    sworn: 'swear', swept: 'sweep', swam: 'swim', swum: 'swim', swung: 'swing', took: 'take', taken: 'take',
+    taught: 'teach', tore: 'tear', torn: 'tear', told: 'tell', thought: 'think', threw: 'throw', thrown: 'throw',
+    understood: 'understand', undertook: 'undertake', woke: 'wake', woken: 'wake', wore: 'wear', worn: 'wear',
+    wove: 'weave', woven: 'weave', wept: 'weep', won: 'win', wound: 'wind', withdrew: 'withdraw', wrote: 'write',
+    written: 'write',
+    children: 'child', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth', geese: 'goose', mice: 'mouse',
+    lice: 'louse', oxen: 'ox', leaves: 'leaf', knives: 'knife', lives: 'life', wives: 'wife', wolves: 'wolf',
+    halves: 'half', shelves: 'shelf', loaves: 'loaf', thieves: 'thief', calves: 'calf', selves: 'self',
+    potatoes: 'potato', tomatoes: 'tomato', heroes: 'hero', echoes: 'echo', data: 'datum', media: 'medium',
+    phenomena: 'phenomenon', criteria: 'criterion', analyses: 'analysis', crises: 'crisis',
+    better: 'good', best: 'good', worse: 'bad', worst: 'bad', further: 'far', furthest: 'far', farther: 'far',
+    farthest: 'far', elder: 'old', eldest: 'old',
+};
+
+// Adjectives whose comparatives end in -er. Other -er words (teacher, writer, winner) are words of their own.
+export const COMPARATIVE_ADJECTIVES = toWordSet(`
+angry big brave bright busy calm cheap clean clear close cold cool cute dark deep dirty early easy fast fat few fine
+fresh friendly full funny gentle great happy hard healthy heavy high hot huge hungry kind large late lazy light long
+loud low lucky narrow near new nice noisy old poor pretty proud quick quiet rare rich sad safe short simple slow small
+smart soft strange strong sweet tall thick thin tidy tight tiny warm weak wet wide wild wise young
+`);
+
+// Phrasal verbs and idioms taught in middle school textbooks. Each word matches either its base form or this exact form.
+export const MULTI_WORD_EXPRESSIONS: string[] = [
+    'look forward to', 'look after', 'look for', 'look up', 'look into', 'look up to', 'look down on',
+    'give up', 'give back', 'give away', 'give in', 'take care of', 'take part in', 'take off', 'take place',
+    'take after', 'take out', 'take a break', 'take a picture', 'take a walk', 'turn on', 'turn off', 'turn down',
+    'turn up', 'turn into', 'put on', 'put off', 'put away', 'put up with', 'get up', 'get along with', 'get over',
+    'get rid of', 'get to', 'get on', 'get off', 'get better', 'get together', 'come up with', 'come across',
+    'come back', 'come true', 'go on', 'go out', 'go through', 'go over', 'go ahead', 'set up', 'set off',
+    'find out', 'figure out', 'carry out', 'point out', 'work out', 'pick up', 'show up', 'show off', 'make up',
+    'make sure', 'make fun of', 'make a mistake', 'make friends with', 'make a decision', 'run out of', 'run into',
+    'run away', 'break down', 'break into', 'break up', 'bring up', 'call off', 'call back', 'fill out', 'fill in',
+    'hand in', 'hang out', 'hold on', 'keep up with', 'keep in touch', 'keep on', 'let down', 'pass away',
+    'pay attention to', 'rely on', 'depend on', 'deal with', 'cheer up', 'calm down', 'slow down', 'stand for',
+    'stand out', 'stay up', 'try on', 'wake up', 'watch out', 'write down', 'grow up', 'clean up', 'sign up',
+    'throw away', 'wait for', 'belong to', 'care about', 'care for', 'worry about', 'think of', 'think about',
+    'agree with', 'apply for', 'believe in', 'consist of', 'suffer from', 'succeed in', 'participate in',
+    'be good at', 'be interested in', 'be afraid of', 'be proud of', 'be full of', 'be famous for',
+    'be able to', 'be about to', 'be likely to', 'be used to', 'be worried about', 'be satisfied with',
+    'be responsible for', 'be tired of', 'be filled with', 'be made of', 'be covered with',
+    'a lot of', 'lots of', 'a few', 'a little', 'a couple of', 'a number of', 'a variety of', 'plenty of',
+    'in front of', 'next to', 'because of', 'instead of', 'thanks to', 'according to', 'due to', 'such as',
+    'as well as', 'in order to', 'at first', 'at last', 'at least', 'at once', 'by the way', 'for example',
+    'for instance', 'in fact', 'in addition', 'in the end', 'on time', 'on purpose', 'from now on', 'each other',
+    'one another', 'no longer', 'all the time', 'more and more', 'little by little', 'one day', 'right away',
+    'of course', 'as soon as', 'not only', 'so far', 'these days', 'in the future', 'in the past',
+    'piece of cake', 'break the ice', 'under the weather', 'once in a blue moon', 'cost an arm and a leg',
+    'hit the books', 'on the other hand', 'be in trouble',
+];
+
+// Base forms grouped by the grade they are usually taught in; each word belongs to exactly one list. Words in no list are
+// treated as advanced.
+export const WORD_TIER_LISTS: Record<'basic' | 'middle1' | 'middle2' | 'middle3', Set<string>> = {
+    // Elementary school vocabulary most students already know
+    basic: toWordSet(`
+act add afraid age air airport album angry animal ant apple arm art ask aunt baby bad bag bake ball balloon banana band bank
+baseball basket basketball bath bathroom beach bean bear beautiful bed bedroom bee begin believe bell big bike bird birthday black
+blanket blue board boat body book borrow bottle bowl box boy brave bread break breakfast bridge bright bring brother brown brush
+build bus busy butter butterfly button buy cake calendar call camera camp candy cap captain car card care carry cat catch chair
+chalk change cheap cheese chicken child choose church circle city class classroom clean clock close cloud club coat coffee cold
+color come computer cook cookie cool corn count country cousin cow crayon cry cup cut cute dad dance dark daughter day dear
+delicious desk dinner dish do doctor dog doll dolphin door dragon draw dream dress drink drive drop drum duck ear early earth
+east easy eat egg elephant end engineer eraser evening eye face fact fall family famous fan farm farmer fast fat father favorite
+feel field fight find fine finger finish fire fish fix flag floor flower fly food fool foot football forest forget fork free fresh
+friend frog fruit full fun funny future game garden gate gift giraffe girl give glad glass glove glue go goal god gold good grape
+grass great green grey ground group grow guitar guy hair hand handsome happy hard hat hate head health hear heart heavy help hero
+high hill history hit hobby hold holiday home homework honey hope horse hospital hot hour house hungry hurry husband ice idea
+important jacket job join juice jump key kick kid kill kind king kitchen knee knife know lady lake land large last late laugh
+lazy leaf learn leg lemon lesson letter library light line lion lip listen little live long look lose lot love low luck lunch mad mail
+make man map market marry math meat meet melon milk mind mirror miss model mom money monkey month moon morning mother mountain
+mouse mouth move movie music name nature neck need new news next nice night noise noodle north nose note number nurse ocean
+office old open orange pants paper parent park party pass peace pear pen pencil people pet piano pick picture pig pilot pink
+pizza place plan plane plant play police pool poor potato practice pretty prince princess problem puppy push put queen question
+quiet rabbit race rain rainbow read ready red remember restaurant rice rich ride right ring river road robot rock room rose round
+rule run sad safe salad salt sand say school science sea season see sell send shape ship shirt shoe shop short shout show shy sick
+sing sister sit size skate ski skirt sky sleep slow small smart smell smile snake snow soccer sock soft son song sorry sound soup
+south space speak sport spring stand star start station stay stop store story strawberry street strong student study subject
+sugar summer sun supper swim table tail take tall taste teach teacher team tell tennis test thank thing think thirsty ticket
+tiger time tired toe tomato tooth top touch tower town toy train travel tree trip truck true try turn turtle umbrella uncle
+understand use vegetable video visit voice wait walk wall want warm wash watch water way wear weather week weekend welcome west
+wet white wife win wind window wing winter wish woman wonderful wood word work world worry write wrong year yellow young zoo
+`),
+    middle1: toWordSet(`
+ability accept accident achieve action active activity address adult adventure advice agree alone amazing ancient announce
+anxious apologize appear area arrive article artist asleep attack attend audience author avoid award aware balance battle
+behave belong benefit bite blind blood boil bored bottom brain branch brilliant bubble bug burn cancel careful carpenter
+cartoon castle cause chocolate celebrate center century challenge champion character cheer chef chemical chore citizen clever climb coach
+coin collect comfortable common community compare complete condition contest continue control conversation copy correct costume
+courage crazy create creative crowd culture curious customer damage danger deliver dentist describe design desert detail
+diary die difference difficult dinosaur direction dirty disappear discover discuss disease distance divide donate double
+during effort electric emotion empty encourage energy enjoy enter environment escape event exact excellent excited
+exercise expensive experience explain express fail fair fantastic fashion fear feed festival fever fill final flight
+float focus fold foreign form forward freedom frighten gather gentle gesture global government graduate guess guest guide habit
+handle harmony harvest heal hide hike honest host huge human humor hunt imagine improve include information insect inside
+instrument interest invent invite island journey judge kindness knock language laptop law lead leader leave level lie
+lift limit local lonely machine magic manage manner marathon matter meal medicine member memory message metal method middle
+mission mix mobile moment motion museum mystery narrow nation natural neighbor nervous noisy normal notice novel object
+offer opinion order organize original pain paint pair palace patient pattern perfect perform period person photo pipe
+planet pleasure plenty poem point polite pollution popular position positive possible post pour power prepare present
+prize produce product program project promise protect proud provide public pull purpose puzzle quick raise rare reach
+reason receive recipe record recycle relax repair repeat report rescue respect rest result return reward role rubber
+sail save scared schedule score secret select sense serious serve share shock signal silent simple skill slide
+solve sort special spend spicy spirit stair steal step stick stomach storm strange stress succeed suddenly suggest support
+surprise symbol talent target tear technology temperature temple terrible theater throw tiny title tool topic tour tradition
+trash treasure treat trouble twin type unique universe upset useful usual vacation various victory village volunteer vote
+waste wave weak wedding weight wild wise wonder worth
+`),
+    middle2: toWordSet(`
+absence absorb abstract academic accompany accomplish account accurate accuse admire admit advance advantage affect afford
+aim alarm allow alternative amount amuse analyze anniversary annoy annual apply appreciate approach approve argue arrange
+arrest aspect assignment assist atmosphere attempt attitude attract available average awake barely basis behavior bill
+biology blame border boundary breathe brief budget burden calculate campaign capable capital career category caution
+ceremony chance charity chart chase cheat claim classic climate collapse colleague combine comfort comment commercial
+communicate compete complain complex concentrate concern conclude conduct confident confuse connect consider consist
+construct consume contain content context contrary contribute convenient convince cooperate crisis criticize crop
+crucial cure currency current curve decade decline decorate decrease defeat defend define degree delay demand deny depend
+depressed deserve desire destroy determine develop device devote diet digital disabled disagree disappoint disaster
+display distinguish distribute disturb document domestic dominate drought duty eager earn economy edge educate effect
+efficient elderly electricity element eliminate embarrass emergency emphasize employ enable encounter endangered enormous
+ensure entire equal equipment error essential establish estimate evaluate evidence evolve exaggerate examine exchange
+exhausted exhibition exist expand expect experiment expert explore export extend extreme facility factor familiar
+fault feature fee female fiction figure finance flexible flood former fortune found fuel function fund furniture generate
+generation generous genius gradually grateful guarantee guilty harm hesitate household identify ignore illegal illustrate
+impact import impress income increase independent indicate individual industry influence injure innocent insist inspire
+install instance instead intelligent intend internal interrupt introduce invest involve issue labor lack landscape
+lecture legend license literature loss loyal luxury maintain major male manufacture material measure mention mental
+military minor mood moral motivate nearby negative neither nutrition obey observe obtain obvious occasion occupy occur
+official operate opportunity oppose organic overcome participate passenger passion patience permit persuade phenomenon
+physical pleasant policy population portion possess potential poverty predict prefer pressure prevent previous pride
+principle priority private process profit progress proper propose prove purchase pursue quality quantity react realize
+recent recognize recommend recover reduce reflect refuse region regret regular reject release rely remain remove rent
+replace represent require research resemble reserve resource respond responsible reveal revolution risk ruin rural
+satisfy scene scholar search section secure seek senior sensitive separate series shelter significant similar
+situation slight society source species specific standard status strategy structure struggle suffer sufficient
+survey survive sustain talented task tend territory theory threat trend typical unless urban value vary vehicle
+victim vision vital volume wealth welfare witness
+`),
+    middle3: toWordSet(`
+abandon abundant accelerate accessible accommodate accumulate acknowledge acquire adapt adequate adjust administration
+adolescent advocate aggressive allocate ambiguous ambition analogy anticipate apparent appetite arbitrary artificial
+assess assume assure attribute authentic authority automatic beneficial bias boost breakthrough capacity catastrophe
+cease characteristic circumstance cite civilization clarify cognitive coincidence collaborate commitment compensate
+competent compile component comprehensive compromise conceive conflict conscious consequence conservative considerable
+consistent constitute constraint contemporary controversy conventional convert correspond credible cultivate cumulative
+deficiency deliberate democracy demonstrate dense derive deteriorate dilemma dimension diminish discipline discrimination
+dispute distinct diverse domain dramatic dynamic elaborate eligible emerge empathy endure enhance
+equivalent erosion ethical eventually evident exceed excessive exclude exploit extinct facilitate feasible
+fluctuate formula foundation fragile framework fundamental genuine hazard hierarchy hypothesis identical ideology
+immense implement implication imply incentive incorporate inevitable inherent initiative innovation insight integrate
+integrity interpret intervene intrinsic invaluable irrelevant isolate justify legislation legitimate likewise
+manipulate marginal mature mechanism migrate minimize modify monitor mutual negotiate neutral notion numerous objective
+obligation optimistic outcome overwhelm paradigm parallel perceive persist perspective plausible precise preliminary
+presume prevail profound prohibit prominent prospect provoke psychology radical random rational reinforce relevant
+reluctant remarkable renewable resilient restore restrict retain rigid sacrifice scarce scenario scope sequence
+simultaneous skeptical sophisticated spontaneous stable stereotype stimulate subsequent subtle superior suppress
+sustainable symptom tangible temporary tension thrive tolerate transform transition transparent trigger ultimate
+undergo underlying unprecedented utilize valid verify versatile viable vulnerable widespread
+`),
+};
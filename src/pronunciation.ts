@@ -0,0 +1,201 @@
+// Pronunciation practice: speech recognizers and transcript scoring.
+// Recognizers are pluggable so the practice screens do not depend on the browser's Web Speech API directly;
+// `createScriptedSpeechRecognizer` is a local stand-in that replays fixed transcripts for tests and demos.
+
+export type SpeechRecognitionErrorCode = 'not-supported' | 'not-allowed' | 'no-speech' | 'audio-capture' | 'network' | 'aborted' | 'unknown';
+
+// Either the recognized transcripts (best guess first) or why nothing was recognized
+export type SpeechRecognitionOutcome = { transcripts: string[]; error?: undefined } | { transcripts?: undefined; error: SpeechRecognitionErrorCode };
+
+export interface SpeechRecognizer {
+    isSupported: () => boolean;
+    // Listens for one utterance; never rejects
+    recognize: (options: { lang: string; signal?: AbortSignal }) => Promise<SpeechRecognitionOutcome>;
+}
+
+// The parts of the Web Speech API used here; TypeScript's DOM library does not declare it
+interface WebSpeechRecognition {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    maxAlternatives: number;
+    onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start: () => void;
+    abort: () => void;
+}
+
+const WEB_SPEECH_ERROR_CODES: Record<string, SpeechRecognitionErrorCode> = {
+    'not-allowed': 'not-allowed',
+    'service-not-allowed': 'not-allowed',
+    'no-speech': 'no-speech',
+    'audio-capture': 'audio-capture',
+    'network': 'network',
+    'aborted': 'aborted',
+};
+
+const getWebSpeechRecognitionConstructor = (): (new () => WebSpeechRecognition) | undefined => {
+    if (typeof window === 'undefined') return undefined;
+    return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+};
+
+export const createWebSpeechRecognizer = (): SpeechRecognizer => ({
+    isSupported: () => !!getWebSpeechRecognitionConstructor(),
+    recognize: ({ lang, signal }) => new Promise(resolve => {
+        const Recognition = getWebSpeechRecognitionConstructor();
+        if (!Recognition) {
+            resolve({ error: 'not-supported' });
+            return;
+        }
+        if (signal?.aborted) {
+            resolve({ error: 'aborted' });
+            return;
+        }
+        const recognition = new Recognition();
+        recognition.lang = lang;
+        recognition.continuous = false;
+        recognition.interimResults = false;
+        recognition.maxAlternatives = 5;
+
+        // onend always follows onresult/onerror, so the outcome is settled there
+        let outcome: SpeechRecognitionOutcome = { error: 'no-speech' };
+        const handleAbort = () => recognition.abort();
+        recognition.onresult = (event) => {
+            const alternatives = Array.from(event.results[0] || []).map(alternative => alternative.transcript.trim()).filter(Boolean);
+            outcome = alternatives.length > 0 ? { transcripts: alternatives } : { error: 'no-speech' };
+        };
+        recognition.onerror = (event) => {
+            outcome = { error: WEB_SPEECH_ERROR_CODES[event.error] || 'unknown' };
+        };
+        recognition.onend = () => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve(signal?.aborted ? { error: 'aborted' } : outcome);
+        };
+        signal?.addEventListener('abort', handleAbort);
+        try {
+            recognition.start();
+        } catch (error) {
+            console.warn("Speech recognition could not start:", error);
+            signal?.removeEventListener('abort', handleAbort);
+            resolve({ error: 'unknown' });
+        }
+    }),
+});
+
+// Replays `script` one entry per call, then reports silence
+export const createScriptedSpeechRecognizer = (script: SpeechRecognitionOutcome[], delayMs = 0): SpeechRecognizer => {
+    const remaining = [...script];
+    return {
+        isSupported: () => true,
+        recognize: ({ signal }) => new Promise(resolve => {
+            const timeoutId = setTimeout(() => resolve(remaining.shift() || { error: 'no-speech' }), delayMs);
+            signal?.addEventListener('abort', () => {
+                clearTimeout(timeoutId);
+                resolve({ error: 'aborted' });
+            });
+        }),
+    };
+};
+
+let activeSpeechRecognizer: SpeechRecognizer | null = null;
+
+export const getSpeechRecognizer = () => {
+    if (!activeSpeechRecognizer) activeSpeechRecognizer = createWebSpeechRecognizer();
+    return activeSpeechRecognizer;
+};
+
+export const setSpeechRecognizer = (recognizer: SpeechRecognizer) => {
+    activeSpeechRecognizer = recognizer;
+};
+
+// --- Scoring ---
+export const PRONUNCIATION_PASS_SCORE = 70;
+const WORD_MATCH_SIMILARITY = 0.8; // A spoken word this close to the target word counts as said correctly
+const MIN_CREDITED_SIMILARITY = 0.5; // Below this, a spoken word earns no partial credit
+
+// Recognizers write small numbers as digits ("I have 2 cats")
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+const normalizeSpeechTokens = (text: string): string[] => text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[-–—/]/g, ' ')
+    .replace(/[^a-z0-9' ]/g, '')
+    .split(/\s+/)
+    .map(token => token.replace(/^'+|'+$/g, ''))
+    .filter(Boolean)
+    .map(token => /^\d+$/.test(token) && DIGIT_WORDS[Number(token)] ? DIGIT_WORDS[Number(token)] : token);
+
+const getEditDistance = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const getTokenSimilarity = (a: string, b: string) => {
+    const similarity = 1 - getEditDistance(a, b) / Math.max(a.length, b.length, 1);
+    return similarity >= MIN_CREDITED_SIMILARITY ? similarity : 0;
+};
+
+// Aligns the spoken tokens with the target tokens (keeping word order) so that the total similarity is highest,
+// and returns each target token's similarity. Extra spoken words ("an apple" for "apple") are not penalized.
+const alignSpokenTokens = (targetTokens: string[], spokenTokens: string[]): number[] => {
+    const rows = targetTokens.length + 1;
+    const columns = spokenTokens.length + 1;
+    const best = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < columns; j++) {
+            best[i][j] = Math.max(best[i - 1][j], best[i][j - 1], best[i - 1][j - 1] + getTokenSimilarity(targetTokens[i - 1], spokenTokens[j - 1]));
+        }
+    }
+    const similarities = new Array<number>(targetTokens.length).fill(0);
+    for (let i = targetTokens.length, j = spokenTokens.length; i > 0 && j > 0;) {
+        const similarity = getTokenSimilarity(targetTokens[i - 1], spokenTokens[j - 1]);
+        if (similarity > 0 && best[i][j] === best[i - 1][j - 1] + similarity) {
+            similarities[i - 1] = similarity;
+            i--;
+            j--;
+        } else if (best[i][j] === best[i - 1][j]) i--;
+        else j--;
+    }
+    return similarities;
+};
+
+export interface PronunciationScore {
+    score: number; // 0-100
+    transcript: string; // The recognizer alternative the score is based on
+    words: { text: string; matched: boolean }[]; // The target split into words as written, for highlighting
+}
+
+const scoreTranscript = (target: string, transcript: string): PronunciationScore => {
+    const targetWords = target.split(/\s+/).filter(Boolean)
+        .map(text => ({ text, tokens: normalizeSpeechTokens(text) }))
+        .filter(word => word.tokens.length > 0);
+    const similarities = alignSpokenTokens(targetWords.flatMap(word => word.tokens), normalizeSpeechTokens(transcript));
+    let tokenIndex = 0;
+    const words = targetWords.map(word => {
+        const wordSimilarities = similarities.slice(tokenIndex, tokenIndex += word.tokens.length);
+        return { text: word.text, matched: wordSimilarities.every(similarity => similarity >= WORD_MATCH_SIMILARITY) };
+    });
+    const total = similarities.reduce((sum, similarity) => sum + similarity, 0);
+    return { score: similarities.length > 0 ? Math.round((total / similarities.length) * 100) : 0, transcript, words };
+};
+
+// Scores every alternative the recognizer offered and keeps the best, since its first guess is often a near miss
+export const scorePronunciation = (target: string, transcripts: string[]): PronunciationScore => {
+    const scores = (transcripts.length > 0 ? transcripts : ['']).map(transcript => scoreTranscript(target, transcript));
+    return scores.reduce((best, current) => current.score > best.score ? current : best);
+};
+
+// Maps a score to SM-2 response quality. Passing only after retries is never a perfect answer.
+export const getPronunciationQuality = (score: number, attempts: number) => {
+    const quality = score >= 90 ? 5 : score >= 80 ? 4 : score >= PRONUNCIATION_PASS_SCORE ? 3 : score >= 40 ? 2 : 1;
+    return attempts > 1 ? Math.min(quality, 4) : quality;
+};
@@ -0,0 +1,280 @@
+// Minimal QR Code encoder for sharing links on screen: byte mode, error correction level L, versions 1-40.
+// Follows ISO/IEC 18004; the structure mirrors Project Nayuki's reference implementation.
+
+// Indexed by version (index 0 is unused)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25];
+const FORMAT_BITS_LEVEL_L = 1;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const getNumRawDataModules = (version: number) => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2;
+        result -= (25 * numAlign - 10) * numAlign - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const getNumDataCodewords = (version: number) =>
+    Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+const getAlignmentPatternPositions = (version: number) => {
+    if (version === 1) return [];
+    const size = version * 4 + 17;
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+    return result;
+};
+
+// --- Reed-Solomon error correction over GF(2^8) ---
+const multiplyGf = (x: number, y: number) => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const computeReedSolomonDivisor = (degree: number) => {
+    const result: number[] = new Array(degree - 1).fill(0);
+    result.push(1);
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = multiplyGf(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = multiplyGf(root, 0x02);
+    }
+    return result;
+};
+
+const computeReedSolomonRemainder = (data: number[], divisor: number[]) => {
+    const result = divisor.map(() => 0);
+    data.forEach(byte => {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => { result[i] ^= multiplyGf(coefficient, factor); });
+    });
+    return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves the result
+const addEccAndInterleave = (data: number[], version: number) => {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+    const divisor = computeReedSolomonDivisor(blockEccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+        const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+        k += blockData.length;
+        const ecc = computeReedSolomonRemainder(blockData, divisor);
+        if (i < numShortBlocks) blockData.push(0); // Placeholder, skipped when interleaving
+        blocks.push(blockData.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+};
+
+// --- Module placement ---
+const createSymbol = (version: number) => {
+    const size = version * 4 + 17;
+    const modules: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+    const isFunction: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+    const setFunctionModule = (x: number, y: number, isDark: boolean) => {
+        modules[y][x] = isDark;
+        isFunction[y][x] = true;
+    };
+
+    const drawFormatBits = (mask: number) => {
+        const data = (FORMAT_BITS_LEVEL_L << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+        for (let i = 0; i <= 5; i++) setFunctionModule(8, i, getBit(bits, i));
+        setFunctionModule(8, 7, getBit(bits, 6));
+        setFunctionModule(8, 8, getBit(bits, 7));
+        setFunctionModule(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) setFunctionModule(14 - i, 8, getBit(bits, i));
+        for (let i = 0; i < 8; i++) setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+        for (let i = 8; i < 15; i++) setFunctionModule(8, size - 15 + i, getBit(bits, i));
+        setFunctionModule(8, size - 8, true); // Always dark
+    };
+
+    const drawFunctionPatterns = () => {
+        for (let i = 0; i < size; i++) {
+            setFunctionModule(6, i, i % 2 === 0);
+            setFunctionModule(i, 6, i % 2 === 0);
+        }
+        [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([x, y]) => {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                    if (x + dx >= 0 && x + dx < size && y + dy >= 0 && y + dy < size) setFunctionModule(x + dx, y + dy, distance !== 2 && distance !== 4);
+                }
+            }
+        });
+        const alignPositions = getAlignmentPatternPositions(version);
+        const numAlign = alignPositions.length;
+        for (let i = 0; i < numAlign; i++) {
+            for (let j = 0; j < numAlign; j++) {
+                // The corners already hold finder patterns
+                if ((i === 0 && j === 0) || (i === 0 && j === numAlign - 1) || (i === numAlign - 1 && j === 0)) continue;
+                for (let dy = -2; dy <= 2; dy++) {
+                    for (let dx = -2; dx <= 2; dx++) setFunctionModule(alignPositions[i] + dx, alignPositions[j] + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+                }
+            }
+        }
+        drawFormatBits(0); // Reserves the area; the real mask is drawn later
+        if (version >= 7) {
+            let remainder = version;
+            for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+            const bits = (version << 12) | remainder;
+            for (let i = 0; i < 18; i++) {
+                const a = size - 11 + (i % 3);
+                const b = Math.floor(i / 3);
+                setFunctionModule(a, b, getBit(bits, i));
+                setFunctionModule(b, a, getBit(bits, i));
+            }
+        }
+    };
+
+    // Zigzags up and down in two-module-wide columns from the bottom right
+    const drawCodewords = (codewords: number[]) => {
+        let i = 0;
+        for (let right = size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5; // Skip the vertical timing pattern
+            for (let vertical = 0; vertical < size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const isUpward = ((right + 1) & 2) === 0;
+                    const y = isUpward ? size - 1 - vertical : vertical;
+                    if (!isFunction[y][x] && i < codewords.length * 8) {
+                        modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+                        i++;
+                    }
+                }
+            }
+        }
+    };
+
+    const applyMask = (mask: number) => {
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                let invert: boolean;
+                switch (mask) {
+                    case 0: invert = (x + y) % 2 === 0; break;
+                    case 1: invert = y % 2 === 0; break;
+                    case 2: invert = x % 3 === 0; break;
+                    case 3: invert = (x + y) % 3 === 0; break;
+                    case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+                    case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+                    case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+                    default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+                }
+                if (!isFunction[y][x] && invert) modules[y][x] = !modules[y][x];
+            }
+        }
+    };
+
+    // Lower is better: long runs, 2x2 blocks, finder-like patterns and an unbalanced dark/light ratio are penalized
+    const getPenaltyScore = () => {
+        let penalty = 0;
+        const lines: boolean[][] = [...modules, ...modules[0].map((_, x) => modules.map(row => row[x]))];
+        lines.forEach(line => {
+            let runLength = 1;
+            for (let i = 1; i <= line.length; i++) {
+                if (i < line.length && line[i] === line[i - 1]) {
+                    runLength++;
+                } else {
+                    if (runLength >= 5) penalty += runLength - 2;
+                    runLength = 1;
+                }
+            }
+            // Dark-light-dark-dark-dark-light-dark with four light modules on either side
+            const pattern = line.map(isDark => (isDark ? '1' : '0')).join('');
+            const padded = `0000${pattern}0000`;
+            for (let i = padded.indexOf('1011101'); i !== -1; i = padded.indexOf('1011101', i + 1)) {
+                if (padded.slice(i - 4, i) === '0000' || padded.slice(i + 7, i + 11) === '0000') penalty += 40;
+            }
+        });
+        for (let y = 0; y < size - 1; y++) {
+            for (let x = 0; x < size - 1; x++) {
+                const color = modules[y][x];
+                if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += 3;
+            }
+        }
+        const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        const total = size * size;
+        penalty += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+        return penalty;
+    };
+
+    return { modules, drawFunctionPatterns, drawCodewords, drawFormatBits, applyMask, getPenaltyScore };
+};
+
+/**
+ * Encodes text (as UTF-8) into a QR code. Returns the module matrix, `true` for dark modules, without the quiet zone.
+ * Throws if the text does not fit into a version 40 symbol (2953 bytes).
+ */
+export const encodeQrCode = (text: string): boolean[][] => {
+    const bytes = Array.from(new TextEncoder().encode(text));
+    let version = 1;
+    for (; version <= 40; version++) {
+        const countBits = version <= 9 ? 8 : 16;
+        if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) break;
+    }
+    if (version > 40) throw new Error('Text is too long for a QR code.');
+
+    // Byte mode segment, terminator and padding
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    appendBits(0x4, 4);
+    appendBits(bytes.length, version <= 9 ? 8 : 16);
+    bytes.forEach(byte => appendBits(byte, 8));
+    const capacityBits = getNumDataCodewords(version) * 8;
+    appendBits(0, Math.min(4, capacityBits - bits.length));
+    appendBits(0, (8 - (bits.length % 8)) % 8);
+    for (let padByte = 0xec; bits.length < capacityBits; padByte ^= 0xec ^ 0x11) appendBits(padByte, 8);
+
+    const dataCodewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) dataCodewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+
+    const symbol = createSymbol(version);
+    symbol.drawFunctionPatterns();
+    symbol.drawCodewords(addEccAndInterleave(dataCodewords, version));
+
+    let bestMask = 0;
+    let minPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+        symbol.applyMask(mask);
+        symbol.drawFormatBits(mask);
+        const penalty = symbol.getPenaltyScore();
+        if (penalty < minPenalty) {
+            bestMask = mask;
+            minPenalty = penalty;
+        }
+        symbol.applyMask(mask); // Masking is its own inverse
+    }
+    symbol.applyMask(bestMask);
+    symbol.drawFormatBits(bestMask);
+    return symbol.modules;
+};